@@ -0,0 +1,245 @@
+import fs from 'fs';
+import path from 'path';
+import { EnigmaConfig } from './config.js';
+import { applyEdits, formatDiffPreview, readEditableFile } from './edit.js';
+import { createIgnoreFilter, isBinary, listProjectFiles, projectPath } from './files.js';
+import { AskOptions, ChatMessage, PerplexityAnswer, requestAnswer } from './perplexity.js';
+import { JsonSchema, parseJsonAnswer, validateAgainstSchema } from './schema.js';
+import { measureContext, trimHistory } from './tokens.js';
+
+export type AgentToolCall =
+  | { tool: 'read_file'; path: string }
+  | { tool: 'list_dir'; path?: string }
+  | { tool: 'grep'; pattern: string; path?: string }
+  | { tool: 'propose_edit'; path: string; search: string; replace: string }
+  | { tool: 'finish'; answer: string };
+
+export type AgentHooks = {
+  /** Asks whether a proposed edit, shown as a colored diff, may be written. */
+  approve: (preview: string, filePath: string) => boolean | Promise<boolean>;
+  /** Receives one line per tool call and its outcome. */
+  log: (message: string) => void;
+  request?: (question: string, config: EnigmaConfig, options: AskOptions) => Promise<PerplexityAnswer>;
+  baseDir?: string;
+};
+
+export type AgentResult = {
+  /** The final answer, or the last reply when the loop ran out of iterations. */
+  answer: PerplexityAnswer;
+  /** Requests made, each of which could call one tool. */
+  iterations: number;
+  finished: boolean;
+  /** Files written after approval. */
+  edited: string[];
+};
+
+const TOOLS = ['read_file', 'list_dir', 'grep', 'propose_edit', 'finish'] as const;
+
+/** Tool calls are requested as JSON in this shape, via `response_format` and the system prompt. */
+export const AGENT_STEP_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    tool: { type: 'string', enum: [...TOOLS] },
+    path: { type: 'string' },
+    pattern: { type: 'string' },
+    search: { type: 'string' },
+    replace: { type: 'string' },
+    answer: { type: 'string' },
+  },
+  required: ['tool'],
+};
+
+const REQUIRED_ARGUMENTS: Record<(typeof TOOLS)[number], string[]> = {
+  read_file: ['path'],
+  list_dir: [],
+  grep: ['pattern'],
+  propose_edit: ['path', 'search', 'replace'],
+  finish: ['answer'],
+};
+
+export const AGENT_SYSTEM_PROMPT = `You are a coding agent working in a local project. You cannot see the files until you use a tool.
+Reply with exactly one JSON object per message, and nothing else, to call one of these tools:
+{"tool": "list_dir", "path": "src"}  - list a directory (path defaults to the project root)
+{"tool": "read_file", "path": "src/index.ts"}  - read a file
+{"tool": "grep", "pattern": "loadConfig(", "path": "src"}  - search files for lines containing the text, matched literally (path is optional)
+{"tool": "propose_edit", "path": "src/index.ts", "search": "exact text from the file", "replace": "new text"}  - change a file; the user approves each edit. An empty search with a new path creates the file.
+{"tool": "finish", "answer": "markdown answer for the user"}  - end the task with a summary of what you found or changed
+Paths are relative to the project root. Each tool result comes back as the next user message.`;
+
+/** Most grep matches returned to the model in one call. */
+const MAX_GREP_MATCHES = 100;
+const MAX_GREP_LINE = 200;
+const MAX_GREP_PATTERN = 200;
+
+const OMITTED_RESULT = '(omitted to save context; call the tool again if you still need it)';
+
+/**
+ * Reads a tool call from a reply: one JSON object (optionally in a ```json fence) naming a known tool
+ * with its arguments. Returns the problem instead when the reply is not a valid call.
+ */
+export const parseToolCall = (content: string): { call?: AgentToolCall; error?: string } => {
+  const parsed = parseJsonAnswer(content);
+  if (parsed.error) return { error: parsed.error };
+  const errors = validateAgainstSchema(parsed.value, AGENT_STEP_SCHEMA);
+  if (errors.length > 0) return { error: errors.join('; ') };
+  const call = parsed.value as Record<string, unknown>;
+  const missing = REQUIRED_ARGUMENTS[call.tool as (typeof TOOLS)[number]].filter((name) => typeof call[name] !== 'string');
+  if (missing.length > 0) return { error: `${call.tool} needs ${missing.map((name) => `"${name}"`).join(' and ')}` };
+  return { call: call as AgentToolCall };
+};
+
+/**
+ * One-line description of a tool call for the log.
+ */
+export const describeToolCall = (call: AgentToolCall): string => {
+  switch (call.tool) {
+    case 'read_file':
+    case 'propose_edit':
+      return `${call.tool} ${call.path}`;
+    case 'list_dir':
+      return `list_dir ${call.path || '.'}`;
+    case 'grep':
+      return `grep ${JSON.stringify(call.pattern)}${call.path ? ` in ${call.path}` : ''}`;
+    case 'finish':
+    default:
+      return call.tool;
+  }
+};
+
+const readFileTool = (baseDir: string, target: string, config: EnigmaConfig): string => {
+  const relative = projectPath(baseDir, target);
+  if (createIgnoreFilter(baseDir)(relative)) throw new Error(`${target} is ignored by .gitignore and cannot be read.`);
+  return readEditableFile(path.join(baseDir, relative), config.attachments.max_file_bytes).content;
+};
+
+const listDirTool = (baseDir: string, target?: string): string => {
+  const relative = projectPath(baseDir, target);
+  const absolute = path.join(baseDir, relative);
+  if (!fs.existsSync(absolute) || !fs.statSync(absolute).isDirectory()) throw new Error(`${target} is not a directory.`);
+  const isIgnored = createIgnoreFilter(baseDir);
+  const entries = fs
+    .readdirSync(absolute, { withFileTypes: true })
+    .filter((entry) => !isIgnored(relative ? `${relative}/${entry.name}` : entry.name, entry.isDirectory()))
+    .map((entry) => (entry.isDirectory() ? `${entry.name}/` : entry.name))
+    .sort();
+  return entries.length > 0 ? entries.join('\n') : '(empty directory)';
+};
+
+// Matches literal text rather than a regular expression, so no pattern from the model can backtrack forever.
+const grepTool = (baseDir: string, pattern: string, target: string | undefined, config: EnigmaConfig): string => {
+  const relative = projectPath(baseDir, target);
+  if (!pattern) throw new Error('The pattern is empty.');
+  if (pattern.length > MAX_GREP_PATTERN) throw new Error(`The pattern is longer than ${MAX_GREP_PATTERN} characters.`);
+  const matches: string[] = [];
+  let total = 0;
+  for (const file of listProjectFiles(baseDir)) {
+    if (relative && file !== relative && !file.startsWith(`${relative}/`)) continue;
+    const absolute = path.join(baseDir, file);
+    if (fs.statSync(absolute).size > config.attachments.max_file_bytes) continue;
+    const buffer = fs.readFileSync(absolute);
+    if (isBinary(buffer)) continue;
+    buffer
+      .toString('utf-8')
+      .split('\n')
+      .forEach((line, index) => {
+        if (!line.includes(pattern)) return;
+        total++;
+        if (matches.length < MAX_GREP_MATCHES) matches.push(`${file}:${index + 1}: ${line.trim().slice(0, MAX_GREP_LINE)}`);
+      });
+  }
+  if (total === 0) return 'No matches.';
+  return total > matches.length ? `${matches.join('\n')}\n... ${total - matches.length} more matches` : matches.join('\n');
+};
+
+const proposeEditTool = async (
+  baseDir: string,
+  call: Extract<AgentToolCall, { tool: 'propose_edit' }>,
+  config: EnigmaConfig,
+  approve: AgentHooks['approve'],
+): Promise<{ result: string; edited?: string }> => {
+  const relative = projectPath(baseDir, call.path);
+  if (createIgnoreFilter(baseDir)(relative)) throw new Error(`${call.path} is ignored by .gitignore and cannot be edited.`);
+  const absolute = path.join(baseDir, relative);
+  const creating = !fs.existsSync(absolute) && call.search === '';
+  const { content, crlf } = creating ? { content: '', crlf: false } : readEditableFile(absolute, config.attachments.max_file_bytes);
+  const { text } = applyEdits(content, [{ search: call.search, replace: call.replace }]);
+  if (text === content) return { result: 'The edit changes nothing.' };
+  if (!(await approve(formatDiffPreview(relative, content, text), relative))) {
+    return { result: 'The user declined this edit. Do not propose it again; continue without it or finish.' };
+  }
+  fs.mkdirSync(path.dirname(absolute), { recursive: true });
+  fs.writeFileSync(absolute, crlf ? text.replace(/\n/g, '\r\n') : text, 'utf-8');
+  return { result: `${creating ? 'Created' : 'Edited'} ${relative}.`, edited: relative };
+};
+
+/**
+ * The history to send with `message`, within the model's context window: results of the oldest tool calls are
+ * replaced with a note first, keeping the task and the calls themselves, and only then are the oldest turns dropped.
+ */
+export const fitAgentHistory = (
+  message: string,
+  history: ChatMessage[],
+  config: EnigmaConfig,
+  model: string,
+  systemPrompt = '',
+): ChatMessage[] => {
+  const fitted = [...history];
+  for (let index = 0; index < fitted.length && !measureContext(message, fitted, config, model, systemPrompt).fits; index++) {
+    const { role, content } = fitted[index];
+    if (role !== 'user' || !content.startsWith('Result of ')) continue;
+    fitted[index] = { role, content: `${content.split('\n')[0]}\n${OMITTED_RESULT}` };
+  }
+  return trimHistory(message, fitted, config, model, systemPrompt);
+};
+
+/**
+ * Runs a task as a tool-use loop: each reply calls one tool, whose result is sent back, until the model
+ * finishes or agent.max_iterations requests have been made. Tools only see files inside the project that
+ * are not .gitignored, and edits are written only when `approve` allows them.
+ */
+export const runAgent = async (task: string, config: EnigmaConfig, options: AskOptions, hooks: AgentHooks): Promise<AgentResult> => {
+  const { approve, log, request = requestAnswer, baseDir = process.cwd() } = hooks;
+  const maxIterations = Math.max(1, config.agent.max_iterations);
+  const systemPrompt = options.systemPrompt ? `${AGENT_SYSTEM_PROMPT}\n\n${options.systemPrompt}` : AGENT_SYSTEM_PROMPT;
+  const history: ChatMessage[] = [...(options.history ?? [])];
+  const edited: string[] = [];
+  let message = `Task: ${task}`;
+  let answer: PerplexityAnswer | undefined;
+
+  for (let iteration = 1; iteration <= maxIterations; iteration++) {
+    const sent = fitAgentHistory(message, history, config, options.model ?? config.models.default, systemPrompt);
+    answer = await request(message, config, { ...options, systemPrompt, history: sent, responseSchema: AGENT_STEP_SCHEMA });
+    history.push({ role: 'user', content: message }, { role: 'assistant', content: answer.content });
+    const { call, error } = parseToolCall(answer.content);
+    const step = `[${iteration}/${maxIterations}]`;
+    if (!call) {
+      log(`${step} invalid tool call: ${error}`);
+      message = `That was not a valid tool call (${error}). Reply with one JSON object as described.`;
+      continue;
+    }
+    log(`${step} ${describeToolCall(call)}`);
+    if (call.tool === 'finish') {
+      return { answer: { ...answer, content: call.answer }, iterations: iteration, finished: true, edited };
+    }
+    let result: string;
+    try {
+      if (call.tool === 'read_file') {
+        result = readFileTool(baseDir, call.path, config);
+      } else if (call.tool === 'list_dir') {
+        result = listDirTool(baseDir, call.path);
+      } else if (call.tool === 'grep') {
+        result = grepTool(baseDir, call.pattern, call.path, config);
+      } else {
+        const outcome = await proposeEditTool(baseDir, call, config, approve);
+        if (outcome.edited) edited.push(outcome.edited);
+        result = outcome.result;
+      }
+    } catch (toolError) {
+      result = `Error: ${(toolError as Error).message}`;
+    }
+    const summary = call.tool === 'propose_edit' || result.startsWith('Error: ') ? result : `${result.split('\n').length} line(s)`;
+    log(`${' '.repeat(step.length)} -> ${summary}`);
+    message = `Result of ${describeToolCall(call)}:\n${result}`;
+  }
+  return { answer: answer as PerplexityAnswer, iterations: maxIterations, finished: false, edited };
+};
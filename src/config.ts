@@ -2,6 +2,7 @@ import fs from 'fs';
 import path from 'path';
 import YAML from 'yaml';
 import dotenv from 'dotenv';
+import { findModel, modelNames, suggestModelNames } from './models.js';
 
 dotenv.config();
 
@@ -73,16 +74,101 @@ export type AgentConfig = {
   top_p: number;
 };
 
+export type SearchRecency = 'day' | 'week' | 'month' | 'year';
+
 export type ResearchConfig = {
   search_mode: 'low' | 'medium' | 'high';
   include_citations: boolean;
+  /** Limits sources to the past year unless `recency` or a date range says otherwise. */
   focus_on_recent: boolean;
+  /** Request timeout (ms) for `enigma research` jobs, which routinely outlast api.timeout. */
+  job_timeout: number;
+  /** Only use sources from the last day, week, month or year; "any" applies no recency filter. */
+  recency: SearchRecency | 'any';
+  /** Only search these domains, e.g. learn.microsoft.com. */
+  allowed_domains: string[];
+  /** Never use sources from these domains. */
+  blocked_domains: string[];
+  /** Only sources published on or after this date (YYYY-MM-DD); empty for no limit. */
+  after_date: string;
+  /** Only sources published on or before this date (YYYY-MM-DD); empty for no limit. */
+  before_date: string;
 };
 
 export type OutputConfig = {
   format: 'markdown' | 'json' | 'plain';
   stream: boolean;
   verbose: boolean;
+  /** Print reasoning models' <think> sections (dimmed) before the answer. */
+  show_thinking: boolean;
+};
+
+export type ContextConfig = {
+  /** How older turns are shortened once a conversation outgrows the model's context window. */
+  strategy: 'trim' | 'summarize';
+  /** Overrides the model's context window size; 0 uses the built-in window for the model. */
+  max_context_tokens: number;
+  /** Most recent turns always sent verbatim when summarizing. */
+  keep_recent_turns: number;
+};
+
+export type UsageConfig = {
+  /** Record every request's model, tokens, searches and latency in ~/.enigma/usage.jsonl. */
+  track: boolean;
+  /** Estimated USD per calendar day before the budget action applies; 0 for no limit. */
+  daily_budget: number;
+  /** Estimated USD per calendar month before the budget action applies; 0 for no limit. */
+  monthly_budget: number;
+  /** What happens to requests once a budget is spent: print a warning, or refuse to send them. */
+  budget_action: 'warn' | 'block';
+};
+
+export type AttachmentsConfig = {
+  /** Files larger than this many bytes are skipped. */
+  max_file_bytes: number;
+  /** Attached files stop being added once their contents reach this many bytes. */
+  max_total_bytes: number;
+  /** Attach files mentioned as @path in questions. */
+  mentions: boolean;
+  /** Largest input accepted on stdin, in bytes. */
+  max_stdin_bytes: number;
+};
+
+export type WorkspaceConfig = {
+  /** Estimated tokens the file tree and relevant files may take up in a --with-repo prompt. */
+  budget_tokens: number;
+  /** Files listed in the tree before the rest are summarized as a count. */
+  max_tree_entries: number;
+};
+
+export type PersonaConfig = {
+  /** System message sent ahead of every question asked with this persona. */
+  system_prompt: string;
+  model?: string;
+  temperature?: number;
+};
+
+export type TemplateConfig = {
+  description?: string;
+  /** Prompt text with {{variable}} placeholders. */
+  prompt: string;
+  /** Values used for placeholders not given with --var. */
+  defaults?: Record<string, string>;
+  model?: string;
+  search_mode?: ResearchConfig['search_mode'];
+  format?: OutputConfig['format'];
+  persona?: string;
+};
+
+export type ModelDefinition = {
+  description?: string;
+  context_window?: number;
+  streaming?: boolean;
+  reasoning?: boolean;
+  /** USD per million tokens. */
+  pricing?: { input?: number; output?: number };
+  deprecated?: boolean;
+  replacement?: string;
 };
 
 export type EnigmaConfig = {
@@ -91,6 +177,14 @@ export type EnigmaConfig = {
   agent: AgentConfig;
   research: ResearchConfig;
   output: OutputConfig;
+  context: ContextConfig;
+  usage: UsageConfig;
+  attachments: AttachmentsConfig;
+  workspace: WorkspaceConfig;
+  personas: Record<string, PersonaConfig>;
+  templates: Record<string, TemplateConfig>;
+  /** Models beyond the built-in registry, or overrides of built-in metadata. */
+  custom_models: Record<string, ModelDefinition>;
 };
 
 export const defaultConfig: EnigmaConfig = {
@@ -115,38 +209,67 @@ export const defaultConfig: EnigmaConfig = {
   research: {
     search_mode: 'medium',
     include_citations: true,
-    focus_on_recent: true,
+    focus_on_recent: false,
+    job_timeout: 600000,
+    recency: 'any',
+    allowed_domains: [],
+    blocked_domains: [],
+    after_date: '',
+    before_date: '',
   },
   output: {
     format: 'markdown',
     stream: false,
     verbose: false,
+    show_thinking: false,
+  },
+  context: {
+    strategy: 'trim',
+    max_context_tokens: 0,
+    keep_recent_turns: 4,
   },
+  usage: {
+    track: true,
+    daily_budget: 0,
+    monthly_budget: 0,
+    budget_action: 'warn',
+  },
+  attachments: {
+    max_file_bytes: 100000,
+    max_total_bytes: 400000,
+    mentions: true,
+    max_stdin_bytes: 200000,
+  },
+  workspace: {
+    budget_tokens: 12000,
+    max_tree_entries: 400,
+  },
+  personas: {},
+  templates: {},
+  custom_models: {},
 };
 
-export const AVAILABLE_MODELS = [
-  'sonar',
-  'sonar-pro',
-  'sonar-reasoning',
-  'sonar-reasoning-pro',
-  'sonar-reasoning-large',
-  'sonar-deep-research',
-  'sonar-large',
-];
-
 const CONFIG_FILE = '.pplxrc';
 type EnvKey =
   | keyof ApiConfig
   | keyof ModelConfig
   | keyof AgentConfig
   | keyof ResearchConfig
-  | keyof OutputConfig;
+  | keyof OutputConfig
+  | keyof ContextConfig
+  | keyof UsageConfig
+  | keyof AttachmentsConfig
+  | keyof WorkspaceConfig;
 type PartialConfig = {
   api?: Partial<ApiConfig>;
   models?: Partial<ModelConfig>;
   agent?: Partial<AgentConfig>;
   research?: Partial<ResearchConfig>;
   output?: Partial<OutputConfig>;
+  context?: Partial<ContextConfig>;
+  usage?: Partial<UsageConfig>;
+  attachments?: Partial<AttachmentsConfig>;
+  workspace?: Partial<WorkspaceConfig>;
 };
 
 const envMap: Record<EnvKey, string> = {
@@ -165,9 +288,29 @@ const envMap: Record<EnvKey, string> = {
   search_mode: 'PPLX_SEARCH_MODE',
   include_citations: 'PPLX_INCLUDE_CITATIONS',
   focus_on_recent: 'PPLX_FOCUS_ON_RECENT',
+  job_timeout: 'PPLX_RESEARCH_JOB_TIMEOUT',
+  recency: 'PPLX_SEARCH_RECENCY',
+  allowed_domains: 'PPLX_ALLOWED_DOMAINS',
+  blocked_domains: 'PPLX_BLOCKED_DOMAINS',
+  after_date: 'PPLX_SEARCH_AFTER_DATE',
+  before_date: 'PPLX_SEARCH_BEFORE_DATE',
   format: 'PPLX_OUTPUT_FORMAT',
   stream: 'PPLX_OUTPUT_STREAM',
   verbose: 'PPLX_VERBOSE',
+  show_thinking: 'PPLX_SHOW_THINKING',
+  strategy: 'PPLX_CONTEXT_STRATEGY',
+  max_context_tokens: 'PPLX_CONTEXT_MAX_TOKENS',
+  keep_recent_turns: 'PPLX_CONTEXT_KEEP_RECENT_TURNS',
+  track: 'PPLX_USAGE_TRACK',
+  daily_budget: 'PPLX_DAILY_BUDGET',
+  monthly_budget: 'PPLX_MONTHLY_BUDGET',
+  budget_action: 'PPLX_BUDGET_ACTION',
+  max_file_bytes: 'PPLX_ATTACH_MAX_FILE_BYTES',
+  max_total_bytes: 'PPLX_ATTACH_MAX_TOTAL_BYTES',
+  mentions: 'PPLX_FILE_MENTIONS',
+  max_stdin_bytes: 'PPLX_MAX_STDIN_BYTES',
+  budget_tokens: 'PPLX_WORKSPACE_BUDGET_TOKENS',
+  max_tree_entries: 'PPLX_WORKSPACE_TREE_ENTRIES',
 };
 
 export const parseBoolean = (value: string | undefined): boolean | undefined => {
@@ -193,6 +336,56 @@ export const parseOutputFormat = (value: string | undefined): OutputConfig['form
   return undefined;
 };
 
+export const parseRecency = (value: string | undefined): ResearchConfig['recency'] | undefined => {
+  if (!value) return undefined;
+  if (value === 'day' || value === 'week' || value === 'month' || value === 'year' || value === 'any') return value;
+  return undefined;
+};
+
+/**
+ * Reduces a domain or URL to its host name, e.g. "https://learn.microsoft.com/en-us/" to "learn.microsoft.com".
+ */
+export const normalizeDomain = (value: string): string =>
+  value
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z][a-z0-9+.-]*:\/\//, '')
+    .replace(/[/?#].*$/, '')
+    .replace(/^www\./, '');
+
+/**
+ * Parses a comma- or space-separated list of domains.
+ */
+export const parseDomainList = (value: string | undefined): string[] | undefined => {
+  if (value === undefined) return undefined;
+  return value.split(/[\s,]+/).map(normalizeDomain).filter(Boolean);
+};
+
+/**
+ * Accepts a calendar date as YYYY-MM-DD; an empty string means no date.
+ */
+export const parseSearchDate = (value: string | undefined): string | undefined => {
+  if (value === undefined) return undefined;
+  const trimmed = value.trim();
+  if (!trimmed) return '';
+  const match = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return undefined;
+  const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  return date.toISOString().slice(0, 10) === trimmed ? trimmed : undefined;
+};
+
+export const parseContextStrategy = (value: string | undefined): ContextConfig['strategy'] | undefined => {
+  if (!value) return undefined;
+  if (value === 'trim' || value === 'summarize') return value;
+  return undefined;
+};
+
+export const parseBudgetAction = (value: string | undefined): UsageConfig['budget_action'] | undefined => {
+  if (!value) return undefined;
+  if (value === 'warn' || value === 'block') return value;
+  return undefined;
+};
+
 export const deepMerge = <T>(base: T, override: Partial<T>): T => {
   if (typeof override !== 'object' || override === null) return base;
   const result: any = Array.isArray(base) ? [...(base as any)] : { ...(base as any) };
@@ -224,7 +417,7 @@ const loadFileConfig = (baseDir: string): Partial<EnigmaConfig> => {
 };
 
 const applyEnvOverrides = (config: EnigmaConfig): EnigmaConfig => {
-  const envOverrides: PartialConfig = { api: {}, models: {}, agent: {}, research: {}, output: {} };
+  const envOverrides: PartialConfig = { api: {}, models: {}, agent: {}, research: {}, output: {}, context: {}, usage: {}, attachments: {}, workspace: {} };
 
   for (const [key, envKey] of Object.entries(envMap)) {
     const value = process.env[envKey as string];
@@ -268,6 +461,24 @@ const applyEnvOverrides = (config: EnigmaConfig): EnigmaConfig => {
       case 'focus_on_recent':
         (envOverrides.research as ResearchConfig).focus_on_recent = parseBoolean(value) ?? config.research.focus_on_recent;
         break;
+      case 'job_timeout':
+        (envOverrides.research as ResearchConfig).job_timeout = parseNumber(value) ?? config.research.job_timeout;
+        break;
+      case 'recency':
+        (envOverrides.research as ResearchConfig).recency = parseRecency(value) ?? config.research.recency;
+        break;
+      case 'allowed_domains':
+        (envOverrides.research as ResearchConfig).allowed_domains = parseDomainList(value) ?? config.research.allowed_domains;
+        break;
+      case 'blocked_domains':
+        (envOverrides.research as ResearchConfig).blocked_domains = parseDomainList(value) ?? config.research.blocked_domains;
+        break;
+      case 'after_date':
+        (envOverrides.research as ResearchConfig).after_date = parseSearchDate(value) ?? config.research.after_date;
+        break;
+      case 'before_date':
+        (envOverrides.research as ResearchConfig).before_date = parseSearchDate(value) ?? config.research.before_date;
+        break;
       case 'format':
         (envOverrides.output as OutputConfig).format = parseOutputFormat(value) ?? config.output.format;
         break;
@@ -277,6 +488,48 @@ const applyEnvOverrides = (config: EnigmaConfig): EnigmaConfig => {
       case 'verbose':
         (envOverrides.output as OutputConfig).verbose = parseBoolean(value) ?? config.output.verbose;
         break;
+      case 'show_thinking':
+        (envOverrides.output as OutputConfig).show_thinking = parseBoolean(value) ?? config.output.show_thinking;
+        break;
+      case 'strategy':
+        (envOverrides.context as ContextConfig).strategy = parseContextStrategy(value) ?? config.context.strategy;
+        break;
+      case 'max_context_tokens':
+        (envOverrides.context as ContextConfig).max_context_tokens = parseNumber(value) ?? config.context.max_context_tokens;
+        break;
+      case 'keep_recent_turns':
+        (envOverrides.context as ContextConfig).keep_recent_turns = parseNumber(value) ?? config.context.keep_recent_turns;
+        break;
+      case 'track':
+        (envOverrides.usage as UsageConfig).track = parseBoolean(value) ?? config.usage.track;
+        break;
+      case 'daily_budget':
+        (envOverrides.usage as UsageConfig).daily_budget = parseNumber(value) ?? config.usage.daily_budget;
+        break;
+      case 'monthly_budget':
+        (envOverrides.usage as UsageConfig).monthly_budget = parseNumber(value) ?? config.usage.monthly_budget;
+        break;
+      case 'budget_action':
+        (envOverrides.usage as UsageConfig).budget_action = parseBudgetAction(value) ?? config.usage.budget_action;
+        break;
+      case 'max_file_bytes':
+        (envOverrides.attachments as AttachmentsConfig).max_file_bytes = parseNumber(value) ?? config.attachments.max_file_bytes;
+        break;
+      case 'max_total_bytes':
+        (envOverrides.attachments as AttachmentsConfig).max_total_bytes = parseNumber(value) ?? config.attachments.max_total_bytes;
+        break;
+      case 'mentions':
+        (envOverrides.attachments as AttachmentsConfig).mentions = parseBoolean(value) ?? config.attachments.mentions;
+        break;
+      case 'max_stdin_bytes':
+        (envOverrides.attachments as AttachmentsConfig).max_stdin_bytes = parseNumber(value) ?? config.attachments.max_stdin_bytes;
+        break;
+      case 'budget_tokens':
+        (envOverrides.workspace as WorkspaceConfig).budget_tokens = parseNumber(value) ?? config.workspace.budget_tokens;
+        break;
+      case 'max_tree_entries':
+        (envOverrides.workspace as WorkspaceConfig).max_tree_entries = parseNumber(value) ?? config.workspace.max_tree_entries;
+        break;
       default:
         break;
     }
@@ -286,11 +539,21 @@ const applyEnvOverrides = (config: EnigmaConfig): EnigmaConfig => {
 };
 
 export const loadConfig = (baseDir = process.cwd()): EnigmaConfig => {
-  const fileConfig = loadFileConfig(baseDir);
-  const merged = deepMerge(defaultConfig, fileConfig);
+  const merged = deepMerge(defaultConfig, loadFileConfig(baseDir));
   return applyEnvOverrides(merged);
 };
 
+/**
+ * Where the resolved config came from: the .pplxrc file that was read (if any) and the env vars that override it.
+ */
+export const configSources = (baseDir = process.cwd()): { file?: string; env: string[] } => {
+  const filePath = path.join(baseDir, CONFIG_FILE);
+  return {
+    ...(fs.existsSync(filePath) ? { file: filePath } : {}),
+    env: Object.values(envMap).filter((envKey) => process.env[envKey] !== undefined),
+  };
+};
+
 export const resolveApiKey = (config: EnigmaConfig): string | undefined => {
   return process.env.PPLX_API_KEY ?? config.api.key;
 };
@@ -300,13 +563,48 @@ export const saveConfig = (config: EnigmaConfig, targetPath = path.join(process.
   writeSecureFile(targetPath, yaml);
 };
 
+// Model names already warned about; an interactive session resolves its model again on every turn.
+const warnedModels = new Set<string>();
+
+const warnOnce = (model: string, message: string) => {
+  if (warnedModels.has(model)) return;
+  warnedModels.add(model);
+  console.error(message);
+};
+
+/**
+ * Checks a model name against the registry (built-in plus `custom_models:`). Call it where a command resolves
+ * its model; requests send the model as given.
+ * Unknown names fall back to the default with "did you mean" suggestions; deprecated models are kept with a warning.
+ */
 export const validateModelName = (model: string | undefined, config: EnigmaConfig): { model: string; warned: boolean } => {
   if (!model) return { model: config.models.default, warned: false };
-  if (AVAILABLE_MODELS.includes(model)) return { model, warned: false };
-  console.error(
-    `Invalid model "${model}". Available models: ${AVAILABLE_MODELS.join(
-      ', ',
-    )}. Using default: ${config.models.default}`,
-  );
+  const known = findModel(model, config);
+  if (known) {
+    if (!known.deprecated) return { model, warned: false };
+    warnOnce(model, `Model "${model}" is deprecated${known.replacement ? `; consider "${known.replacement}" instead` : ''}.`);
+    return { model, warned: true };
+  }
+  const suggestions = suggestModelNames(model, config);
+  const hint =
+    suggestions.length > 0
+      ? `Did you mean ${suggestions.map((name) => `"${name}"`).join(' or ')}? Run "enigma models" to list all models.`
+      : `Available models: ${modelNames(config).join(', ')}.`;
+  warnOnce(model, `Unknown model "${model}". ${hint} Using default: ${config.models.default}`);
   return { model: config.models.default, warned: true };
 };
+
+/**
+ * Looks up a persona defined under `personas:` in .pplxrc.
+ * Throws with the list of defined personas when the name is unknown.
+ */
+export const resolvePersona = (name: string, config: EnigmaConfig): PersonaConfig => {
+  const personas = config.personas ?? {};
+  const persona = personas[name];
+  if (!persona || typeof persona.system_prompt !== 'string') {
+    const names = Object.keys(personas);
+    const hint = names.length > 0 ? `Available personas: ${names.join(', ')}` : 'Define personas under "personas:" in .pplxrc.';
+    throw new Error(`Unknown persona "${name}". ${hint}`);
+  }
+  return persona;
+};
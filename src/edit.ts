@@ -0,0 +1,255 @@
+import fs from 'fs';
+import chalk from 'chalk';
+import DiffMatchPatch from 'diff-match-patch';
+import { formatAttachments, formatBytes, isBinary } from './files.js';
+import { extractCodeBlocks } from './output.js';
+import { splitThinking } from './thinking.js';
+
+/**
+ * One change proposed by the model: text to find in the file and what replaces it.
+ * An empty `search` appends `replace` to the end of the file.
+ */
+export type Replacement = {
+  search: string;
+  replace: string;
+};
+
+export type EditResult = {
+  /** The file contents with every replacement applied. */
+  text: string;
+  /** Replacements whose search text was found only approximately. */
+  fuzzy: number;
+};
+
+/** Largest share of a search block that may differ from the file for it to still match. */
+const FUZZY_THRESHOLD = 0.3;
+
+/**
+ * Reads a file for editing with its line endings normalized to \n. Refuses directories, binaries
+ * and files over `maxBytes`.
+ */
+export const readEditableFile = (filePath: string, maxBytes: number): { content: string; crlf: boolean } => {
+  if (!fs.existsSync(filePath)) throw new Error(`File not found: ${filePath}`);
+  if (!fs.statSync(filePath).isFile()) throw new Error(`${filePath} is not a file.`);
+  const buffer = fs.readFileSync(filePath);
+  if (buffer.length > maxBytes) {
+    throw new Error(`${filePath} is larger than ${formatBytes(maxBytes)} (attachments.max_file_bytes), too big to edit in one request.`);
+  }
+  if (isBinary(buffer)) throw new Error(`${filePath} looks like a binary file and cannot be edited.`);
+  const content = buffer.toString('utf-8');
+  return { content: content.replace(/\r\n/g, '\n'), crlf: content.includes('\r\n') };
+};
+
+/**
+ * The question sent for `enigma edit`: the instruction, the file, and the reply format we can apply.
+ */
+export const buildEditPrompt = (filePath: string, content: string, instruction: string): string =>
+  [
+    `Edit the file ${filePath} as instructed.`,
+    '',
+    `Instruction: ${instruction}`,
+    '',
+    formatAttachments([{ path: filePath, content, bytes: Buffer.byteLength(content) }]),
+    '',
+    'Reply with only the changes, as one or more SEARCH/REPLACE blocks:',
+    '',
+    '<<<<<<< SEARCH',
+    'lines copied exactly from the file, including a couple of unchanged lines around the change',
+    '=======',
+    'the lines that replace them',
+    '>>>>>>> REPLACE',
+    '',
+    'Keep each block small and unique within the file, and do not repeat unchanged parts of the file.',
+  ].join('\n');
+
+const SEARCH_BLOCK = /^<{5,9} ?SEARCH[^\n]*\n([\s\S]*?)^={5,9}[ \t]*\n([\s\S]*?)^>{5,9} ?REPLACE[^\n]*$/gm;
+
+/**
+ * Reads SEARCH/REPLACE blocks from an answer.
+ */
+export const parseReplacementBlocks = (answer: string): Replacement[] =>
+  [...answer.matchAll(SEARCH_BLOCK)].map((match) => ({
+    search: match[1].replace(/\n$/, ''),
+    replace: match[2].replace(/\n$/, ''),
+  }));
+
+// Line counts from a hunk header such as "@@ -3,7 +3,8 @@"; undefined when the model left them out.
+const hunkCounts = (header: string): { removed: number; added: number } | undefined => {
+  const match = header.match(/^@@ -\d+(?:,(\d+))? \+\d+(?:,(\d+))? @@/);
+  return match ? { removed: Number(match[1] ?? 1), added: Number(match[2] ?? 1) } : undefined;
+};
+
+// A file header: "diff --git ..." or a "--- " line directly followed by "+++ ".
+const isFileHeader = (lines: string[], index: number): boolean =>
+  lines[index].startsWith('diff ') || (lines[index].startsWith('--- ') && (lines[index + 1] ?? '').startsWith('+++ '));
+
+/**
+ * Reads the hunks of a unified diff as replacements: context and removed lines are searched for,
+ * context and added lines replace them. File headers and "\ No newline" markers are skipped. While the counts
+ * in a hunk's header say lines are still to come, lines such as "--- x" are content (a removed "-- x"), not headers.
+ */
+export const parseUnifiedDiff = (answer: string): Replacement[] => {
+  const replacements: Replacement[] = [];
+  let hunk: { search: string[]; replace: string[] } | undefined;
+  let remaining: { removed: number; added: number } | undefined;
+  const finish = () => {
+    if (hunk && (hunk.search.length > 0 || hunk.replace.length > 0)) {
+      replacements.push({ search: hunk.search.join('\n'), replace: hunk.replace.join('\n') });
+    }
+    hunk = undefined;
+  };
+  const lines = answer.split('\n');
+  lines.forEach((line, index) => {
+    if (line.startsWith('@@')) {
+      finish();
+      hunk = { search: [], replace: [] };
+      remaining = hunkCounts(line);
+      return;
+    }
+    if (!hunk || line.startsWith('\\')) return;
+    const counted = remaining !== undefined && (remaining.removed > 0 || remaining.added > 0);
+    if (line.startsWith('```') || (!counted && isFileHeader(lines, index))) {
+      finish();
+    } else if (line.startsWith('-')) {
+      hunk.search.push(line.slice(1));
+      if (remaining) remaining.removed--;
+    } else if (line.startsWith('+')) {
+      hunk.replace.push(line.slice(1));
+      if (remaining) remaining.added--;
+    } else {
+      // Context lines; models often drop the leading space on blank ones
+      const context = line.startsWith(' ') ? line.slice(1) : line;
+      hunk.search.push(context);
+      hunk.replace.push(context);
+      if (remaining) {
+        remaining.removed--;
+        remaining.added--;
+      }
+    }
+  });
+  finish();
+  // Trailing blank context from the end of a fence or answer is not part of the hunk
+  return replacements.map(({ search, replace }) => ({ search: search.replace(/\n+$/, ''), replace: replace.replace(/\n+$/, '') }));
+};
+
+/**
+ * The changes in an answer, as SEARCH/REPLACE blocks or, failing that, a unified diff (read from
+ * ```diff fences when there are any). Reasoning models' <think> sections are ignored.
+ */
+export const parseEdits = (content: string): Replacement[] => {
+  const { answer } = splitThinking(content);
+  const blocks = parseReplacementBlocks(answer);
+  if (blocks.length > 0) return blocks;
+  const fenced = extractCodeBlocks(answer).filter((block) => block.language === 'diff' || block.language === 'patch');
+  return parseUnifiedDiff(fenced.length > 0 ? fenced.map((block) => block.code).join('\n') : answer);
+};
+
+const createMatcher = (text: string): DiffMatchPatch => {
+  const dmp = new DiffMatchPatch();
+  // Where a block sits in the file does not matter, only how closely it matches
+  dmp.Match_Distance = Math.max(1000, text.length);
+  dmp.Match_Threshold = 0.5;
+  dmp.Patch_DeleteThreshold = 0.5;
+  return dmp;
+};
+
+// Start and end of the part of `text` that best matches `search`, or undefined when nothing is close enough.
+const locate = (dmp: DiffMatchPatch, text: string, search: string): { start: number; end: number; fuzzy: boolean } | undefined => {
+  const exact = text.indexOf(search);
+  if (exact !== -1) return { start: exact, end: exact + search.length, fuzzy: false };
+  const head = search.slice(0, dmp.Match_MaxBits);
+  const tail = search.slice(-dmp.Match_MaxBits);
+  const start = dmp.match_main(text, head, 0);
+  if (start === -1) return undefined;
+  const end = dmp.match_main(text, tail, Math.max(start, start + search.length - tail.length));
+  if (end === -1 || end < start) return undefined;
+  const region = text.slice(start, end + tail.length);
+  const distance = dmp.diff_levenshtein(dmp.diff_main(region, search));
+  return distance / search.length <= FUZZY_THRESHOLD ? { start, end: end + tail.length, fuzzy: true } : undefined;
+};
+
+const describeReplacement = (replacement: Replacement): string => {
+  const firstLine = replacement.search.split('\n').find((line) => line.trim()) ?? '';
+  return firstLine.trim().length > 60 ? `${firstLine.trim().slice(0, 57)}...` : firstLine.trim();
+};
+
+/**
+ * Applies replacements in order. A search block that is not in the file verbatim is located approximately
+ * and patched with diff-match-patch, so small drifts in whitespace or wording still apply.
+ * Throws, without applying anything, when a block cannot be found.
+ */
+export const applyEdits = (text: string, replacements: Replacement[]): EditResult => {
+  let result = text;
+  let fuzzy = 0;
+  const failed: string[] = [];
+  for (const replacement of replacements) {
+    if (!replacement.search) {
+      result = `${result}${result && !result.endsWith('\n') ? '\n' : ''}${replacement.replace}\n`;
+      continue;
+    }
+    const dmp = createMatcher(result);
+    const found = locate(dmp, result, replacement.search);
+    if (!found) {
+      failed.push(describeReplacement(replacement));
+      continue;
+    }
+    let patched = replacement.replace;
+    if (found.fuzzy) {
+      // Carry the model's change over onto the text actually in the file
+      const [applied, hunks] = dmp.patch_apply(dmp.patch_make(replacement.search, replacement.replace), result.slice(found.start, found.end));
+      if (hunks.some((ok) => !ok)) {
+        failed.push(describeReplacement(replacement));
+        continue;
+      }
+      patched = applied;
+      fuzzy++;
+    }
+    result = `${result.slice(0, found.start)}${patched}${result.slice(found.end)}`;
+  }
+  if (failed.length > 0) {
+    throw new Error(
+      `Could not find ${failed.length} of ${replacements.length} change(s) in the file, so nothing was written:\n` +
+        failed.map((line) => `  near "${line}"`).join('\n'),
+    );
+  }
+  return { text: result, fuzzy };
+};
+
+/**
+ * Line-based diff between two versions of a file, as [operation, lines] pairs (-1 removed, 0 kept, 1 added).
+ */
+export const diffLines = (before: string, after: string): [number, string[]][] => {
+  const dmp = new DiffMatchPatch();
+  const { chars1, chars2, lineArray } = dmp.diff_linesToChars_(before, after);
+  const diffs = dmp.diff_main(chars1, chars2, false);
+  dmp.diff_charsToLines_(diffs, lineArray);
+  return diffs.map(([operation, chunk]) => [operation, chunk.replace(/\n$/, '').split('\n')]);
+};
+
+/**
+ * A colored, unified-style preview of the change with `context` unchanged lines around each edit.
+ */
+export const formatDiffPreview = (filePath: string, before: string, after: string, context = 3): string => {
+  const lines: { operation: number; text: string; oldLine: number }[] = [];
+  let oldLine = 1;
+  for (const [operation, chunk] of diffLines(before, after)) {
+    for (const text of chunk) {
+      lines.push({ operation, text, oldLine });
+      if (operation !== 1) oldLine++;
+    }
+  }
+  const changed = lines.map((line, index) => (line.operation !== 0 ? index : -1)).filter((index) => index !== -1);
+  const added = lines.filter((line) => line.operation === 1).length;
+  const removed = lines.filter((line) => line.operation === -1).length;
+  const output = [chalk.bold(`${filePath} (+${added} -${removed})`)];
+  let previous: number | undefined;
+  lines.forEach((line, index) => {
+    if (!changed.some((changedIndex) => Math.abs(changedIndex - index) <= context)) return;
+    if (previous === undefined || index !== previous + 1) output.push(chalk.cyan(`@@ line ${line.oldLine} @@`));
+    previous = index;
+    if (line.operation === -1) output.push(chalk.red(`-${line.text}`));
+    else if (line.operation === 1) output.push(chalk.green(`+${line.text}`));
+    else output.push(chalk.gray(` ${line.text}`));
+  });
+  return output.join('\n');
+};
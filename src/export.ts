@@ -0,0 +1,174 @@
+import path from 'path';
+import { writeSecureFile } from './config.js';
+import { Citation } from './perplexity.js';
+import { ChatSession, describeSessionModel, SessionMessage } from './sessions.js';
+
+export type TranscriptFormat = 'md' | 'json' | 'html';
+
+export const TRANSCRIPT_FORMATS: TranscriptFormat[] = ['md', 'json', 'html'];
+
+export type TranscriptTurn = {
+  question: string;
+  answer?: string;
+  model?: string;
+  askedAt?: string;
+  answeredAt?: string;
+  citations: Citation[];
+};
+
+export const parseTranscriptFormat = (value: string | undefined): TranscriptFormat | undefined => {
+  if (!value) return undefined;
+  const normalized = value.toLowerCase();
+  if (normalized === 'markdown') return 'md';
+  return TRANSCRIPT_FORMATS.includes(normalized as TranscriptFormat) ? (normalized as TranscriptFormat) : undefined;
+};
+
+/**
+ * Pairs each user message with the assistant reply that follows it.
+ * A trailing question without an answer is kept with `answer` left undefined.
+ */
+export const toTranscriptTurns = (messages: SessionMessage[]): TranscriptTurn[] => {
+  const turns: TranscriptTurn[] = [];
+  for (const message of messages) {
+    if (message.role === 'user') {
+      turns.push({ question: message.content, askedAt: message.timestamp, citations: [] });
+      continue;
+    }
+    const current = turns[turns.length - 1];
+    if (message.role === 'assistant' && current && current.answer === undefined) {
+      current.answer = message.content;
+      current.model = message.model;
+      current.answeredAt = message.timestamp;
+      current.citations = message.citations ?? [];
+    }
+  }
+  return turns;
+};
+
+const renderMarkdown = (session: ChatSession, turns: TranscriptTurn[]): string => {
+  const lines = [
+    `# ${session.title}`,
+    '',
+    `- Session: ${session.id}`,
+    `- Model: ${describeSessionModel(session)}`,
+    `- Search mode: ${session.searchMode}`,
+    ...(session.persona ? [`- Persona: ${session.persona}`] : []),
+    `- Created: ${session.createdAt}`,
+    `- Updated: ${session.updatedAt}`,
+  ];
+  turns.forEach((turn, index) => {
+    lines.push('', `## ${index + 1}. ${turn.question.split('\n')[0]}`, '');
+    lines.push(`**Question**${turn.askedAt ? ` (${turn.askedAt})` : ''}`, '', turn.question, '');
+    const meta = [turn.model, turn.answeredAt].filter(Boolean).join(', ');
+    lines.push(`**Answer**${meta ? ` (${meta})` : ''}`, '', turn.answer ?? '_No answer recorded._');
+    if (turn.citations.length > 0) {
+      lines.push('', '**Sources**', '');
+      turn.citations.forEach((citation, i) =>
+        lines.push(`${i + 1}. ${citation.title ? `[${citation.title}](${citation.url})` : citation.url}`),
+      );
+    }
+  });
+  return `${lines.join('\n')}\n`;
+};
+
+const renderJson = (session: ChatSession, turns: TranscriptTurn[]): string =>
+  `${JSON.stringify(
+    {
+      id: session.id,
+      title: session.title,
+      model: session.model,
+      searchMode: session.searchMode,
+      persona: session.persona,
+      createdAt: session.createdAt,
+      updatedAt: session.updatedAt,
+      turns,
+    },
+    null,
+    2,
+  )}\n`;
+
+export const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+// Only http(s) sources become links; javascript: and other schemes from an answer or a stored session stay text.
+const isWebUrl = (url: string): boolean => {
+  try {
+    return ['http:', 'https:'].includes(new URL(url).protocol);
+  } catch {
+    return false;
+  }
+};
+
+const renderHtmlSource = (citation: Citation): string =>
+  isWebUrl(citation.url)
+    ? `<a href="${escapeHtml(citation.url)}">${escapeHtml(citation.title ?? citation.url)}</a>`
+    : escapeHtml(citation.title ? `${citation.title} (${citation.url})` : citation.url);
+
+const renderHtml = (session: ChatSession, turns: TranscriptTurn[]): string => {
+  const body = turns
+    .map((turn, index) => {
+      const sources =
+        turn.citations.length > 0
+          ? `\n    <ol class="sources">\n${turn.citations
+              .map((citation) => `      <li>${renderHtmlSource(citation)}</li>`)
+              .join('\n')}\n    </ol>`
+          : '';
+      const meta = [turn.model, turn.answeredAt].filter(Boolean).join(', ');
+      return `  <section class="turn">
+    <h2>${index + 1}. ${escapeHtml(turn.question.split('\n')[0])}</h2>
+    <p class="meta">Asked ${escapeHtml(turn.askedAt ?? 'unknown')}</p>
+    <pre class="question">${escapeHtml(turn.question)}</pre>
+    <p class="meta">Answered${meta ? ` by ${escapeHtml(meta)}` : ''}</p>
+    <pre class="answer">${escapeHtml(turn.answer ?? 'No answer recorded.')}</pre>${sources}
+  </section>`;
+    })
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(session.title)}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; max-width: 60rem; margin: 2rem auto; padding: 0 1rem; }
+    pre { white-space: pre-wrap; font-family: inherit; }
+    .question { background: #f3f4f6; padding: 0.75rem; border-radius: 4px; }
+    .meta { color: #6b7280; font-size: 0.85rem; }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(session.title)}</h1>
+  <p class="meta">Session ${escapeHtml(session.id)} &middot; ${escapeHtml(describeSessionModel(session))} &middot; search ${escapeHtml(
+    session.searchMode,
+  )} &middot; ${escapeHtml(session.createdAt)} to ${escapeHtml(session.updatedAt)}</p>
+${body}
+</body>
+</html>
+`;
+};
+
+/**
+ * Renders a session transcript with questions, answers, models, timestamps and citations.
+ */
+export const renderTranscript = (session: ChatSession, format: TranscriptFormat): string => {
+  const turns = toTranscriptTurns(session.messages);
+  switch (format) {
+    case 'json':
+      return renderJson(session, turns);
+    case 'html':
+      return renderHtml(session, turns);
+    case 'md':
+    default:
+      return renderMarkdown(session, turns);
+  }
+};
+
+/**
+ * Writes a transcript to disk, defaulting to "<session-id>.<format>" in the current directory.
+ * Returns the path written.
+ */
+export const exportTranscript = (session: ChatSession, format: TranscriptFormat, outputPath?: string): string => {
+  const target = outputPath ?? path.join(process.cwd(), `${session.id}.${format}`);
+  writeSecureFile(target, renderTranscript(session, format));
+  return target;
+};
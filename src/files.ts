@@ -0,0 +1,274 @@
+import fs from 'fs';
+import path from 'path';
+import ignoreModule, { Ignore } from 'ignore';
+import { EnigmaConfig } from './config.js';
+
+export type AttachedFile = {
+  /** Path relative to the working directory, with forward slashes. */
+  path: string;
+  content: string;
+  bytes: number;
+};
+
+export type SkippedFile = {
+  path: string;
+  reason: string;
+};
+
+export type Attachments = {
+  /** The question followed by the attached files, ready to send. */
+  prompt: string;
+  files: AttachedFile[];
+  skipped: SkippedFile[];
+};
+
+// `ignore` is CommonJS; under NodeNext its default import is the module, whose factory is also on `.default`.
+const ignore = ignoreModule.default;
+
+const GLOB_CHARS = /[*?[\]{}]/;
+const ESCAPED_REGEX_CHARS = /[.+^$()|\\]/g;
+/** How much of a file is checked for NUL bytes, as git does, to tell binaries apart. */
+const BINARY_SNIFF_BYTES = 8000;
+
+export const isGlob = (pattern: string): boolean => GLOB_CHARS.test(pattern);
+
+const toPosix = (filePath: string): string => filePath.split(path.sep).join('/');
+
+/**
+ * Expands `{a,b}` alternatives into separate patterns, e.g. "src/*.{ts,js}" into "src/*.ts" and "src/*.js".
+ */
+export const expandBraces = (pattern: string): string[] => {
+  const match = pattern.match(/\{([^{}]*,[^{}]*)\}/);
+  if (!match || match.index === undefined) return [pattern];
+  const before = pattern.slice(0, match.index);
+  const after = pattern.slice(match.index + match[0].length);
+  return match[1].split(',').flatMap((option) => expandBraces(`${before}${option}${after}`));
+};
+
+/**
+ * Converts a glob (without braces) to a regular expression over forward-slash paths.
+ * `**` spans directories, `*` and `?` stay within one path segment, and `[...]`/`[!...]` are character classes.
+ */
+export const globToRegExp = (pattern: string): RegExp => {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      const slash = pattern[i + 2] === '/';
+      source += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[' && pattern.indexOf(']', i + 1) > i + 1) {
+      const end = pattern.indexOf(']', i + 1);
+      const body = pattern.slice(i + 1, end).replace(/\\/g, '\\\\');
+      source += `[${body.startsWith('!') ? `^${body.slice(1)}` : body}]`;
+      i = end;
+    } else {
+      source += char.replace(ESCAPED_REGEX_CHARS, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+};
+
+// Leading path segments without wildcards: the directory a glob can be searched from.
+const globBase = (pattern: string): string => {
+  const segments = pattern.split('/');
+  const firstGlob = segments.findIndex(isGlob);
+  return segments.slice(0, firstGlob).join('/');
+};
+
+/**
+ * Returns a check for whether a path (relative to `baseDir`, forward slashes) is excluded by the
+ * .gitignore files in its directory or any directory above it. `.git` is always excluded.
+ */
+export const createIgnoreFilter = (baseDir: string): ((relativePath: string, isDirectory?: boolean) => boolean) => {
+  const cache = new Map<string, Ignore | null>();
+  const rulesFor = (directory: string): Ignore | null => {
+    if (!cache.has(directory)) {
+      const file = path.join(baseDir, directory, '.gitignore');
+      cache.set(directory, fs.existsSync(file) ? ignore().add(fs.readFileSync(file, 'utf-8')) : null);
+    }
+    return cache.get(directory) ?? null;
+  };
+  return (relativePath, isDirectory = false) => {
+    if (!relativePath || relativePath.startsWith('../') || path.isAbsolute(relativePath)) return false;
+    const segments = relativePath.split('/');
+    if (segments.includes('.git')) return true;
+    for (let depth = 0; depth < segments.length; depth++) {
+      const rules = rulesFor(segments.slice(0, depth).join('/'));
+      const rest = segments.slice(depth).join('/');
+      if (rules?.ignores(isDirectory ? `${rest}/` : rest)) return true;
+    }
+    return false;
+  };
+};
+
+// Files under a directory, skipping ignored entries and symlinks so walks stay inside the project.
+const walkFiles = (baseDir: string, directory: string, isIgnored: (relativePath: string, isDirectory?: boolean) => boolean): string[] => {
+  const absolute = path.join(baseDir, directory);
+  if (!fs.existsSync(absolute) || !fs.statSync(absolute).isDirectory()) return [];
+  return fs
+    .readdirSync(absolute, { withFileTypes: true })
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .flatMap((entry) => {
+      const relativePath = directory ? `${directory}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        return isIgnored(relativePath, true) ? [] : walkFiles(baseDir, relativePath, isIgnored);
+      }
+      return entry.isFile() && !isIgnored(relativePath) ? [relativePath] : [];
+    });
+};
+
+const isOutside = (relative: string): boolean => relative.startsWith('..') || path.isAbsolute(relative);
+
+// Where a path really is once symlinks are followed. Parts that do not exist yet (a file being created) are kept
+// as they are; a symlink pointing nowhere is refused, since writing through it would create its target.
+const realLocation = (absolute: string): string => {
+  try {
+    return fs.realpathSync(absolute);
+  } catch {
+    if (fs.lstatSync(absolute, { throwIfNoEntry: false })) throw new Error(`${absolute} is a broken symlink.`);
+    const parent = path.dirname(absolute);
+    return parent === absolute ? absolute : path.join(realLocation(parent), path.basename(absolute));
+  }
+};
+
+/**
+ * Path of `target` relative to `baseDir`, with forward slashes. Throws when it lies outside `baseDir`,
+ * even if only through a symlink.
+ */
+export const projectPath = (baseDir: string, target = '.'): string => {
+  const relative = path.relative(baseDir, path.resolve(baseDir, target));
+  if (isOutside(relative) || isOutside(path.relative(realLocation(baseDir), realLocation(path.join(baseDir, relative))))) {
+    throw new Error(`${target} is outside the project.`);
+  }
+  return toPosix(relative);
+};
+
+const isInsideProject = (baseDir: string, target: string): boolean => {
+  try {
+    projectPath(baseDir, target);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Every file in the project that is not .gitignored, in path order.
+ */
+export const listProjectFiles = (baseDir = process.cwd()): string[] => walkFiles(baseDir, '', createIgnoreFilter(baseDir));
+
+/**
+ * Whether file contents look binary: a NUL byte near the start.
+ */
+export const isBinary = (buffer: Buffer): boolean => buffer.subarray(0, BINARY_SNIFF_BYTES).includes(0);
+
+/**
+ * Resolves file arguments to project files. Globs are matched against files under their base directory
+ * and a directory stands for everything in it; .gitignored files are left out either way.
+ */
+export const resolveFilePatterns = (patterns: string[], baseDir = process.cwd()): { paths: string[]; skipped: SkippedFile[] } => {
+  const isIgnored = createIgnoreFilter(baseDir);
+  const paths: string[] = [];
+  const skipped: SkippedFile[] = [];
+  for (const pattern of patterns) {
+    const normalized = toPosix(pattern).replace(/^\.\//, '');
+    if (!isGlob(normalized)) {
+      const absolute = path.resolve(baseDir, normalized);
+      const relativePath = toPosix(path.relative(baseDir, absolute));
+      if (!fs.existsSync(absolute)) {
+        skipped.push({ path: pattern, reason: 'not found' });
+      } else if (fs.statSync(absolute).isDirectory()) {
+        const files = walkFiles(baseDir, relativePath, isIgnored);
+        if (files.length === 0) skipped.push({ path: pattern, reason: 'no files in directory' });
+        paths.push(...files);
+      } else if (isIgnored(relativePath)) {
+        skipped.push({ path: pattern, reason: 'ignored by .gitignore' });
+      } else {
+        paths.push(relativePath.startsWith('../') || path.isAbsolute(relativePath) ? absolute : relativePath);
+      }
+      continue;
+    }
+    const matches = expandBraces(normalized).flatMap((expanded) => {
+      const matcher = globToRegExp(expanded);
+      return walkFiles(baseDir, globBase(expanded), isIgnored).filter((file) => matcher.test(file));
+    });
+    if (matches.length === 0) skipped.push({ path: pattern, reason: 'no files match' });
+    paths.push(...matches);
+  }
+  return { paths: [...new Set(paths)], skipped };
+};
+
+/**
+ * Finds `@path` mentions in a question that name an existing file, directory or a glob inside the project,
+ * so "@src/index.ts" attaches a file while "@channel", email addresses and "@/etc/passwd" do not.
+ */
+export const findMentions = (question: string, baseDir = process.cwd()): string[] => {
+  const mentions: string[] = [];
+  for (const match of question.matchAll(/(?:^|\s)@([\w./*?[\]{},-]+)/g)) {
+    const candidate = match[1].replace(/[.,:;!?)\]]+$/, '');
+    if (!candidate) continue;
+    const glob = isGlob(candidate);
+    if (!glob && !fs.existsSync(path.resolve(baseDir, candidate))) continue;
+    const roots = glob ? expandBraces(candidate).map(globBase) : [candidate];
+    if (roots.every((root) => isInsideProject(baseDir, root))) mentions.push(candidate);
+  }
+  return [...new Set(mentions)];
+};
+
+export const formatBytes = (bytes: number): string => (bytes >= 1024 ? `${Math.round(bytes / 1024)} KB` : `${bytes} bytes`);
+
+/**
+ * Reads the files for `patterns`, skipping binaries, files over attachments.max_file_bytes and
+ * anything past attachments.max_total_bytes.
+ */
+export const readAttachments = (
+  patterns: string[],
+  config: EnigmaConfig,
+  baseDir = process.cwd(),
+): { files: AttachedFile[]; skipped: SkippedFile[] } => {
+  const { paths, skipped } = resolveFilePatterns(patterns, baseDir);
+  const files: AttachedFile[] = [];
+  let total = 0;
+  for (const filePath of paths) {
+    const buffer = fs.readFileSync(path.resolve(baseDir, filePath));
+    if (buffer.length > config.attachments.max_file_bytes) {
+      skipped.push({ path: filePath, reason: `larger than ${formatBytes(config.attachments.max_file_bytes)} (attachments.max_file_bytes)` });
+    } else if (isBinary(buffer)) {
+      skipped.push({ path: filePath, reason: 'binary file' });
+    } else if (total + buffer.length > config.attachments.max_total_bytes) {
+      skipped.push({ path: filePath, reason: `would exceed ${formatBytes(config.attachments.max_total_bytes)} in total (attachments.max_total_bytes)` });
+    } else {
+      total += buffer.length;
+      files.push({ path: filePath, content: buffer.toString('utf-8'), bytes: buffer.length });
+    }
+  }
+  return { files, skipped };
+};
+
+/**
+ * Wraps each file in <file path="..."> tags, which survive code fences and markdown inside the files.
+ */
+export const formatAttachments = (files: AttachedFile[]): string =>
+  files.map((file) => `<file path="${file.path}">\n${file.content.replace(/\n$/, '')}\n</file>`).join('\n\n');
+
+/**
+ * Appends the files given with --file and those mentioned as @path (unless attachments.mentions is off) to a question.
+ * Mentions are looked for in `mentionText` only, so input piped in after the typed question cannot attach files.
+ */
+export const attachFiles = (
+  question: string,
+  patterns: string[],
+  config: EnigmaConfig,
+  baseDir = process.cwd(),
+  mentionText = question,
+): Attachments => {
+  const mentions = config.attachments.mentions ? findMentions(mentionText, baseDir) : [];
+  const { files, skipped } = readAttachments([...patterns, ...mentions], config, baseDir);
+  if (files.length === 0) return { prompt: question, files, skipped };
+  return { prompt: `${question}\n\nAttached files:\n\n${formatAttachments(files)}`, files, skipped };
+};
@@ -1,16 +1,238 @@
 #!/usr/bin/env node
 import fs from 'fs';
 import path from 'path';
+import { spawn } from 'child_process';
 import { Command } from 'commander';
 import chalk from 'chalk';
+import Ora from 'ora';
 import readlineSync from 'readline-sync';
-import { loadConfig, parseSearchMode, saveConfig, validateApiKeyFormat, writeSecureFile } from './config.js';
-import { askPerplexity, askPerplexityStreaming, availableModelsMessage, formatError, printAnswer, withSpinner } from './perplexity.js';
+import {
+  configSources,
+  EnigmaConfig,
+  loadConfig,
+  OutputConfig,
+  parseDomainList,
+  parseNumber,
+  parseOutputFormat,
+  parseRecency,
+  parseSearchDate,
+  parseSearchMode,
+  resolvePersona,
+  saveConfig,
+  validateApiKeyFormat,
+  validateModelName,
+  writeSecureFile,
+} from './config.js';
+import {
+  AskOptions,
+  availableModelsMessage,
+  ChatMessage,
+  Citation,
+  formatError,
+  requestAnswer,
+  SearchFilters,
+  streamAnswer,
+  withSpinner,
+} from './perplexity.js';
+import {
+  ChatSession,
+  createSession,
+  deleteSession,
+  describeSessionModel,
+  latestSession,
+  listSessions,
+  loadSession,
+  recordTurn,
+  renameSession,
+  resetSession,
+  saveSession,
+} from './sessions.js';
+import { CompactionResult, compactHistory, createSummarizer, estimateMessageTokens, measureContext } from './tokens.js';
+import { extractVariables, findTemplate, loadTemplates, parseVarAssignments, renderTemplate, templateAskOptions } from './templates.js';
+import {
+  describeRoute,
+  ModelRole,
+  parseRouteMode,
+  ROLE_SHORTCUTS,
+  RoleShortcut,
+  RouteMode,
+  routeQuestion,
+  selectedShortcuts,
+} from './router.js';
+import {
+  createResearchJob,
+  effectiveStatus,
+  formatElapsed,
+  listResearchJobs,
+  loadResearchJob,
+  ResearchJob,
+  runResearchJob,
+  saveResearchJob,
+} from './research.js';
+import { exportTranscript, parseTranscriptFormat, TRANSCRIPT_FORMATS } from './export.js';
+import { describeModel, findModel, listModels, supportsStreaming } from './models.js';
+import { AnswerOutput, OutputFormat, printAnswerOutput, startAnswerStream, toAnswerOutput } from './render.js';
+import { renderMarkdown } from './markdown.js';
+import { extractCodeBlocks, matchesLanguage, renderAnswerFile, writeCodeBlocks, writeOutputFile } from './output.js';
+import { attachFiles } from './files.js';
+import { buildWorkspaceContext, withWorkspaceContext } from './workspace.js';
+import { combineWithStdin, isStdinPiped, isStdinTerminal, readStdin } from './stdin.js';
+import { applyEdits, buildEditPrompt, formatDiffPreview, parseEdits, readEditableFile } from './edit.js';
+import { runAgent } from './agent.js';
+import {
+  collectDiff,
+  describeTarget,
+  formatReviewReport,
+  hasFindingsAtOrAbove,
+  parseReviewFormat,
+  parseSeverity,
+  REVIEW_FORMATS,
+  ReviewFormat,
+  ReviewSeverity,
+  reviewDiff,
+  SEVERITIES,
+} from './review.js';
+import { askStructured, loadSchema } from './schema.js';
+import { trace } from './trace.js';
+import {
+  budgetStatus,
+  formatCost,
+  formatUsageTable,
+  parseSince,
+  readUsage,
+  setUsageCommand,
+  summarizeUsage,
+  UsageGrouping,
+} from './usage.js';
 
 const program = new Command();
 program.name('enigma').description('Perplexity - Enigma CLI').version('1.0.0');
+// Root options such as --model only apply before a subcommand, so "enigma ask --model x" reaches ask's own options.
+program.enablePositionalOptions();
+// Label ledger entries with the command that made them, e.g. "template run".
+program.hook('preAction', (_program, actionCommand) => {
+  const names: string[] = [];
+  for (let command: Command | null = actionCommand; command?.parent; command = command.parent) names.unshift(command.name());
+  setUsageCommand(names.join(' ') || program.name());
+});
 
-type NormalizedAskOptions = { model?: string; searchMode?: ReturnType<typeof parseSearchMode>; stream?: boolean };
+const collectValues = (value: string, previous: string[] = []) => [...previous, value];
+
+/**
+ * Options shared by the commands that ask the model, defined once so their flags and help text stay in step.
+ */
+const COMMON_OPTIONS = {
+  model: { flags: '-m, --model <model>', description: 'Model to use' },
+  searchMode: { flags: '-s, --search-mode <mode>', description: 'Search mode: low | medium | high' },
+  recency: { flags: '--recency <period>', description: 'Only use sources from the last day | week | month | year (any = no limit)' },
+  domain: { flags: '--domain <domain>', description: 'Only search this domain (repeatable or comma-separated)', repeatable: true },
+  excludeDomain: { flags: '--exclude-domain <domain>', description: 'Never use sources from this domain (repeatable or comma-separated)', repeatable: true },
+  after: { flags: '--after <date>', description: 'Only sources published on or after YYYY-MM-DD (replaces --recency)' },
+  before: { flags: '--before <date>', description: 'Only sources published on or before YYYY-MM-DD (replaces --recency)' },
+  stream: { flags: '--stream', description: 'Enable streaming output' },
+  noStream: { flags: '--no-stream', description: 'Disable streaming output' },
+  route: { flags: '--route <mode>', description: 'Model routing when no --model is given: auto | explain | off' },
+  fast: { flags: '--fast', description: 'Use models.fast' },
+  reason: { flags: '--reason', description: 'Use models.reasoning' },
+  research: { flags: '--research', description: 'Use models.deep_research' },
+  search: { flags: '--search', description: 'Use models.search_heavy' },
+  persona: { flags: '-p, --persona <name>', description: 'Persona from .pplxrc to answer as' },
+  format: { flags: '-f, --format <format>', description: 'Output format: markdown | json | plain' },
+  showThinking: { flags: '--show-thinking', description: 'Show reasoning models\' <think> sections, dimmed' },
+  verbose: { flags: '--verbose', description: 'Trace config, model choice, requests and responses to stderr (API key redacted)' },
+  file: {
+    flags: '--file <path>',
+    description: 'Attach a file to the question (repeatable; globs and directories allowed, .gitignore respected)',
+    repeatable: true,
+  },
+  withRepo: { flags: '--with-repo', description: 'Prepend the project file tree and the files most relevant to the question (.gitignore respected)' },
+  output: { flags: '-o, --output <path>', description: 'Also write the answer to a file (in the output format)' },
+  extractCode: {
+    flags: '--extract-code [lang]',
+    description: 'Write fenced code blocks (optionally only one language) to snippet-<n>.<ext> files, or all into --output',
+  },
+} satisfies Record<string, { flags: string; description: string; repeatable?: boolean }>;
+
+type CommonOption = keyof typeof COMMON_OPTIONS;
+
+const SEARCH_FILTER_OPTIONS: CommonOption[] = ['recency', 'domain', 'excludeDomain', 'after', 'before'];
+const STREAM_OPTIONS: CommonOption[] = ['stream', 'noStream'];
+const ROUTING_OPTIONS: CommonOption[] = ['route', 'fast', 'reason', 'research', 'search'];
+const OUTPUT_OPTIONS: CommonOption[] = ['format', 'showThinking', 'verbose'];
+const ATTACHMENT_OPTIONS: CommonOption[] = ['file', 'withRepo'];
+const SAVE_OPTIONS: CommonOption[] = ['output', 'extractCode'];
+// Everything the top-level command and ask accept for a single question
+const QUESTION_OPTIONS: CommonOption[] = [
+  'model',
+  'searchMode',
+  ...SEARCH_FILTER_OPTIONS,
+  ...STREAM_OPTIONS,
+  ...ROUTING_OPTIONS,
+  'persona',
+  ...OUTPUT_OPTIONS,
+  ...ATTACHMENT_OPTIONS,
+];
+
+/**
+ * Adds the named shared options to a command, in order; `note` is appended to each description.
+ */
+const applyCommonOptions = (command: Command, names: CommonOption[], note = ''): Command => {
+  for (const name of names) {
+    const spec: { flags: string; description: string; repeatable?: boolean } = COMMON_OPTIONS[name];
+    if (spec.repeatable) command.option(spec.flags, `${spec.description}${note}`, collectValues);
+    else command.option(spec.flags, `${spec.description}${note}`);
+  }
+  return command;
+};
+
+/**
+ * Turns on output.verbose when the command was given --verbose.
+ */
+const withVerbose = (config: EnigmaConfig, options: { verbose?: boolean }): EnigmaConfig =>
+  options.verbose ? { ...config, output: { ...config.output, verbose: true } } : config;
+
+/**
+ * Uses the command's --format in place of output.format.
+ */
+export const withFormat = (config: EnigmaConfig, options: { format?: OutputConfig['format'] }): EnigmaConfig =>
+  options.format ? { ...config, output: { ...config.output, format: options.format } } : config;
+
+type NormalizedAskOptions = {
+  model?: string;
+  searchMode?: ReturnType<typeof parseSearchMode>;
+  stream?: boolean;
+  history?: ChatMessage[];
+  persona?: string;
+  format?: OutputConfig['format'];
+  /** Print <think> reasoning from reasoning models; falls back to output.show_thinking. */
+  showThinking?: boolean;
+  /** Trace config, routing and HTTP traffic to stderr; falls back to output.verbose. */
+  verbose?: boolean;
+  route?: RouteMode;
+  /** Model role picked with a shortcut such as --reason; resolved against `models:` at request time. */
+  role?: ModelRole;
+  /** Path to a JSON Schema file; the answer is printed as validated JSON instead of prose. */
+  schema?: string;
+  /** File the answer is written to, or where extracted code goes with `extractCode`. */
+  output?: string;
+  /** Write fenced code blocks to files instead: `true` for every block, or only blocks in this language. */
+  extractCode?: string | true;
+  /** Search filters from --recency, --domain, --exclude-domain, --after and --before. */
+  filters?: SearchFilters;
+  /** Files, globs or directories from --file whose contents are appended to the question. */
+  files?: string[];
+  /** The question as typed, before piped input was appended; @path mentions are only taken from it. */
+  typedQuestion?: string;
+  /** Prepend the project's file tree and the files most relevant to the question. */
+  withRepo?: boolean;
+};
+
+/** What the interactive loop records for an answered question. */
+type AnsweredQuestion = {
+  content: string;
+  model: string;
+  citations?: Citation[];
+};
 
 const logFormattedError = (error: unknown) => {
   console.error(chalk.red(formatError(error)));
@@ -18,15 +240,131 @@ const logFormattedError = (error: unknown) => {
 
 const EXIT_INSTRUCTIONS = 'Type "exit" or "quit" to leave.';
 
-export const normalizeAskOptions = (options: { model?: string; searchMode?: string; stream?: boolean }): NormalizedAskOptions => {
+const printSessionList = () => {
+  const sessions = listSessions();
+  if (sessions.length === 0) {
+    console.log(chalk.cyan('No saved sessions yet. Start one with: enigma'));
+    return;
+  }
+  console.log(chalk.cyan('\nSaved sessions:'));
+  for (const session of sessions) {
+    const turns = Math.floor(session.messages.length / 2);
+    console.log(
+      `  ${chalk.bold(session.id)}  ${session.title}  ${chalk.gray(
+        `(${turns} turns, ${describeSessionModel(session)}, search ${session.searchMode}, updated ${session.updatedAt})`,
+      )}`,
+    );
+  }
+  console.log('');
+};
+
+type SearchFilterFlags = {
+  recency?: string;
+  domain?: string[];
+  excludeDomain?: string[];
+  after?: string;
+  before?: string;
+};
+
+const normalizeSearchFilters = (options: SearchFilterFlags): SearchFilters | undefined => {
+  const filters: SearchFilters = {};
+  if (options.recency) {
+    filters.recency = parseRecency(options.recency);
+    if (!filters.recency) {
+      console.error(chalk.yellow(`Recency "${options.recency}" is invalid. Use day, week, month, year or any.`));
+    }
+  }
+  if (options.domain) filters.allowedDomains = options.domain.flatMap((value) => parseDomainList(value) ?? []);
+  if (options.excludeDomain) filters.blockedDomains = options.excludeDomain.flatMap((value) => parseDomainList(value) ?? []);
+  for (const [flag, key] of [['after', 'afterDate'], ['before', 'beforeDate']] as const) {
+    const value = options[flag];
+    if (value === undefined) continue;
+    filters[key] = parseSearchDate(value);
+    if (filters[key] === undefined) {
+      console.error(chalk.yellow(`--${flag} "${value}" is not a date. Use YYYY-MM-DD.`));
+    }
+  }
+  const defined = Object.entries(filters).filter(([, value]) => value !== undefined);
+  return defined.length > 0 ? (Object.fromEntries(defined) as SearchFilters) : undefined;
+};
+
+export const normalizeAskOptions = (options: {
+  model?: string;
+  searchMode?: string;
+  stream?: boolean;
+  persona?: string;
+  route?: string;
+  format?: string;
+  showThinking?: boolean;
+  verbose?: boolean;
+  schema?: string;
+  output?: string;
+  extractCode?: string | boolean;
+  file?: string[];
+  withRepo?: boolean;
+} & SearchFilterFlags & Partial<Record<RoleShortcut, boolean>>): NormalizedAskOptions => {
   const normalizedSearchMode = parseSearchMode(options.searchMode);
   if (options.searchMode && !normalizedSearchMode) {
     console.error(chalk.yellow(`Search mode "${options.searchMode}" is invalid. Using config default.`));
   }
+  const normalizedRoute = parseRouteMode(options.route);
+  if (options.route && !normalizedRoute) {
+    console.error(chalk.yellow(`Route mode "${options.route}" is invalid. Use auto, explain or off.`));
+  }
+  const normalizedFormat = parseOutputFormat(options.format);
+  if (options.format && !normalizedFormat) {
+    console.error(chalk.yellow(`Output format "${options.format}" is invalid. Use markdown, json or plain.`));
+  }
+  const shortcuts = selectedShortcuts(options);
+  if (shortcuts.length > 1) {
+    console.error(chalk.yellow(`Only one of ${shortcuts.map((s) => `--${s}`).join(', ')} can be used. Using --${shortcuts[0]}.`));
+  }
   return {
     model: options.model,
     searchMode: normalizedSearchMode,
     stream: options.stream,
+    persona: options.persona,
+    format: normalizedFormat,
+    showThinking: options.showThinking,
+    verbose: options.verbose,
+    route: normalizedRoute,
+    role: shortcuts.length > 0 ? ROLE_SHORTCUTS[shortcuts[0]] : undefined,
+    schema: options.schema,
+    output: options.output,
+    extractCode: options.extractCode || undefined,
+    filters: normalizeSearchFilters(options),
+    files: options.file,
+    withRepo: options.withRepo,
+  };
+};
+
+/**
+ * Model fixed for a request before routing: an explicit model, then a role shortcut, then the persona's model.
+ */
+const pinnedModel = (options: NormalizedAskOptions, config: EnigmaConfig): string | undefined =>
+  options.model ??
+  (options.role ? config.models[options.role] : undefined) ??
+  (options.persona ? config.personas?.[options.persona]?.model : undefined);
+
+const pinnedModelSource = (options: NormalizedAskOptions): string => {
+  if (options.model) return 'requested model';
+  if (options.role) return `models.${options.role}`;
+  return `persona "${options.persona}"`;
+};
+
+/**
+ * Resolves CLI options into request options, applying the selected persona.
+ * An explicit model or role shortcut wins over the persona's model.
+ */
+export const toAskOptions = (options: NormalizedAskOptions, config: EnigmaConfig): AskOptions => {
+  const persona = options.persona ? resolvePersona(options.persona, config) : undefined;
+  return {
+    model: pinnedModel(options, config),
+    searchMode: options.searchMode,
+    history: options.history,
+    systemPrompt: persona?.system_prompt,
+    temperature: persona?.temperature,
+    filters: options.filters,
   };
 };
 
@@ -55,54 +393,406 @@ export const ensureApiKeyInteractive = (configPath: string): string => {
   return key.trim();
 };
 
-const handleQuestion = async (question: string, options: NormalizedAskOptions) => {
+/**
+ * Chooses the model for multi-step commands that are not routed on their prompt (`agent`, `review`): an explicit,
+ * shortcut or persona model wins, otherwise the model configured for `role` (or models.default).
+ */
+export const selectRoleModel = (role: ModelRole, options: NormalizedAskOptions, askOptions: AskOptions, config: EnigmaConfig): string => {
+  const model = askOptions.model ?? (config.models[role] || config.models.default);
+  const source = askOptions.model ? pinnedModelSource(options) : config.models[role] ? `models.${role}` : 'models.default';
+  trace(config, 'Model', `${model} (${source})`);
+  return validateModelName(model, config).model;
+};
+
+/**
+ * Loads the config, prompting for an API key first if none is configured.
+ */
+const loadConfigWithApiKey = (): EnigmaConfig => {
   const config = loadConfig();
-  const configPath = path.join(process.cwd(), '.pplxrc');
   const apiKey = process.env.PPLX_API_KEY ?? config.api.key;
-  let effectiveConfig = config;
-  if (!apiKey) {
-    const newKey = ensureApiKeyInteractive(configPath);
-    effectiveConfig = { ...config, api: { ...config.api, key: newKey } };
+  if (apiKey) return config;
+  const newKey = ensureApiKeyInteractive(path.join(process.cwd(), '.pplxrc'));
+  return { ...config, api: { ...config.api, key: newKey } };
+};
+
+/**
+ * Chooses the model for a question: an explicit or persona model wins, otherwise the
+ * question is routed to one of the `models:` roles unless routing is off.
+ */
+export const selectModel = (question: string, options: NormalizedAskOptions, askOptions: AskOptions, config: EnigmaConfig): string => {
+  if (askOptions.model || options.route === 'off') {
+    const model = validateModelName(askOptions.model, config).model;
+    trace(config, 'Model', `${model} (${askOptions.model ? pinnedModelSource(options) : 'models.default, routing is off'})`);
+    return model;
+  }
+  const decision = routeQuestion(question, config, { followUp: (options.history?.length ?? 0) > 0 });
+  if (options.route === 'explain') {
+    console.error(chalk.gray(describeRoute(decision)));
+  } else {
+    trace(config, 'Route', describeRoute(decision));
+  }
+  return validateModelName(decision.model, config).model;
+};
+
+/**
+ * Writes the answer, or just its code blocks, to the files asked for with --output and --extract-code.
+ */
+const saveAnswer = (output: AnswerOutput, options: NormalizedAskOptions, format: OutputFormat, showThinking: boolean) => {
+  if (options.extractCode) {
+    const wanted = options.extractCode;
+    const blocks = extractCodeBlocks(output.answer).filter((block) => wanted === true || matchesLanguage(block, wanted));
+    if (blocks.length === 0) {
+      console.error(chalk.yellow(`The answer has no ${wanted === true ? '' : `${wanted} `}code blocks to extract.`));
+      process.exitCode = 1;
+      return;
+    }
+    for (const written of writeCodeBlocks(blocks, options.output)) {
+      console.error(chalk.gray(`Saved code to ${written}`));
+    }
+    return;
+  }
+  if (options.output) {
+    writeOutputFile(options.output, renderAnswerFile(output, format, { showThinking }));
+    console.error(chalk.gray(`Saved answer to ${options.output}`));
+  }
+};
+
+/**
+ * The prompt as sent for a question: with --file and @path attachments inlined and, for --with-repo,
+ * the workspace context in front. Notes on what was attached go to stderr unless `quiet`.
+ */
+const preparePrompt = (question: string, options: NormalizedAskOptions, config: EnigmaConfig, { quiet = false } = {}): string => {
+  const attachments = attachFiles(question, options.files ?? [], config, process.cwd(), options.typedQuestion ?? question);
+  if (!quiet) {
+    for (const skipped of attachments.skipped) {
+      console.error(chalk.yellow(`Not attaching ${skipped.path}: ${skipped.reason}.`));
+    }
+    if (attachments.files.length > 0) {
+      console.error(chalk.gray(`Attached ${attachments.files.map((file) => file.path).join(', ')}`));
+    }
+  }
+  if (!options.withRepo) return attachments.prompt;
+  const workspace = buildWorkspaceContext(question, config);
+  if (!quiet) {
+    console.error(
+      chalk.gray(
+        `Including the tree of ${workspace.fileCount} project files and ${workspace.files.length} relevant files ` +
+          `(~${workspace.tokens} of ${config.workspace.budget_tokens} tokens)`,
+      ),
+    );
+    trace(config, 'Workspace', { included: workspace.files.map((file) => file.path), omitted: workspace.omitted });
+  }
+  return withWorkspaceContext(attachments.prompt, workspace);
+};
+
+/**
+ * The question from the command line combined with piped stdin (see combineWithStdin).
+ * Resolves with undefined, after reporting why, when the input cannot be used.
+ */
+const readQuestion = async (question: string): Promise<string | undefined> => {
+  try {
+    const input = isStdinPiped() ? await readStdin(loadConfig().attachments.max_stdin_bytes) : undefined;
+    return combineWithStdin(question, input);
+  } catch (error) {
+    logFormattedError(error);
+    process.exitCode = 1;
+    return undefined;
+  }
+};
+
+/**
+ * Asks for changes to a file, shows them as a colored diff and writes them once confirmed (or with `yes`).
+ * Files with CRLF line endings keep them.
+ */
+const handleEdit = async (
+  filePath: string,
+  instruction: string,
+  options: NormalizedAskOptions,
+  { yes = false }: { yes?: boolean } = {},
+) => {
+  const effectiveConfig = withVerbose(loadConfigWithApiKey(), options);
+  try {
+    const { content, crlf } = readEditableFile(filePath, effectiveConfig.attachments.max_file_bytes);
+    const question = buildEditPrompt(filePath.split(path.sep).join('/'), content, instruction);
+    const askOptions = toAskOptions(options, effectiveConfig);
+    askOptions.model = selectModel(question, options, askOptions, effectiveConfig);
+    const answer = await withSpinner('Contacting Perplexity...', () => requestAnswer(question, effectiveConfig, askOptions));
+    const edits = parseEdits(answer.content);
+    trace(effectiveConfig, 'Edits', `${edits.length} change(s) parsed from the answer`);
+    if (edits.length === 0) {
+      console.error(chalk.yellow('The answer contains no changes that can be applied:'));
+      console.error(answer.content);
+      process.exitCode = 1;
+      return;
+    }
+    const result = applyEdits(content, edits);
+    if (result.text === content) {
+      console.log(chalk.cyan(`The suggested changes leave ${filePath} as it is.`));
+      return;
+    }
+    console.log(formatDiffPreview(filePath, content, result.text));
+    if (result.fuzzy > 0) {
+      console.error(chalk.gray(`${result.fuzzy} change(s) did not match the file exactly and were placed approximately; check the preview.`));
+    }
+    if (!yes) {
+      if (!isStdinTerminal()) {
+        console.error(chalk.yellow('Not writing: confirming needs a terminal. Pass --yes to apply the changes.'));
+        process.exitCode = 1;
+        return;
+      }
+      if (!/^y(es)?$/i.test(readlineSync.question(`Apply these changes to ${filePath}? [y/N] `).trim())) {
+        console.log(chalk.cyan('No changes written.'));
+        return;
+      }
+    }
+    fs.writeFileSync(filePath, crlf ? result.text.replace(/\n/g, '\r\n') : result.text, 'utf-8');
+    console.log(chalk.green(`Updated ${filePath}`));
+  } catch (error) {
+    logFormattedError(error);
+    process.exitCode = 1;
+  }
+};
+
+/**
+ * Runs `enigma agent`: logs every tool call to stderr, asks before each edit (unless `yes`) and prints the final answer.
+ */
+const handleAgent = async (task: string, options: NormalizedAskOptions, { yes = false, maxIterations }: { yes?: boolean; maxIterations?: number } = {}) => {
+  let effectiveConfig = withVerbose(withFormat(loadConfigWithApiKey(), options), options);
+  if (maxIterations !== undefined) {
+    effectiveConfig = { ...effectiveConfig, agent: { ...effectiveConfig.agent, max_iterations: maxIterations } };
   }
+  const approve = (preview: string, filePath: string): boolean => {
+    console.error(preview);
+    if (yes) return true;
+    if (!isStdinTerminal()) {
+      console.error(chalk.yellow(`Not writing ${filePath}: confirming needs a terminal. Pass --yes to allow edits.`));
+      return false;
+    }
+    return /^y(es)?$/i.test(readlineSync.question(`Apply this change to ${filePath}? [y/N] `).trim());
+  };
+  // Spins only while waiting for the API, and stays quiet when stderr is not a terminal
+  const spinner = Ora({ text: 'Working on the task...', isSilent: !process.stderr.isTTY });
+  try {
+    const askOptions = toAskOptions(options, effectiveConfig);
+    askOptions.model = selectRoleModel('reasoning', options, askOptions, effectiveConfig);
+    const result = await runAgent(task, effectiveConfig, askOptions, {
+      approve,
+      log: (message) => console.error(chalk.gray(message)),
+      request: async (question, config, requestOptions) => {
+        spinner.start();
+        try {
+          return await requestAnswer(question, config, requestOptions);
+        } finally {
+          spinner.stop();
+        }
+      },
+    });
+    if (!result.finished) {
+      console.error(
+        chalk.yellow(`Stopped after ${result.iterations} tool calls (agent.max_iterations) without a final answer. Raise it or narrow the task.`),
+      );
+      process.exitCode = 1;
+      return;
+    }
+    const format = effectiveConfig.output.format;
+    printAnswerOutput(toAnswerOutput(result.answer, askOptions.model, effectiveConfig.research.include_citations), format, {
+      showThinking: options.showThinking ?? effectiveConfig.output.show_thinking,
+    });
+    if (result.edited.length > 0) {
+      console.error(chalk.green(`Edited ${result.edited.join(', ')}`));
+    }
+  } catch (error) {
+    logFormattedError(error);
+    process.exitCode = 1;
+  }
+};
+
+/**
+ * Runs `enigma review`: sends the diff to the model file by file and prints the findings. Sets a failing
+ * exit code when a finding reaches `failOn` or a file could not be reviewed.
+ */
+const handleReview = async (
+  diffOptions: { staged?: boolean; range?: string },
+  options: NormalizedAskOptions,
+  { format, failOn }: { format?: ReviewFormat; failOn?: ReviewSeverity } = {},
+) => {
+  const effectiveConfig = withVerbose(loadConfigWithApiKey(), options);
+  const spinner = Ora({ text: 'Reviewing...', isSilent: !process.stderr.isTTY });
+  try {
+    const diff = collectDiff(diffOptions);
+    const target = describeTarget(diffOptions);
+    if (!diff.trim()) {
+      console.error(chalk.cyan(`No changes to review in ${target}.`));
+      return;
+    }
+    const askOptions = toAskOptions(options, effectiveConfig);
+    const model = selectRoleModel('reasoning', options, askOptions, effectiveConfig);
+    spinner.start();
+    const report = await reviewDiff(diff, target, effectiveConfig, { ...askOptions, model }, {
+      progress: (chunk) => {
+        spinner.text = `Reviewing ${chunk.path}${chunk.parts > 1 ? ` (${chunk.part}/${chunk.parts})` : ''}...`;
+      },
+    });
+    spinner.stop();
+    const selected = format ?? effectiveConfig.output.format;
+    const rendered = formatReviewReport(report, selected, program.version());
+    console.log(selected === 'markdown' && process.stdout.isTTY ? renderMarkdown(rendered) : rendered);
+    for (const failure of report.failed) {
+      console.error(chalk.yellow(`Could not review ${failure.file}: ${failure.error}`));
+    }
+    if (report.failed.length > 0 || (failOn && hasFindingsAtOrAbove(report, failOn))) {
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    spinner.stop();
+    logFormattedError(error);
+    process.exitCode = 1;
+  }
+};
+
+/**
+ * Asks a single question and prints the answer.
+ * Resolves with the answer and the model that produced it, or undefined when the request failed.
+ */
+const handleQuestion = async (question: string, options: NormalizedAskOptions): Promise<AnsweredQuestion | undefined> => {
+  const effectiveConfig = withVerbose(withFormat(loadConfigWithApiKey(), options), options);
+  const sources = configSources();
+  trace(effectiveConfig, 'Config', { file: sources.file ?? 'none, using defaults', envOverrides: sources.env });
   
   // Determine if streaming should be used (CLI option overrides config)
-  const useStreaming = options.stream !== undefined ? options.stream : effectiveConfig.output.stream;
+  let useStreaming = options.stream !== undefined ? options.stream : effectiveConfig.output.stream;
   
   try {
+    // The router and the API both see the question with the files inlined
+    question = preparePrompt(question, options, effectiveConfig);
+    const askOptions = toAskOptions(options, effectiveConfig);
+    askOptions.model = selectModel(question, options, askOptions, effectiveConfig);
+    trace(
+      effectiveConfig,
+      'Search mode',
+      `${askOptions.searchMode ?? effectiveConfig.research.search_mode} (${askOptions.searchMode ? 'requested' : 'research.search_mode'})`,
+    );
+    if (options.schema) {
+      if (options.format || options.extractCode) {
+        throw new Error('--schema always prints the validated JSON, so it cannot be combined with --format or --extract-code.');
+      }
+      // Structured answers are validated as a whole, so they are never streamed
+      const schema = loadSchema(options.schema);
+      const result = await withSpinner('Contacting Perplexity...', () =>
+        askStructured(question, effectiveConfig, askOptions, schema),
+      );
+      if (result.attempts > 1) {
+        console.error(chalk.gray('The first answer did not match the schema; the retry did.'));
+      }
+      const json = JSON.stringify(result.value, null, 2);
+      console.log(json);
+      if (options.output) {
+        writeOutputFile(options.output, `${json}\n`);
+        console.error(chalk.gray(`Saved answer to ${options.output}`));
+      }
+      return { content: result.answer.content, model: askOptions.model, citations: result.answer.citations };
+    }
+    if (useStreaming && !supportsStreaming(askOptions.model, effectiveConfig)) {
+      console.error(chalk.gray(`${askOptions.model} does not support streaming; waiting for the full answer.`));
+      useStreaming = false;
+    }
+    const format = effectiveConfig.output.format;
+    const includeCitations = effectiveConfig.research.include_citations;
+    const showThinking = options.showThinking ?? effectiveConfig.output.show_thinking;
     if (useStreaming) {
       // Use streaming mode - no spinner since we'll be progressively outputting
-      console.log(chalk.greenBright('\n=== Perplexity ===\n'));
-      await askPerplexityStreaming(question, effectiveConfig, {
-        model: options.model,
-        searchMode: options.searchMode,
-      });
-      console.log('\n');
-    } else {
-      const answer = await withSpinner('Contacting Perplexity...', () =>
-        askPerplexity(question, effectiveConfig, {
-          model: options.model,
-          searchMode: options.searchMode,
-        }),
-      );
-      printAnswer(answer);
+      const stream = startAnswerStream(format, undefined, { showThinking });
+      const answer = await streamAnswer(question, effectiveConfig, askOptions, stream.write, stream.writeThinking);
+      stream.end();
+      const output = toAnswerOutput(answer, askOptions.model, includeCitations);
+      printAnswerOutput(output, format, { streamed: true, showThinking });
+      saveAnswer(output, options, format, showThinking);
+      return { content: answer.content, model: askOptions.model, citations: output.citations };
     }
+    const answer = await withSpinner('Contacting Perplexity...', () =>
+      requestAnswer(question, effectiveConfig, askOptions),
+    );
+    const output = toAnswerOutput(answer, askOptions.model, includeCitations);
+    printAnswerOutput(output, format, { showThinking });
+    saveAnswer(output, options, format, showThinking);
+    return { content: answer.content, model: askOptions.model, citations: output.citations };
   } catch (error) {
     logFormattedError(error);
     process.exitCode = 1;
+    return undefined;
+  }
+};
+
+type InteractiveSessionOptions = {
+  /** Session to continue; its earlier turns are replayed as history and new turns are recorded into it. */
+  session?: ChatSession;
+  /** Called after every answered turn so the session survives a closed terminal. */
+  persist?: (session: ChatSession) => void;
+  /** Shortens history before each request so it fits the model's context window. */
+  compact?: (question: string, history: ChatMessage[], options: NormalizedAskOptions) => Promise<CompactionResult>;
+};
+
+/**
+ * Model whose context window applies to a request, mirroring how the request picks it.
+ * Unknown names fall back to the default silently here because the request itself reports them.
+ */
+const contextModel = (question: string, options: NormalizedAskOptions, config: EnigmaConfig): string => {
+  const model =
+    pinnedModel(options, config) ??
+    (options.route === 'off' ? undefined : routeQuestion(question, config, { followUp: true }).model);
+  return model && findModel(model, config) ? model : config.models.default;
+};
+
+// Measured on the prompt as handleQuestion will send it, so attached files and the persona count too.
+const compactForRequest = async (
+  question: string,
+  history: ChatMessage[],
+  options: NormalizedAskOptions,
+): Promise<CompactionResult> => {
+  const config = loadConfig();
+  const prompt = preparePrompt(question, options, config, { quiet: true });
+  const { systemPrompt } = toAskOptions(options, config);
+  return compactHistory(prompt, history, config, contextModel(question, options, config), createSummarizer(config), systemPrompt);
+};
+
+const printContextUsage = (history: ChatMessage[], options: NormalizedAskOptions) => {
+  const config = loadConfig();
+  const { systemPrompt } = toAskOptions(options, config);
+  const usage = measureContext('', history, config, contextModel('', options, config), systemPrompt);
+  const percent = Math.round(((usage.promptTokens + usage.responseTokens) / usage.contextWindow) * 100);
+  console.log(chalk.cyan(`\nContext for ${usage.model} (~${percent}% of ${usage.contextWindow} tokens):`));
+  if (systemPrompt) {
+    console.log(chalk.cyan(`  Persona:       ~${usage.promptTokens - estimateMessageTokens(history)} tokens (system prompt)`));
   }
+  console.log(chalk.cyan(`  History:       ~${estimateMessageTokens(history)} tokens in ${history.length} messages`));
+  console.log(chalk.cyan(`  Answer budget: ${usage.responseTokens} tokens (agent.max_tokens)`));
+  console.log(chalk.cyan(`  Remaining:     ~${Math.max(0, usage.remainingTokens)} tokens`));
+  console.log(chalk.cyan(`  Strategy:      ${config.context.strategy} when full\n`));
 };
 
 /**
  * Runs the interactive prompt loop, repeatedly asking questions until the user exits.
+ * Each answered question is kept as conversation history and sent with the next request,
+ * so follow-ups can refer back to earlier turns.
  */
 const startInteractiveSession = async (
   options: NormalizedAskOptions,
   prompt: (query: string) => string = readlineSync.question,
-  ask: (question: string, opts: NormalizedAskOptions) => Promise<void> = handleQuestion,
+  ask: (question: string, opts: NormalizedAskOptions) => Promise<AnsweredQuestion | undefined | void> = handleQuestion,
+  { session: initialSession, persist = saveSession, compact = compactForRequest }: InteractiveSessionOptions = {},
 ) => {
   console.log(chalk.cyan('\nWelcome to Enigma!'));
   console.log(chalk.cyan('Type your question or :help for commands | :exit to quit\n'));
 
+  let session = initialSession;
+  const history: ChatMessage[] = session ? [...session.messages] : [];
+  if (session && history.length > 0) {
+    console.log(chalk.cyan(`Resumed "${session.title}" (${history.length / 2} earlier turns, model ${describeSessionModel(session)})\n`));
+  }
+  let baseOptions: NormalizedAskOptions = session
+    ? { ...options, model: session.model, role: session.role, searchMode: session.searchMode, persona: session.persona }
+    : options;
+
   while (true) {
     let input: string;
     try {
@@ -122,7 +812,86 @@ const startInteractiveSession = async (
       console.log(chalk.cyan('\nExamples:'));
       console.log(chalk.cyan('  enigma ask "How do I create a PowerShell profile?"'));
       console.log(chalk.cyan('  enigma --model sonar-pro "Summarize this repo"'));
-      console.log(chalk.cyan(availableModelsMessage()));
+      console.log(chalk.cyan(availableModelsMessage(loadConfig())));
+      console.log(chalk.cyan('\nCommands:'));
+      console.log(chalk.cyan('  :clear   Forget the conversation so far and start fresh'));
+      console.log(chalk.cyan('  :context Show how much of the context window the conversation uses'));
+      console.log(chalk.cyan('  :persona [name|off]   Show, switch or clear the persona'));
+      console.log(chalk.cyan('  :fast | :reason | :research | :search   Use that model role from models: in .pplxrc'));
+      console.log(chalk.cyan('  :auto    Go back to routing each question automatically'));
+      console.log(chalk.cyan('  :export [md|json|html]   Write this conversation to a transcript file'));
+      console.log(chalk.cyan('  :exit    Leave interactive mode'));
+      continue;
+    }
+
+    if (lower === ':persona' || lower.startsWith(':persona ')) {
+      const name = trimmed.slice(':persona'.length).trim();
+      const config = loadConfig();
+      if (!name) {
+        const names = Object.keys(config.personas ?? {});
+        console.log(chalk.cyan(`Current persona: ${baseOptions.persona ?? 'none'}`));
+        console.log(chalk.cyan(names.length > 0 ? `Available personas: ${names.join(', ')}` : 'No personas defined. Add them under "personas:" in .pplxrc.'));
+        continue;
+      }
+      if (name === 'off' || name === 'none') {
+        baseOptions = { ...baseOptions, persona: undefined };
+        if (session) session.persona = undefined;
+        console.log(chalk.cyan('Persona cleared.'));
+        continue;
+      }
+      try {
+        const persona = resolvePersona(name, config);
+        baseOptions = { ...baseOptions, persona: name, model: persona.model ?? baseOptions.model };
+        if (session) {
+          session.persona = name;
+          session.model = baseOptions.model ?? session.model;
+        }
+        console.log(chalk.cyan(`Persona set to "${name}"${persona.model ? ` (model ${persona.model})` : ''}.`));
+      } catch (error) {
+        console.log(chalk.yellow(formatError(error)));
+      }
+      continue;
+    }
+
+    const shortcut = lower.startsWith(':') ? lower.slice(1) : '';
+    if (shortcut in ROLE_SHORTCUTS || shortcut === 'auto') {
+      const role = shortcut === 'auto' ? undefined : ROLE_SHORTCUTS[shortcut as RoleShortcut];
+      baseOptions = { ...baseOptions, model: undefined, role };
+      if (session) {
+        session.model = undefined;
+        session.role = role;
+      }
+      const config = loadConfig();
+      console.log(
+        chalk.cyan(role ? `Using models.${role} (${config.models[role]}) from now on.` : 'Routing each question automatically from now on.'),
+      );
+      continue;
+    }
+
+    if (lower === ':context') {
+      printContextUsage(history, baseOptions);
+      continue;
+    }
+
+    if (lower === ':export' || lower.startsWith(':export ')) {
+      const requested = trimmed.slice(':export'.length).trim();
+      const format = parseTranscriptFormat(requested || 'md');
+      if (!format) {
+        console.log(chalk.yellow(`Unknown export format "${requested}". Use one of: ${TRANSCRIPT_FORMATS.join(', ')}`));
+      } else if (!session || session.messages.length === 0) {
+        console.log(chalk.yellow('Nothing to export yet. Ask a question first.'));
+      } else {
+        console.log(chalk.green(`Transcript written to ${exportTranscript(session, format)}`));
+      }
+      continue;
+    }
+
+    if (lower === ':clear') {
+      history.length = 0;
+      if (session) {
+        session = resetSession(session);
+      }
+      console.log(chalk.cyan('Conversation cleared.'));
       continue;
     }
 
@@ -132,65 +901,244 @@ const startInteractiveSession = async (
     }
 
     try {
-      await ask(trimmed, options);
+      if (history.length > 0) {
+        const result = await compact(trimmed, history, baseOptions);
+        if (result.compacted !== 'none') {
+          history.splice(0, history.length, ...result.history);
+          console.log(chalk.gray(`Earlier conversation ${result.compacted} to fit the ${result.usage.contextWindow}-token context window.`));
+        }
+      }
+      const askOptions = history.length > 0 ? { ...baseOptions, history: [...history] } : baseOptions;
+      const answer = await ask(trimmed, askOptions);
+      if (answer) {
+        history.push({ role: 'user', content: trimmed }, { role: 'assistant', content: answer.content });
+        if (session) {
+          persist(recordTurn(session, trimmed, answer));
+        }
+      }
     } catch (error) {
       logFormattedError(error);
       console.error(chalk.yellow(`An error occurred. Please try again or ${EXIT_INSTRUCTIONS.toLowerCase()}`));
     }
   }
+
+  if (session && session.messages.length > 0) {
+    console.log(chalk.cyan(`Session saved as ${session.id}. Resume with: enigma sessions resume ${session.id}`));
+  }
 };
 
-program
+/**
+ * Opens an interactive session backed by the on-disk session store.
+ * CLI model/search-mode flags override whatever a resumed session was pinned to.
+ */
+const runStoredSession = async (options: NormalizedAskOptions, session?: ChatSession) => {
+  if (!isStdinTerminal()) {
+    console.error(chalk.red('Interactive mode needs a terminal, but stdin is not one. Pass the question as an argument, or "-" to read it from stdin.'));
+    process.exitCode = 1;
+    return;
+  }
+  const config = loadConfig();
+  const target = session ?? createSession(config, options);
+  if (session && options.model) {
+    target.model = validateModelName(options.model, config).model;
+  } else if (session && options.role) {
+    target.model = undefined;
+    target.role = options.role;
+  }
+  if (session && options.searchMode) {
+    target.searchMode = options.searchMode;
+  }
+  if (session && options.persona) {
+    target.persona = options.persona;
+  }
+  await startInteractiveSession(options, readlineSync.question, handleQuestion, { session: target });
+};
+
+applyCommonOptions(program, QUESTION_OPTIONS)
   .argument('[question...]', 'Ask a question (interactive mode if omitted)')
-  .option('-m, --model <model>', 'Model to use')
-  .option('-s, --search-mode <mode>', 'Search mode: low | medium | high')
-  .option('--stream', 'Enable streaming output')
-  .option('--no-stream', 'Disable streaming output')
+  .option('-c, --continue', 'Reopen the most recent saved session')
   .addHelpText(
     'after',
     `
 Examples:
   enigma                         # Start interactive mode
+  enigma --continue              # Pick up the last conversation
   enigma "How do I deploy?"      # Quick answer
   enigma --model sonar-pro "Debug this test"
   enigma --stream "Explain this"  # Stream the response
+  enigma --persona reviewer "Review this function"
+  enigma --route explain "Prove this loop terminates"   # Show which model role was picked and why
+  enigma --reason "Why does this regex backtrack?"      # Use models.reasoning from .pplxrc
+  enigma --format json "Latest Node LTS?" | jq -r .answer
+  enigma "Why does @src/config.ts ignore my env override?"   # Inline a file with @path
+  git diff | enigma "Review this diff"                      # Piped input is appended as a code block
+  Get-Content prompt.md | enigma -                          # "-" reads the whole question from stdin
 `,
   )
   .action(async (questionParts: string[], options) => {
     const normalizedOptions = normalizeAskOptions(options);
 
-    if (questionParts.length === 0) {
-      await startInteractiveSession(normalizedOptions);
+    if (options.continue) {
+      const last = latestSession();
+      if (!last) {
+        console.error(chalk.yellow('No saved sessions yet. Starting a new one.'));
+      }
+      await runStoredSession(normalizedOptions, last);
+      return;
+    }
+
+    if (questionParts.length === 0 && !isStdinPiped()) {
+      await runStoredSession(normalizedOptions);
       return;
     }
 
-    const question = questionParts.join(' ');
+    const typedQuestion = questionParts.join(' ');
+    const question = await readQuestion(typedQuestion);
+    if (question === undefined) return;
     if (!question.trim()) {
       console.error(chalk.yellow('No question provided. Exiting.'));
       return;
     }
-    await handleQuestion(question, normalizedOptions);
+    await handleQuestion(question, { ...normalizedOptions, typedQuestion });
   });
 
-program
-  .command('ask')
+applyCommonOptions(program.command('ask'), [...QUESTION_OPTIONS, ...SAVE_OPTIONS])
   .description('Ask Perplexity a question without entering interactive mode')
   .argument('<question...>', 'Question to ask')
-  .option('-m, --model <model>', 'Model to use')
-  .option('-s, --search-mode <mode>', 'Search mode: low | medium | high')
-  .option('--stream', 'Enable streaming output')
-  .option('--no-stream', 'Disable streaming output')
+  .option('--schema <file>', 'JSON Schema the answer must match; prints the validated JSON and exits non-zero if it does not match')
   .addHelpText(
     'after',
     `
 Example:
   enigma ask "What is PowerShell profile?"
   enigma ask --stream "Explain async programming"
+  enigma ask --format json "What is PowerShell profile?" | jq '.citations[].url'
+  enigma ask --format plain "Explain async programming" > notes.txt
+  enigma ask --reason --show-thinking "Is this lock-free queue correct?"
+  enigma ask --schema release.schema.json "Latest Node.js LTS version and its end-of-life date" | jq .version
+  enigma ask --output answer.md "Compare Vitest and Jest"
+  enigma ask --file src/index.ts --file "tests/*.test.ts" "Which commands have no tests?"
+  Get-Content err.log | enigma ask "Why does this fail?"
+  enigma ask --extract-code powershell --output Backup.ps1 "Script to back up my Documents folder"
 `,
   )
   .action(async (questionParts: string[], options) => {
-    const question = questionParts.join(' ');
-    await handleQuestion(question, normalizeAskOptions(options));
+    const typedQuestion = questionParts.join(' ');
+    const question = await readQuestion(typedQuestion);
+    if (question === undefined) return;
+    await handleQuestion(question, { ...normalizeAskOptions(options), typedQuestion });
+  });
+
+applyCommonOptions(program.command('context'), ['file', 'model', 'searchMode', ...STREAM_OPTIONS, 'format', 'verbose'])
+  .description('Ask about this project with its file tree and most relevant files included')
+  .argument('[question...]', 'Question about the project (without one, the context is only previewed)')
+  .option('--preview', 'Print exactly what would be sent instead of asking')
+  .addHelpText(
+    'after',
+    `
+Examples:
+  enigma context "Where are environment variables handled?"
+  enigma context --preview "Where are environment variables handled?" > prompt.txt
+  enigma ask --with-repo "Which function builds the API payload?"   # Same context on ask, template run or enigma
+
+The budget is workspace.budget_tokens in .pplxrc; files over attachments.max_file_bytes and binaries are left out.
+`,
+  )
+  .action(async (questionParts: string[], options) => {
+    const typedQuestion = questionParts.join(' ');
+    const question = await readQuestion(typedQuestion);
+    if (question === undefined) return;
+    const normalizedOptions = { ...normalizeAskOptions(options), withRepo: true, typedQuestion };
+    if (options.preview || !question.trim()) {
+      console.log(preparePrompt(question, normalizedOptions, loadConfig()));
+      return;
+    }
+    await handleQuestion(question, normalizedOptions);
+  });
+
+applyCommonOptions(program.command('edit'), ['model', 'searchMode', 'route', 'fast', 'reason', 'persona', 'verbose'])
+  .description('Change a file as instructed: shows the diff and writes it once you confirm')
+  .argument('<file>', 'File to edit')
+  .argument('<instruction...>', 'What to change')
+  .option('-y, --yes', 'Write the changes without asking')
+  .addHelpText(
+    'after',
+    `
+Examples:
+  enigma edit src/config.ts "Validate that api.timeout is positive"
+  enigma edit --yes Backup.ps1 "Skip files larger than 1 GB"
+
+The model replies with SEARCH/REPLACE blocks or a unified diff. Blocks that no longer match the file exactly
+are placed with fuzzy matching; if one cannot be found at all, nothing is written.
+`,
+  )
+  .action(async (file: string, instructionParts: string[], options) => {
+    await handleEdit(file, instructionParts.join(' '), normalizeAskOptions(options), { yes: options.yes });
+  });
+
+applyCommonOptions(program.command('agent'), ['model', 'searchMode', 'fast', 'reason', 'persona', 'format', 'verbose'])
+  .description('Let the model work on a task using local tools: list, read and grep files, and propose edits you approve')
+  .argument('<task...>', 'What to do')
+  .option('-y, --yes', 'Write proposed edits without asking')
+  .option('--max-iterations <n>', 'Most tool calls before giving up (overrides agent.max_iterations)')
+  .addHelpText(
+    'after',
+    `
+Examples:
+  enigma agent "Find where the API timeout is applied and explain it"
+  enigma agent --reason "Add input validation to parseVarAssignments"
+  enigma agent --max-iterations 20 --yes "Rename formatElapsed to formatDuration everywhere"
+
+Every tool call is logged to stderr. Files ignored by .gitignore and paths outside the project are off limits.
+`,
+  )
+  .action(async (taskParts: string[], options) => {
+    let maxIterations: number | undefined;
+    if (options.maxIterations !== undefined) {
+      maxIterations = parseNumber(options.maxIterations);
+      if (maxIterations === undefined || !Number.isInteger(maxIterations) || maxIterations < 1) {
+        console.error(chalk.red(`--max-iterations must be a positive whole number, got "${options.maxIterations}".`));
+        process.exitCode = 1;
+        return;
+      }
+    }
+    await handleAgent(taskParts.join(' '), normalizeAskOptions(options), { yes: options.yes, maxIterations });
+  });
+
+applyCommonOptions(program.command('review'), ['model', 'searchMode', 'fast', 'reason', 'persona', 'verbose'])
+  .description('Review a git diff with the model and report findings by file, line and severity')
+  .argument('[range]', 'Revisions to compare, e.g. main..HEAD (default: all uncommitted changes)')
+  .option('--staged', 'Review only the staged changes')
+  .option('-f, --format <format>', 'Output format: markdown | plain | json | sarif')
+  .option('--fail-on <severity>', 'Exit with status 1 when a finding is at least this severe: error | warning | info')
+  .addHelpText(
+    'after',
+    `
+Examples:
+  enigma review
+  enigma review --staged --format plain
+  enigma review origin/main..HEAD --format sarif --fail-on error > review.sarif
+
+Each file's changes are sent in their own request, split further when they do not fit the model's context
+window. Binary and deleted files are skipped. The exit status is 1 when a file could not be reviewed or,
+with --fail-on, when a finding reaches that severity, so it can gate a pre-push hook.
+`,
+  )
+  .action(async (range: string | undefined, options) => {
+    const format = parseReviewFormat(options.format);
+    if (options.format && !format) {
+      console.error(chalk.red(`Output format "${options.format}" is invalid. Use ${REVIEW_FORMATS.join(', ')}.`));
+      process.exitCode = 1;
+      return;
+    }
+    const failOn = parseSeverity(options.failOn);
+    if (options.failOn && !failOn) {
+      console.error(chalk.red(`--fail-on must be one of ${SEVERITIES.join(', ')}, got "${options.failOn}".`));
+      process.exitCode = 1;
+      return;
+    }
+    // --format here also takes sarif, so it is not passed on as an answer format
+    await handleReview({ staged: options.staged, range }, normalizeAskOptions({ ...options, format: undefined }), { format, failOn });
   });
 
 program
@@ -218,6 +1166,456 @@ Examples:
     }
   });
 
+program
+  .command('models')
+  .description('List known models with their capabilities, including custom_models from .pplxrc')
+  .addHelpText(
+    'after',
+    `
+Examples:
+  enigma models            # Context window, streaming, reasoning, pricing and deprecation per model
+`,
+  )
+  .action(() => {
+    const config = loadConfig();
+    console.log(chalk.cyan('\nModels:'));
+    for (const model of listModels(config)) {
+      const line = `  ${describeModel(model, config)}`;
+      console.log(model.deprecated ? chalk.gray(line) : line);
+    }
+    console.log(chalk.cyan('\nPricing is USD per million input/output tokens. Declare more models under custom_models: in .pplxrc.'));
+  });
+
+const USAGE_GROUPINGS: UsageGrouping[] = ['model', 'day', 'command'];
+
+program
+  .command('usage')
+  .description('Summarize tokens, searches and estimated cost from the local request ledger')
+  .option('--since <period>', 'Only requests in the last 12h, 7d, 2w... or since a YYYY-MM-DD date')
+  .option('--by <field>', 'Group by model | day | command', 'model')
+  .option('-f, --format <format>', 'Output format: markdown | json | plain')
+  .addHelpText(
+    'after',
+    `
+Examples:
+  enigma usage                       # All recorded requests by model
+  enigma usage --since 7d --by command
+  enigma usage --since 2026-10-01 --by day --format json
+
+Requests from every project are recorded in ~/.enigma/usage.jsonl (usage.track in .pplxrc), and
+budgets apply to that total. Cost is estimated from each model's per-token pricing (see "enigma models").
+`,
+  )
+  .action((options: { since?: string; by: string; format?: string }) => {
+    const config = loadConfig();
+    const since = options.since ? parseSince(options.since) : undefined;
+    if (options.since && !since) {
+      console.error(chalk.red(`--since "${options.since}" is not a period like 7d or a YYYY-MM-DD date.`));
+      process.exitCode = 1;
+      return;
+    }
+    const by = options.by as UsageGrouping;
+    if (!USAGE_GROUPINGS.includes(by)) {
+      console.error(chalk.red(`--by "${options.by}" is invalid. Use ${USAGE_GROUPINGS.join(', ')}.`));
+      process.exitCode = 1;
+      return;
+    }
+    const entries = readUsage();
+    const rows = summarizeUsage(since ? entries.filter((entry) => new Date(entry.timestamp) >= since) : entries, by);
+    const budgets = budgetStatus(config, entries);
+    if (normalizeAskOptions(options).format === 'json') {
+      console.log(JSON.stringify({ since: since?.toISOString() ?? null, by, rows, budgets }, null, 2));
+      return;
+    }
+    if (rows.length === 0) {
+      console.log(chalk.cyan(`No requests recorded${since ? ' in that period' : ''}.${config.usage.track ? '' : ' Tracking is off (usage.track in .pplxrc).'}`));
+    } else {
+      console.log(chalk.cyan(`\nUsage ${since ? `since ${since.toLocaleString()}` : 'for all recorded requests'}, by ${by}:\n`));
+      console.log(formatUsageTable(rows, by));
+      if (rows.some((row) => row.unpriced > 0)) {
+        console.log(chalk.gray('\n+ Some requests had no reported usage or model pricing, so their cost is missing from the estimate.'));
+      }
+    }
+    for (const budget of budgets) {
+      const line = `${budget.period === 'daily' ? 'Today' : 'This month'}: ${formatCost(budget.spentUsd)} of ${formatCost(budget.limitUsd)} ${budget.period} budget`;
+      console.log(budget.spentUsd >= budget.limitUsd ? chalk.yellow(`\n${line}`) : chalk.cyan(`\n${line}`));
+    }
+    console.log('');
+  });
+
+const sessionsCommand = program
+  .command('sessions')
+  .description('List, resume, rename and delete saved interactive sessions')
+  .addHelpText(
+    'after',
+    `
+Examples:
+  enigma sessions                          # List saved sessions
+  enigma sessions resume 20260107-1423     # Resume by id (a unique prefix is enough)
+  enigma sessions rename 20260107 "Profile setup"
+  enigma sessions rm 20260107-142301-a3f9
+`,
+  )
+  .action(() => {
+    printSessionList();
+  });
+
+sessionsCommand
+  .command('list')
+  .description('List saved sessions, most recent first')
+  .action(() => {
+    printSessionList();
+  });
+
+applyCommonOptions(
+  applyCommonOptions(sessionsCommand.command('resume'), ['model', 'persona'], ' from now on'),
+  ['searchMode', ...STREAM_OPTIONS, ...ROUTING_OPTIONS, 'showThinking', 'verbose'],
+)
+  .description('Continue a saved session in interactive mode')
+  .argument('<id>', 'Session id or unique prefix')
+  .action(async (id: string, options) => {
+    try {
+      await runStoredSession(normalizeAskOptions(options), loadSession(id));
+    } catch (error) {
+      logFormattedError(error);
+      process.exitCode = 1;
+    }
+  });
+
+sessionsCommand
+  .command('rename')
+  .description('Change the title of a saved session')
+  .argument('<id>', 'Session id or unique prefix')
+  .argument('<title...>', 'New title')
+  .action((id: string, titleParts: string[]) => {
+    try {
+      const session = renameSession(id, titleParts.join(' '));
+      console.log(chalk.green(`Renamed ${session.id} to "${session.title}"`));
+    } catch (error) {
+      logFormattedError(error);
+      process.exitCode = 1;
+    }
+  });
+
+sessionsCommand
+  .command('rm')
+  .alias('delete')
+  .description('Delete a saved session')
+  .argument('<id>', 'Session id or unique prefix')
+  .action((id: string) => {
+    try {
+      const session = deleteSession(id);
+      console.log(chalk.green(`Deleted session ${session.id} ("${session.title}")`));
+    } catch (error) {
+      logFormattedError(error);
+      process.exitCode = 1;
+    }
+  });
+
+program
+  .command('export')
+  .description('Export a saved session as a Markdown, JSON or HTML transcript')
+  .argument('<session>', 'Session id or unique prefix')
+  .option('-f, --format <format>', 'Transcript format: md | json | html', 'md')
+  .option('-o, --output <path>', 'File to write (default: <session-id>.<format>)')
+  .addHelpText(
+    'after',
+    `
+Examples:
+  enigma export 20260107-1423                  # Markdown transcript
+  enigma export 20260107-1423 --format html -o research.html
+`,
+  )
+  .action((sessionId: string, options) => {
+    const format = parseTranscriptFormat(options.format);
+    if (!format) {
+      console.error(chalk.red(`Unknown format "${options.format}". Use one of: ${TRANSCRIPT_FORMATS.join(', ')}`));
+      process.exitCode = 1;
+      return;
+    }
+    try {
+      const target = exportTranscript(loadSession(sessionId), format, options.output);
+      console.log(chalk.green(`Transcript written to ${target}`));
+    } catch (error) {
+      logFormattedError(error);
+      process.exitCode = 1;
+    }
+  });
+
+const templateCommand = program
+  .command('template')
+  .description('List and run reusable prompt templates from .enigma/templates/ or .pplxrc')
+  .addHelpText(
+    'after',
+    `
+Examples:
+  enigma template list
+  enigma template run compare --var x=axios --var y=got --var criteria="bundle size"
+`,
+  );
+
+templateCommand
+  .command('list')
+  .description('List available templates and their variables')
+  .action(() => {
+    const templates = loadTemplates(loadConfig());
+    if (templates.length === 0) {
+      console.log(chalk.cyan('No templates yet. Add YAML files to .enigma/templates/ or a "templates:" block to .pplxrc.'));
+      return;
+    }
+    console.log(chalk.cyan('\nTemplates:'));
+    for (const template of templates) {
+      const variables = extractVariables(template.prompt);
+      const pins = [template.model, template.search_mode && `search ${template.search_mode}`, template.format, template.persona]
+        .filter(Boolean)
+        .join(', ');
+      console.log(`  ${chalk.bold(template.name)}${template.description ? `  ${template.description}` : ''}`);
+      console.log(
+        chalk.gray(`      vars: ${variables.length > 0 ? variables.join(', ') : 'none'}${pins ? ` | pinned: ${pins}` : ''} | ${template.source}`),
+      );
+    }
+    console.log('');
+  });
+
+applyCommonOptions(
+  applyCommonOptions(templateCommand.command('run'), ['model', 'searchMode', 'persona', 'format'], ' (overrides the template)'),
+  [...SEARCH_FILTER_OPTIONS, ...STREAM_OPTIONS, ...ROUTING_OPTIONS, 'showThinking', 'verbose', ...ATTACHMENT_OPTIONS, ...SAVE_OPTIONS],
+)
+  .description('Fill in a template and ask it')
+  .argument('<name>', 'Template name')
+  .option('--var <key=value>', 'Template variable (repeatable)', collectValues, [])
+  .action(async (name: string, options) => {
+    let question: string;
+    let typedQuestion: string;
+    let pinned: ReturnType<typeof templateAskOptions>;
+    try {
+      const template = findTemplate(name, loadConfig());
+      typedQuestion = renderTemplate(template, parseVarAssignments(options.var));
+      pinned = templateAskOptions(template);
+      question = isStdinPiped() ? combineWithStdin(typedQuestion, await readStdin(loadConfig().attachments.max_stdin_bytes)) : typedQuestion;
+    } catch (error) {
+      logFormattedError(error);
+      process.exitCode = 1;
+      return;
+    }
+    const cliOptions = normalizeAskOptions(options);
+    await handleQuestion(question, {
+      ...cliOptions,
+      typedQuestion,
+      model: cliOptions.model ?? pinned.model,
+      searchMode: cliOptions.searchMode ?? pinned.searchMode,
+      persona: cliOptions.persona ?? pinned.persona,
+      format: cliOptions.format ?? pinned.format,
+    });
+  });
+
+const printResearchJobs = () => {
+  const jobs = listResearchJobs();
+  if (jobs.length === 0) {
+    console.log(chalk.cyan('No research jobs yet. Start one with: enigma research "<topic>"'));
+    return;
+  }
+  console.log(chalk.cyan('\nResearch jobs:'));
+  for (const job of jobs) {
+    const status = effectiveStatus(job);
+    const timing =
+      job.durationMs !== undefined
+        ? `took ${formatElapsed(job.durationMs)}`
+        : job.startedAt
+          ? `${formatElapsed(Date.now() - Date.parse(job.startedAt))} elapsed`
+          : `created ${job.createdAt}`;
+    console.log(`  ${chalk.bold(job.id)}  ${status.padEnd(11)}  ${job.topic}  ${chalk.gray(`(${timing})`)}`);
+  }
+  console.log('');
+};
+
+const printResearchJob = (job: ResearchJob) => {
+  const status = effectiveStatus(job);
+  console.log(chalk.cyan(`\nResearch job ${job.id}`));
+  console.log(`  Topic:   ${job.topic}`);
+  console.log(`  Model:   ${job.model} (search ${job.searchMode})`);
+  console.log(`  Status:  ${status}`);
+  if (job.startedAt) console.log(`  Started: ${job.startedAt}`);
+  if (job.durationMs !== undefined) console.log(`  Took:    ${formatElapsed(job.durationMs)}`);
+  else if (job.startedAt && (status === 'running' || status === 'queued')) {
+    console.log(`  Elapsed: ${formatElapsed(Date.now() - Date.parse(job.startedAt))}`);
+  }
+  if (job.error) console.log(chalk.red(`  Error:   ${job.error}`));
+  if (status === 'completed') console.log(chalk.cyan(`\nRead it with: enigma research show ${job.id}`));
+  console.log('');
+};
+
+const printResearchAnswer = (job: ResearchJob, config: EnigmaConfig) =>
+  printAnswerOutput(
+    {
+      answer: job.answer ?? '',
+      thinking: job.thinking ?? null,
+      model: job.model,
+      citations: config.research.include_citations ? job.citations ?? [] : [],
+      usage: job.usage ?? null,
+      timing: { totalMs: job.durationMs ?? 0 },
+    },
+    config.output.format,
+    { showThinking: config.output.show_thinking },
+  );
+
+/**
+ * Applies the --format, --show-thinking and --verbose flags of commands that print answers outside handleQuestion.
+ */
+const withOutputOptions = (config: EnigmaConfig, options: { format?: string; showThinking?: boolean; verbose?: boolean }): EnigmaConfig => {
+  const { format, showThinking, verbose } = normalizeAskOptions(options);
+  return {
+    ...config,
+    output: {
+      ...config.output,
+      format: format ?? config.output.format,
+      show_thinking: showThinking ?? config.output.show_thinking,
+      verbose: verbose || config.output.verbose,
+    },
+  };
+};
+
+const runResearchInForeground = async (job: ResearchJob, config: EnigmaConfig) => {
+  const started = Date.now();
+  let characters = 0;
+  const spinner = Ora(`Researching "${job.topic}" with ${job.model}...`).start();
+  const update = () => {
+    const received = characters > 0 ? `, ${characters} characters received` : ', waiting for first results';
+    spinner.text = `Researching with ${job.model}: ${formatElapsed(Date.now() - started)} elapsed${received}`;
+  };
+  const ticker = setInterval(update, 1000);
+  try {
+    await runResearchJob(job, config, {
+      onProgress: (progress) => {
+        characters = progress.characters;
+        update();
+      },
+    });
+    spinner.succeed(`Research finished in ${formatElapsed(job.durationMs ?? 0)}. Saved as ${job.id}`);
+    printResearchAnswer(job, config);
+  } catch (error) {
+    spinner.fail(`Research job ${job.id} failed.`);
+    logFormattedError(error);
+    process.exitCode = 1;
+  } finally {
+    clearInterval(ticker);
+  }
+};
+
+/**
+ * Re-runs this CLI detached so the job keeps going after the terminal closes.
+ */
+const startResearchInBackground = (job: ResearchJob) => {
+  const child = spawn(process.execPath, [...process.execArgv, process.argv[1], 'research', 'run-job', job.id], {
+    cwd: process.cwd(),
+    detached: true,
+    stdio: 'ignore',
+  });
+  job.pid = child.pid;
+  saveResearchJob(job);
+  child.unref();
+  console.log(chalk.green(`Started research job ${job.id} in the background.`));
+  console.log(chalk.cyan(`Check on it with: enigma research status ${job.id}`));
+};
+
+const researchCommand = applyCommonOptions(program.command('research'), ['searchMode', ...SEARCH_FILTER_OPTIONS])
+  .description('Run deep research on a topic as a tracked job using models.deep_research')
+  .argument('[topic...]', 'Topic to research')
+  .option('-b, --background', 'Run in a background process and return immediately')
+  .option('-f, --format <format>', 'Output format: markdown | json | plain')
+  .option('--show-thinking', 'Show the model\'s <think> reasoning, dimmed')
+  .option('--verbose', 'Trace the request and response to stderr (API key redacted)')
+  .addHelpText(
+    'after',
+    `
+Examples:
+  enigma research "State of WebAssembly component model tooling"
+  enigma research --background "Compare EU and US AI regulation"
+  enigma research status                # List jobs
+  enigma research show 20260107-1423    # Print a finished result
+
+Jobs and results are saved under .enigma/research/. The request timeout is
+research.job_timeout in .pplxrc (default 10 minutes).
+`,
+  )
+  .action(async (topicParts: string[], options) => {
+    const topic = topicParts.join(' ').trim();
+    if (!topic) {
+      researchCommand.help();
+    }
+    let config: EnigmaConfig;
+    try {
+      config = withOutputOptions(loadConfigWithApiKey(), options);
+    } catch (error) {
+      logFormattedError(error);
+      process.exitCode = 1;
+      return;
+    }
+    const { searchMode, filters } = normalizeAskOptions(options);
+    const job = createResearchJob(topic, config, { searchMode, filters });
+    saveResearchJob(job);
+    if (options.background) {
+      startResearchInBackground(job);
+      return;
+    }
+    await runResearchInForeground(job, config);
+  });
+
+researchCommand
+  .command('status')
+  .description('List research jobs, or show one job')
+  .argument('[id]', 'Job id or unique prefix')
+  .action((id?: string) => {
+    if (!id) {
+      printResearchJobs();
+      return;
+    }
+    try {
+      printResearchJob(loadResearchJob(id));
+    } catch (error) {
+      logFormattedError(error);
+      process.exitCode = 1;
+    }
+  });
+
+researchCommand
+  .command('show')
+  .description('Print the result of a finished research job')
+  .argument('<id>', 'Job id or unique prefix')
+  .option('-f, --format <format>', 'Output format: markdown | json | plain')
+  .option('--show-thinking', 'Show the model\'s <think> reasoning, dimmed')
+  .action((id: string, options) => {
+    try {
+      const config = withOutputOptions(loadConfig(), options);
+      const job = loadResearchJob(id);
+      if (job.status !== 'completed' || job.answer === undefined) {
+        printResearchJob(job);
+        process.exitCode = 1;
+        return;
+      }
+      if (config.output.format === 'markdown') {
+        console.log(chalk.cyan(`\n${job.topic}`));
+        console.log(chalk.gray(`${job.model}, finished ${job.finishedAt}`));
+      }
+      printResearchAnswer(job, config);
+    } catch (error) {
+      logFormattedError(error);
+      process.exitCode = 1;
+    }
+  });
+
+researchCommand
+  .command('run-job', { hidden: true })
+  .argument('<id>', 'Job id')
+  .action(async (id: string) => {
+    try {
+      await runResearchJob(loadResearchJob(id), loadConfig());
+    } catch {
+      // The failure is recorded on the job for "enigma research status".
+      process.exitCode = 1;
+    }
+  });
+
 if (process.env.NODE_ENV !== 'test') {
   program.parseAsync(process.argv);
 }
@@ -0,0 +1,503 @@
+import chalk from 'chalk';
+
+const DEFAULT_WIDTH = 80;
+const MIN_WIDTH = 20;
+const CODE_INDENT = '  ';
+
+export type MarkdownRenderer = {
+  /** Accepts more markdown and returns whatever can already be rendered. */
+  push: (text: string) => string;
+  /** Renders anything still held back, such as an unfinished table or last line. */
+  end: () => string;
+};
+
+export type CodeTokenType = 'keyword' | 'string' | 'comment' | 'number' | 'variable' | 'literal' | 'text';
+
+export type CodeToken = { type: CodeTokenType; text: string };
+
+/** Carries a block comment that is still open at the end of a line into the next one. */
+export type HighlightState = { inBlockComment: boolean };
+
+type LanguageSpec = {
+  keywords: string[];
+  literals?: string[];
+  lineComment?: string;
+  blockComment?: [string, string];
+  /** `$name` variables, as in shell and PowerShell. */
+  dollarVariables?: boolean;
+  backtickStrings?: boolean;
+};
+
+const C_LIKE_LITERALS = ['true', 'false', 'null'];
+
+const JS_KEYWORDS = [
+  'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'delete', 'do', 'else',
+  'export', 'extends', 'finally', 'for', 'from', 'function', 'if', 'import', 'in', 'instanceof', 'interface',
+  'let', 'new', 'of', 'return', 'switch', 'throw', 'try', 'type', 'typeof', 'var', 'void', 'while', 'yield',
+  'enum', 'implements', 'private', 'public', 'protected', 'readonly', 'static', 'as', 'keyof',
+];
+
+const LANGUAGES: Record<string, LanguageSpec> = {
+  javascript: {
+    keywords: JS_KEYWORDS,
+    literals: [...C_LIKE_LITERALS, 'undefined', 'this'],
+    lineComment: '//',
+    blockComment: ['/*', '*/'],
+    backtickStrings: true,
+  },
+  python: {
+    keywords: [
+      'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del', 'elif', 'else', 'except',
+      'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is', 'lambda', 'nonlocal', 'not', 'or', 'pass',
+      'raise', 'return', 'try', 'while', 'with', 'yield',
+    ],
+    literals: ['True', 'False', 'None', 'self'],
+    lineComment: '#',
+  },
+  shell: {
+    keywords: [
+      'if', 'then', 'else', 'elif', 'fi', 'for', 'while', 'until', 'do', 'done', 'case', 'esac', 'in', 'function',
+      'return', 'export', 'local', 'echo', 'exit', 'source',
+    ],
+    lineComment: '#',
+    dollarVariables: true,
+  },
+  powershell: {
+    keywords: [
+      'begin', 'break', 'catch', 'class', 'continue', 'do', 'else', 'elseif', 'end', 'exit', 'filter', 'finally',
+      'for', 'foreach', 'function', 'if', 'in', 'param', 'process', 'return', 'switch', 'throw', 'trap', 'try',
+      'until', 'while',
+    ],
+    literals: ['$true', '$false', '$null'],
+    lineComment: '#',
+    blockComment: ['<#', '#>'],
+    dollarVariables: true,
+  },
+  json: { keywords: [], literals: C_LIKE_LITERALS },
+  yaml: { keywords: [], literals: [...C_LIKE_LITERALS, 'yes', 'no', '~'], lineComment: '#' },
+  go: {
+    keywords: [
+      'break', 'case', 'chan', 'const', 'continue', 'default', 'defer', 'else', 'fallthrough', 'for', 'func', 'go',
+      'goto', 'if', 'import', 'interface', 'map', 'package', 'range', 'return', 'select', 'struct', 'switch', 'type', 'var',
+    ],
+    literals: ['true', 'false', 'nil', 'iota'],
+    lineComment: '//',
+    blockComment: ['/*', '*/'],
+    backtickStrings: true,
+  },
+  rust: {
+    keywords: [
+      'as', 'async', 'await', 'break', 'const', 'continue', 'crate', 'else', 'enum', 'extern', 'fn', 'for', 'if',
+      'impl', 'in', 'let', 'loop', 'match', 'mod', 'move', 'mut', 'pub', 'ref', 'return', 'static', 'struct',
+      'trait', 'type', 'unsafe', 'use', 'where', 'while',
+    ],
+    literals: ['true', 'false', 'self', 'Self', 'None', 'Some', 'Ok', 'Err'],
+    lineComment: '//',
+    blockComment: ['/*', '*/'],
+  },
+  c: {
+    keywords: [
+      'abstract', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'do', 'else', 'enum', 'extends',
+      'final', 'finally', 'for', 'if', 'implements', 'import', 'interface', 'namespace', 'new', 'package', 'private',
+      'protected', 'public', 'return', 'static', 'struct', 'switch', 'throw', 'throws', 'try', 'typedef', 'using',
+      'var', 'virtual', 'void', 'while', 'int', 'long', 'char', 'bool', 'boolean', 'double', 'float', 'string', 'auto',
+      '#include', '#define',
+    ],
+    literals: [...C_LIKE_LITERALS, 'nullptr', 'NULL', 'this'],
+    lineComment: '//',
+    blockComment: ['/*', '*/'],
+  },
+  sql: {
+    keywords: [
+      'select', 'from', 'where', 'and', 'or', 'not', 'insert', 'into', 'values', 'update', 'set', 'delete', 'create',
+      'table', 'index', 'drop', 'alter', 'join', 'left', 'right', 'inner', 'outer', 'on', 'group', 'by', 'order',
+      'having', 'limit', 'offset', 'as', 'distinct', 'union', 'with', 'primary', 'key', 'references', 'is', 'in',
+    ],
+    literals: ['null', 'true', 'false'],
+    lineComment: '--',
+    blockComment: ['/*', '*/'],
+  },
+};
+
+const LANGUAGE_ALIASES: Record<string, string> = {
+  js: 'javascript', jsx: 'javascript', mjs: 'javascript', cjs: 'javascript', ts: 'javascript', tsx: 'javascript',
+  typescript: 'javascript', node: 'javascript',
+  py: 'python', python3: 'python',
+  sh: 'shell', bash: 'shell', zsh: 'shell', console: 'shell', shellscript: 'shell',
+  ps: 'powershell', ps1: 'powershell', pwsh: 'powershell',
+  jsonc: 'json', json5: 'json',
+  yml: 'yaml',
+  golang: 'go',
+  rs: 'rust',
+  cpp: 'c', 'c++': 'c', h: 'c', hpp: 'c', cs: 'c', csharp: 'c', java: 'c', kotlin: 'c', kt: 'c', swift: 'c',
+  postgres: 'sql', postgresql: 'sql', mysql: 'sql', sqlite: 'sql',
+};
+
+const languageSpec = (language: string): LanguageSpec | undefined => {
+  const name = language.toLowerCase();
+  return LANGUAGES[name] ?? LANGUAGES[LANGUAGE_ALIASES[name]];
+};
+
+const NUMBER_PATTERN = /^(?:0x[\da-f]+|\d+(?:\.\d+)?(?:e[+-]?\d+)?)/i;
+const WORD_PATTERN = /^[#$]?[A-Za-z_][\w-]*/;
+
+/**
+ * Splits one line of code into highlightable tokens. Unknown languages come back as a single text token.
+ * Strings do not span lines; block comments do, via `state`.
+ */
+export const tokenizeCodeLine = (line: string, language: string, state: HighlightState = { inBlockComment: false }): CodeToken[] => {
+  const spec = languageSpec(language);
+  if (!spec) return [{ type: 'text', text: line }];
+
+  const tokens: CodeToken[] = [];
+  const push = (type: CodeTokenType, text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.type === type) last.text += text;
+    else tokens.push({ type, text });
+  };
+  const caseInsensitive = spec === LANGUAGES.sql || spec === LANGUAGES.powershell;
+  const keywords = new Set(spec.keywords.map((word) => (caseInsensitive ? word.toLowerCase() : word)));
+  const literals = new Set(spec.literals ?? []);
+
+  let i = 0;
+  while (i < line.length) {
+    const rest = line.slice(i);
+    if (state.inBlockComment && spec.blockComment) {
+      const close = rest.indexOf(spec.blockComment[1]);
+      const end = close === -1 ? rest.length : close + spec.blockComment[1].length;
+      push('comment', rest.slice(0, end));
+      state.inBlockComment = close === -1;
+      i += end;
+      continue;
+    }
+    if (spec.blockComment && rest.startsWith(spec.blockComment[0])) {
+      state.inBlockComment = true;
+      push('comment', spec.blockComment[0]);
+      i += spec.blockComment[0].length;
+      continue;
+    }
+    if (spec.lineComment && rest.startsWith(spec.lineComment) && (spec.lineComment !== '#' || i === 0 || /\s/.test(line[i - 1]))) {
+      push('comment', rest);
+      break;
+    }
+    const quote = rest[0];
+    if (quote === '"' || quote === "'" || (quote === '`' && spec.backtickStrings)) {
+      let end = 1;
+      while (end < rest.length && rest[end] !== quote) {
+        end += rest[end] === '\\' ? 2 : 1;
+      }
+      push('string', rest.slice(0, end + 1));
+      i += end + 1;
+      continue;
+    }
+    const number = /^\w/.test(line[i - 1] ?? '') ? null : rest.match(NUMBER_PATTERN);
+    if (number) {
+      push('number', number[0]);
+      i += number[0].length;
+      continue;
+    }
+    const word = rest.match(WORD_PATTERN);
+    if (word) {
+      const text = word[0];
+      const key = caseInsensitive ? text.toLowerCase() : text;
+      if (literals.has(key) || literals.has(text)) push('literal', text);
+      else if (keywords.has(key)) push('keyword', text);
+      else if (spec.dollarVariables && text.startsWith('$')) push('variable', text);
+      else push('text', text);
+      i += text.length;
+      continue;
+    }
+    if (spec.dollarVariables && rest.startsWith('${')) {
+      const close = rest.indexOf('}');
+      const end = close === -1 ? rest.length : close + 1;
+      push('variable', rest.slice(0, end));
+      i += end;
+      continue;
+    }
+    push('text', rest[0]);
+    i += 1;
+  }
+  return tokens;
+};
+
+const TOKEN_STYLES: Record<CodeTokenType, (text: string) => string> = {
+  keyword: (text) => chalk.magenta(text),
+  string: (text) => chalk.green(text),
+  comment: (text) => chalk.gray(text),
+  number: (text) => chalk.yellow(text),
+  variable: (text) => chalk.cyan(text),
+  literal: (text) => chalk.yellow(text),
+  text: (text) => text,
+};
+
+export const highlightCodeLine = (line: string, language: string, state?: HighlightState): string =>
+  tokenizeCodeLine(line, language, state)
+    .map((token) => TOKEN_STYLES[token.type](token.text))
+    .join('');
+
+// SGR color codes as chalk writes them; built from a string so the pattern holds no literal control character.
+const ANSI_PATTERN = new RegExp('\u001b\\[[0-9;]*m', 'g');
+
+export const visibleWidth = (text: string): number => [...text.replace(ANSI_PATTERN, '')].length;
+
+/**
+ * Applies inline markdown: bold, italic, strikethrough, inline code and links.
+ * Code spans are rendered first so their contents are left alone.
+ */
+export const renderInline = (text: string): string =>
+  text
+    .split(/(`[^`]+`)/)
+    .map((part) => {
+      if (/^`[^`]+`$/.test(part)) return chalk.cyan(part.slice(1, -1));
+      return part
+        .replace(/!\[([^\]]*)\]\(([^)\s]+)[^)]*\)/g, (_, alt: string, url: string) => `${alt || 'image'} ${chalk.gray(`(${url})`)}`)
+        .replace(/\[([^\]]+)\]\(([^)\s]+)[^)]*\)/g, (_, label: string, url: string) => `${chalk.underline(label)} ${chalk.gray(`(${url})`)}`)
+        .replace(/(\*\*|__)(?=\S)(.+?)(?<=\S)\1/g, (_, __: string, inner: string) => chalk.bold(inner))
+        .replace(/(^|[^\w*])\*(?=\S)([^*]+?)(?<=\S)\*(?![\w*])/g, (_, before: string, inner: string) => `${before}${chalk.italic(inner)}`)
+        .replace(/(^|[^\w])_(?=\S)([^_]+?)(?<=\S)_(?!\w)/g, (_, before: string, inner: string) => `${before}${chalk.italic(inner)}`)
+        .replace(/~~(?=\S)(.+?)(?<=\S)~~/g, (_, inner: string) => chalk.strikethrough(inner))
+        .replace(/\[(\d+)\]/g, (marker) => chalk.gray(marker));
+    })
+    .join('');
+
+/**
+ * Whether inline markup in `text` is closed, so a prefix can be rendered without waiting for the rest of the line.
+ */
+export const inlineMarkupClosed = (text: string): boolean => {
+  if ((text.match(/`/g) ?? []).length % 2 !== 0) return false;
+  const outsideCode = text.replace(/`[^`]*`/g, '');
+  if ((outsideCode.match(/\*\*/g) ?? []).length % 2 !== 0) return false;
+  if ((outsideCode.match(/~~/g) ?? []).length % 2 !== 0) return false;
+  const singleStars = outsideCode.replace(/\*\*/g, '').replace(/\s\*\s/g, ' ').match(/\*/g) ?? [];
+  if (singleStars.length % 2 !== 0) return false;
+  const opens = (outsideCode.match(/\[/g) ?? []).length;
+  const closes = (outsideCode.match(/\]/g) ?? []).length;
+  if (opens !== closes) return false;
+  const links = outsideCode.match(/\]\([^)]*\)?/g) ?? [];
+  return links.every((link) => link.endsWith(')'));
+};
+
+type FlowLayout = {
+  /** Printed before the first visual line. */
+  prefix: string;
+  /** Printed before wrapped continuation lines, aligned under the content. */
+  indent: string;
+  content: string;
+  style: (text: string) => string;
+};
+
+const LIST_PATTERN = /^(\s*)([-*+]|\d+[.)])\s+(\[[ xX]\]\s+)?/;
+const QUOTE_PATTERN = /^(\s*>\s?)+/;
+const HEADING_PATTERN = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE_PATTERN = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const FENCE_PATTERN = /^\s*(```+|~~~+)\s*([\w+#.-]*)/;
+const TABLE_ROW_PATTERN = /^\s*\|/;
+
+const HEADING_STYLES = [
+  (text: string) => chalk.bold.underline.magentaBright(text),
+  (text: string) => chalk.bold.cyanBright(text),
+  (text: string) => chalk.bold.cyan(text),
+  (text: string) => chalk.bold(text),
+];
+
+/**
+ * Works out how a wrappable line (paragraph, list item, quote or heading) is laid out.
+ */
+const flowLayout = (line: string): FlowLayout => {
+  const heading = line.match(HEADING_PATTERN);
+  if (heading) {
+    const level = heading[1].length;
+    return { prefix: '', indent: '', content: heading[2], style: HEADING_STYLES[Math.min(level, HEADING_STYLES.length) - 1] };
+  }
+  const quote = line.match(QUOTE_PATTERN);
+  if (quote) {
+    const depth = (quote[0].match(/>/g) ?? []).length;
+    const bar = chalk.gray('│ '.repeat(depth));
+    return { prefix: bar, indent: bar, content: line.slice(quote[0].length), style: (text) => chalk.italic(text) };
+  }
+  const list = line.match(LIST_PATTERN);
+  if (list) {
+    const nesting = ' '.repeat(list[1].length);
+    const ordered = /\d/.test(list[2]);
+    const task = list[3] ? (/x/i.test(list[3]) ? '☑ ' : '☐ ') : '';
+    const marker = `${ordered ? list[2] : '•'} ${task}`;
+    return {
+      prefix: `${nesting}${chalk.cyan(marker)}`,
+      indent: `${nesting}${' '.repeat(visibleWidth(marker))}`,
+      content: line.slice(list[0].length),
+      style: (text) => text,
+    };
+  }
+  const leading = line.match(/^\s*/)?.[0] ?? '';
+  return { prefix: leading, indent: leading, content: line.slice(leading.length), style: (text) => text };
+};
+
+type TableAlignment = 'left' | 'right' | 'center';
+
+const splitTableRow = (row: string): string[] =>
+  row
+    .trim()
+    .replace(/^\|/, '')
+    .replace(/\|$/, '')
+    .split(/(?<!\\)\|/)
+    .map((cell) => cell.trim().replace(/\\\|/g, '|'));
+
+const padCell = (text: string, width: number, alignment: TableAlignment): string => {
+  const gap = Math.max(0, width - visibleWidth(text));
+  if (alignment === 'right') return `${' '.repeat(gap)}${text}`;
+  if (alignment === 'center') return `${' '.repeat(Math.floor(gap / 2))}${text}${' '.repeat(Math.ceil(gap / 2))}`;
+  return `${text}${' '.repeat(gap)}`;
+};
+
+/**
+ * Renders buffered `| a | b |` rows with aligned columns. A `|---|:--:|` row marks the header and alignment.
+ */
+export const renderTable = (rows: string[]): string => {
+  const parsed = rows.map(splitTableRow);
+  const separatorIndex = parsed.findIndex((cells) => cells.length > 0 && cells.every((cell) => /^:?-+:?$/.test(cell)));
+  const alignments: TableAlignment[] =
+    separatorIndex === -1
+      ? []
+      : parsed[separatorIndex].map((cell) =>
+          cell.startsWith(':') && cell.endsWith(':') ? 'center' : cell.endsWith(':') ? 'right' : 'left',
+        );
+  const body = parsed.filter((_, index) => index !== separatorIndex).map((cells) => cells.map(renderInline));
+  const columns = Math.max(...body.map((cells) => cells.length));
+  const widths = Array.from({ length: columns }, (_, column) =>
+    Math.max(...body.map((cells) => visibleWidth(cells[column] ?? ''))),
+  );
+  const renderRow = (cells: string[], header: boolean) =>
+    ` ${widths
+      .map((width, column) => {
+        const cell = padCell(cells[column] ?? '', width, alignments[column] ?? 'left');
+        return header ? chalk.bold(cell) : cell;
+      })
+      .join(chalk.gray(' │ '))}`;
+  const lines = body.map((cells, index) => renderRow(cells, separatorIndex === 1 && index === 0));
+  if (separatorIndex === 1) {
+    lines.splice(1, 0, chalk.gray(widths.map((width) => '─'.repeat(width + 2)).join('┼')));
+  }
+  return lines.map((line) => `${line}\n`).join('');
+};
+
+/**
+ * Creates a renderer that turns markdown into styled, wrapped terminal text as it arrives.
+ * Complete lines are rendered immediately; paragraphs and list items are also rendered word by word
+ * once their inline markup is closed, so streamed answers appear progressively. Code blocks are
+ * highlighted line by line, and tables are held back until their last row so columns can be aligned.
+ */
+export const createMarkdownRenderer = ({ width = process.stdout.columns ?? DEFAULT_WIDTH }: { width?: number } = {}): MarkdownRenderer => {
+  const maxWidth = Math.max(MIN_WIDTH, width);
+  let pending = '';
+  let fence: { marker: string; language: string; state: HighlightState } | undefined;
+  let table: string[] = [];
+  // A line whose beginning has already been written while it was still arriving.
+  let active: { layout: FlowLayout; consumed: number; column: number } | undefined;
+
+  const writeWords = (text: string, state: { column: number }, layout: FlowLayout): string => {
+    let out = '';
+    for (const word of layout.style(renderInline(text)).split(/ +/).filter(Boolean)) {
+      const wordWidth = visibleWidth(word);
+      const atLineStart = state.column <= visibleWidth(layout.indent) || state.column <= visibleWidth(layout.prefix);
+      if (!atLineStart && state.column + 1 + wordWidth > maxWidth) {
+        out += `\n${layout.indent}`;
+        state.column = visibleWidth(layout.indent);
+      } else if (!atLineStart) {
+        out += ' ';
+        state.column += 1;
+      }
+      out += word;
+      state.column += wordWidth;
+    }
+    return out;
+  };
+
+  const flushTable = (): string => {
+    if (table.length === 0) return '';
+    const out = renderTable(table);
+    table = [];
+    return out;
+  };
+
+  const renderLine = (line: string): string => {
+    if (fence) {
+      const closing = line.match(FENCE_PATTERN);
+      if (closing && closing[1].startsWith(fence.marker) && !closing[2]) {
+        fence = undefined;
+        return '';
+      }
+      return `${CODE_INDENT}${highlightCodeLine(line, fence.language, fence.state)}\n`;
+    }
+    if (TABLE_ROW_PATTERN.test(line)) {
+      table.push(line);
+      return '';
+    }
+    const before = flushTable();
+    const opening = line.match(FENCE_PATTERN);
+    if (opening) {
+      fence = { marker: opening[1], language: opening[2], state: { inBlockComment: false } };
+      return `${before}${opening[2] ? `${CODE_INDENT}${chalk.gray(opening[2])}\n` : ''}`;
+    }
+    if (!line.trim()) return `${before}\n`;
+    if (RULE_PATTERN.test(line)) return `${before}${chalk.gray('─'.repeat(maxWidth))}\n`;
+    const layout = flowLayout(line);
+    const state = { column: visibleWidth(layout.prefix) };
+    return `${before}${layout.prefix}${writeWords(layout.content, state, layout)}\n`;
+  };
+
+  const finishActive = (line: string): string => {
+    if (!active) return renderLine(line);
+    const { layout, consumed } = active;
+    const out = writeWords(line.slice(consumed), active, layout);
+    active = undefined;
+    return `${out}\n`;
+  };
+
+  // Renders complete words of an unfinished paragraph, list item or quote line.
+  const renderPartial = (): string => {
+    if (fence || table.length > 0 || !pending.trim()) return '';
+    const trimmed = pending.trimStart();
+    if (!active && (/^(```|~~~|\||#)/.test(trimmed) || /^([-*_])(\s*\1)*\s*$/.test(trimmed))) return '';
+    const layout = active?.layout ?? flowLayout(pending);
+    const start = active ? active.consumed : pending.length - layout.content.length;
+    const boundary = pending.search(/\s+\S*$/);
+    if (boundary <= start || !inlineMarkupClosed(pending.slice(start, boundary))) return '';
+    let out = '';
+    if (!active) {
+      active = { layout, consumed: start, column: visibleWidth(layout.prefix) };
+      out += layout.prefix;
+    }
+    out += writeWords(pending.slice(active.consumed, boundary), active, layout);
+    active.consumed = boundary;
+    return out;
+  };
+
+  return {
+    push: (text) => {
+      pending += text;
+      let out = '';
+      let newline = pending.indexOf('\n');
+      while (newline !== -1) {
+        out += finishActive(pending.slice(0, newline));
+        pending = pending.slice(newline + 1);
+        newline = pending.indexOf('\n');
+      }
+      return out + renderPartial();
+    },
+    end: () => {
+      let out = pending ? finishActive(pending) : '';
+      pending = '';
+      out += flushTable();
+      fence = undefined;
+      return out;
+    },
+  };
+};
+
+/**
+ * Renders a complete markdown document for the terminal.
+ */
+export const renderMarkdown = (markdown: string, options: { width?: number } = {}): string => {
+  const renderer = createMarkdownRenderer(options);
+  return `${renderer.push(markdown)}${renderer.end()}`.replace(/\n$/, '');
+};
@@ -0,0 +1,188 @@
+import { EnigmaConfig, ModelConfig, ModelDefinition } from './config.js';
+
+/** Context window assumed for models that do not declare one. */
+export const DEFAULT_CONTEXT_WINDOW = 127072;
+
+export type ModelPricing = {
+  /** USD per million input tokens. */
+  input: number;
+  /** USD per million output tokens. */
+  output: number;
+};
+
+export type ModelInfo = {
+  name: string;
+  description: string;
+  context_window: number;
+  streaming: boolean;
+  /** Emits its chain of thought in <think> blocks before the answer. */
+  reasoning: boolean;
+  pricing?: ModelPricing;
+  deprecated: boolean;
+  /** Model to use instead of a deprecated one. */
+  replacement?: string;
+  source: 'built-in' | 'custom';
+};
+
+const BUILT_IN_MODELS: Omit<ModelInfo, 'source'>[] = [
+  {
+    name: 'sonar',
+    description: 'Fast, lightweight search',
+    context_window: 127072,
+    streaming: true,
+    reasoning: false,
+    pricing: { input: 1, output: 1 },
+    deprecated: false,
+  },
+  {
+    name: 'sonar-pro',
+    description: 'Balanced reasoning and search',
+    context_window: 200000,
+    streaming: true,
+    reasoning: false,
+    pricing: { input: 3, output: 15 },
+    deprecated: false,
+  },
+  {
+    name: 'sonar-reasoning',
+    description: 'Chain-of-thought reasoning',
+    context_window: 127072,
+    streaming: true,
+    reasoning: true,
+    pricing: { input: 1, output: 5 },
+    deprecated: false,
+  },
+  {
+    name: 'sonar-reasoning-pro',
+    description: 'Advanced reasoning',
+    context_window: 127072,
+    streaming: true,
+    reasoning: true,
+    pricing: { input: 2, output: 8 },
+    deprecated: false,
+  },
+  {
+    name: 'sonar-reasoning-large',
+    description: 'Large context reasoning',
+    context_window: 127072,
+    streaming: true,
+    reasoning: true,
+    deprecated: true,
+    replacement: 'sonar-reasoning-pro',
+  },
+  {
+    name: 'sonar-deep-research',
+    description: 'Comprehensive multi-step research',
+    context_window: 127072,
+    streaming: true,
+    reasoning: true,
+    pricing: { input: 2, output: 8 },
+    deprecated: false,
+  },
+  {
+    name: 'sonar-large',
+    description: 'Large context model',
+    context_window: 127072,
+    streaming: true,
+    reasoning: false,
+    deprecated: true,
+    replacement: 'sonar-pro',
+  },
+];
+
+const toPricing = (pricing: ModelDefinition['pricing'], fallback?: ModelPricing): ModelPricing | undefined => {
+  if (!pricing) return fallback;
+  return { input: Number(pricing.input ?? fallback?.input ?? 0), output: Number(pricing.output ?? fallback?.output ?? 0) };
+};
+
+/**
+ * Lists the built-in models followed by those declared under `custom_models:` in .pplxrc.
+ * A custom entry with a built-in name overrides that model's metadata.
+ */
+export const listModels = (config: EnigmaConfig): ModelInfo[] => {
+  const models = new Map<string, ModelInfo>(BUILT_IN_MODELS.map((model) => [model.name, { ...model, source: 'built-in' }]));
+  for (const [name, definition] of Object.entries(config.custom_models ?? {})) {
+    const base = models.get(name);
+    const declared: ModelDefinition = definition ?? {};
+    models.set(name, {
+      name,
+      description: declared.description ?? base?.description ?? '',
+      context_window: Number(declared.context_window ?? base?.context_window ?? DEFAULT_CONTEXT_WINDOW),
+      streaming: declared.streaming ?? base?.streaming ?? true,
+      reasoning: declared.reasoning ?? base?.reasoning ?? false,
+      pricing: toPricing(declared.pricing, base?.pricing),
+      deprecated: declared.deprecated ?? base?.deprecated ?? false,
+      replacement: declared.replacement ?? base?.replacement,
+      source: 'custom',
+    });
+  }
+  return [...models.values()];
+};
+
+export const findModel = (name: string, config: EnigmaConfig): ModelInfo | undefined =>
+  listModels(config).find((model) => model.name === name);
+
+export const modelNames = (config: EnigmaConfig): string[] => listModels(config).map((model) => model.name);
+
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/**
+ * Suggests known model names close to a mistyped one: small edit distance, or one name containing the other.
+ * Deprecated models are only suggested when nothing current matches.
+ */
+export const suggestModelNames = (name: string, config: EnigmaConfig, limit = 3): string[] => {
+  const wanted = name.toLowerCase();
+  const threshold = Math.max(2, Math.floor(wanted.length / 3));
+  const scored = listModels(config)
+    .map((model) => {
+      const candidate = model.name.toLowerCase();
+      const distance = editDistance(wanted, candidate);
+      const related = candidate.includes(wanted) || wanted.includes(candidate);
+      return { model, score: related ? Math.min(distance, threshold) : distance };
+    })
+    .filter(({ score }) => score <= threshold)
+    .sort((a, b) => Number(a.model.deprecated) - Number(b.model.deprecated) || a.score - b.score);
+  return scored.slice(0, limit).map(({ model }) => model.name);
+};
+
+export const supportsStreaming = (name: string, config: EnigmaConfig): boolean => findModel(name, config)?.streaming ?? true;
+
+/**
+ * Roles under `models:` that currently use the given model.
+ */
+export const rolesForModel = (name: string, config: EnigmaConfig): (keyof ModelConfig)[] =>
+  (Object.keys(config.models) as (keyof ModelConfig)[]).filter((role) => config.models[role] === name);
+
+const formatTokens = (tokens: number): string => (tokens >= 1000 ? `${Math.round(tokens / 1000)}k` : String(tokens));
+
+const formatPricing = (pricing: ModelPricing | undefined): string =>
+  pricing ? `$${pricing.input}/$${pricing.output} per 1M` : 'pricing unknown';
+
+/**
+ * One-line summary of a model's capabilities for `enigma models`.
+ */
+export const describeModel = (model: ModelInfo, config: EnigmaConfig): string => {
+  const capabilities = [
+    `${formatTokens(model.context_window)} context`,
+    model.streaming ? 'streaming' : 'no streaming',
+    ...(model.reasoning ? ['reasoning'] : []),
+    formatPricing(model.pricing),
+  ];
+  const notes = [
+    ...(model.source === 'custom' ? ['custom'] : []),
+    ...(model.deprecated ? [`deprecated${model.replacement ? `, use ${model.replacement}` : ''}`] : []),
+    ...rolesForModel(model.name, config).map((role) => `models.${role}`),
+  ];
+  return `${model.name.padEnd(24)} ${capabilities.join(', ')}${notes.length > 0 ? ` [${notes.join('; ')}]` : ''}`;
+};
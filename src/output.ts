@@ -0,0 +1,123 @@
+import fs from 'fs';
+import path from 'path';
+import { formatCitations } from './perplexity.js';
+import { AnswerOutput, OutputFormat, renderJsonAnswer, renderPlainAnswer } from './render.js';
+
+export type CodeBlock = {
+  /** Language from the opening fence, lowercased; empty when the fence names none. */
+  language: string;
+  code: string;
+};
+
+const FENCE_PATTERN = /^(\s*)(```+|~~~+)\s*([\w+#.-]*)/;
+
+/**
+ * Collects the fenced code blocks in a markdown answer. The fence's own indentation is removed
+ * from each line (as when a block sits inside a list item); everything else is kept verbatim.
+ * A block left open at the end of the answer runs to the end.
+ */
+export const extractCodeBlocks = (markdown: string): CodeBlock[] => {
+  const blocks: CodeBlock[] = [];
+  let open: { indent: number; marker: string; language: string; lines: string[] } | undefined;
+  for (const line of markdown.split('\n')) {
+    const fence = line.match(FENCE_PATTERN);
+    if (!open) {
+      if (fence) open = { indent: fence[1].length, marker: fence[2], language: fence[3].toLowerCase(), lines: [] };
+      continue;
+    }
+    if (fence && fence[2].startsWith(open.marker) && !fence[3]) {
+      blocks.push({ language: open.language, code: open.lines.join('\n') });
+      open = undefined;
+      continue;
+    }
+    const indent = line.length - line.trimStart().length;
+    open.lines.push(line.slice(Math.min(indent, open.indent)));
+  }
+  if (open) blocks.push({ language: open.language, code: open.lines.join('\n') });
+  return blocks;
+};
+
+const EXTENSIONS: Record<string, string> = {
+  javascript: 'js', js: 'js', node: 'js', mjs: 'mjs', cjs: 'cjs', jsx: 'jsx',
+  typescript: 'ts', ts: 'ts', tsx: 'tsx',
+  python: 'py', python3: 'py', py: 'py',
+  shell: 'sh', sh: 'sh', bash: 'sh', zsh: 'sh', console: 'sh', shellscript: 'sh',
+  powershell: 'ps1', pwsh: 'ps1', ps: 'ps1', ps1: 'ps1',
+  batch: 'bat', bat: 'bat', cmd: 'cmd',
+  json: 'json', jsonc: 'json', json5: 'json5',
+  yaml: 'yaml', yml: 'yaml', toml: 'toml', ini: 'ini', xml: 'xml', html: 'html', css: 'css',
+  go: 'go', golang: 'go', rust: 'rs', rs: 'rs',
+  c: 'c', h: 'h', cpp: 'cpp', 'c++': 'cpp', hpp: 'hpp', csharp: 'cs', cs: 'cs',
+  java: 'java', kotlin: 'kt', kt: 'kt', swift: 'swift', ruby: 'rb', rb: 'rb', php: 'php',
+  sql: 'sql', postgres: 'sql', postgresql: 'sql', mysql: 'sql', sqlite: 'sql',
+  markdown: 'md', md: 'md', dockerfile: 'dockerfile', makefile: 'mk',
+};
+
+/**
+ * File extension for a fence language. Unknown but file-safe names are used as-is; no language gives "txt".
+ */
+export const extensionForLanguage = (language: string): string => {
+  const name = language.toLowerCase();
+  if (EXTENSIONS[name]) return EXTENSIONS[name];
+  return /^[a-z0-9]+$/.test(name) ? name : 'txt';
+};
+
+/**
+ * Whether a block is in the requested language, treating aliases alike ("ts" matches "typescript").
+ */
+export const matchesLanguage = (block: CodeBlock, wanted: string): boolean =>
+  block.language === wanted.toLowerCase() || (block.language !== '' && extensionForLanguage(block.language) === extensionForLanguage(wanted));
+
+/**
+ * The answer as written by --output, in the same format as it is printed.
+ */
+export const renderAnswerFile = (output: AnswerOutput, format: OutputFormat, { showThinking = false } = {}): string => {
+  switch (format) {
+    case 'json':
+      return `${renderJsonAnswer(output)}\n`;
+    case 'plain':
+      return `${renderPlainAnswer(output, { showThinking })}\n`;
+    case 'markdown':
+    default: {
+      const sources = formatCitations(output.citations);
+      return `${output.answer}${sources ? `\n\n${sources}` : ''}\n`;
+    }
+  }
+};
+
+export const writeOutputFile = (filePath: string, content: string) => {
+  fs.mkdirSync(path.dirname(path.resolve(filePath)), { recursive: true });
+  fs.writeFileSync(filePath, content, 'utf-8');
+};
+
+const isDirectoryTarget = (target: string): boolean =>
+  target.endsWith('/') || target.endsWith(path.sep) || (fs.existsSync(target) && fs.statSync(target).isDirectory());
+
+// First snippet-<n>.<ext> in the directory that does not exist yet, so earlier extractions are never overwritten.
+const nextFreePath = (directory: string, extension: string, start: number): { filePath: string; next: number } => {
+  let index = start;
+  while (fs.existsSync(path.join(directory, `snippet-${index}.${extension}`))) index++;
+  return { filePath: path.join(directory, `snippet-${index}.${extension}`), next: index + 1 };
+};
+
+/**
+ * Writes code blocks for --extract-code and returns the paths written.
+ * A file target receives all blocks concatenated; a directory target (or the current directory when
+ * there is no target) receives one snippet-<n>.<ext> per block, named by the block's language.
+ */
+export const writeCodeBlocks = (blocks: CodeBlock[], target?: string): string[] => {
+  if (blocks.length === 0) return [];
+  if (target && !isDirectoryTarget(target)) {
+    writeOutputFile(target, `${blocks.map((block) => block.code).join('\n\n')}\n`);
+    return [target];
+  }
+  const directory = target ?? process.cwd();
+  fs.mkdirSync(directory, { recursive: true });
+  let next = 1;
+  return blocks.map((block) => {
+    const free = nextFreePath(directory, extensionForLanguage(block.language), next);
+    next = free.next;
+    fs.writeFileSync(free.filePath, `${block.code}\n`, 'utf-8');
+    return free.filePath;
+  });
+};
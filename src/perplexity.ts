@@ -1,11 +1,132 @@
 import axios from 'axios';
 import Ora from 'ora';
 import chalk from 'chalk';
-import { EnigmaConfig, resolveApiKey, validateModelName, AVAILABLE_MODELS } from './config.js';
+import { defaultConfig, EnigmaConfig, normalizeDomain, resolveApiKey, SearchRecency } from './config.js';
+import { renderMarkdown } from './markdown.js';
+import { listModels } from './models.js';
+import { createThinkingParser, splitThinking } from './thinking.js';
+import { redactHeaders, trace } from './trace.js';
+import { enforceBudget, recordUsage, toUsageEntry, UsageEntry } from './usage.js';
+
+export type ChatMessage = {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+};
+
+/**
+ * Per-request overrides of the search filters under `research:` in .pplxrc.
+ */
+export type SearchFilters = {
+  recency?: SearchRecency | 'any';
+  allowedDomains?: string[];
+  blockedDomains?: string[];
+  /** YYYY-MM-DD */
+  afterDate?: string;
+  /** YYYY-MM-DD */
+  beforeDate?: string;
+};
 
 export type AskOptions = {
   model?: string;
   searchMode?: 'low' | 'medium' | 'high';
+  /** Prior conversation turns, oldest first, sent ahead of the new question. */
+  history?: ChatMessage[];
+  /** System message (e.g. from a persona) sent before everything else. */
+  systemPrompt?: string;
+  /** Overrides agent.temperature for this request. */
+  temperature?: number;
+  /** JSON Schema the answer must conform to, sent as `response_format`. */
+  responseSchema?: Record<string, unknown>;
+  filters?: SearchFilters;
+};
+
+/** Most domains the API accepts in `search_domain_filter`, allowed and blocked together. */
+const MAX_FILTER_DOMAINS = 20;
+
+// The API expects MM/DD/YYYY.
+const toApiDate = (date: string): string => {
+  const [year, month, day] = date.split('-');
+  return `${month}/${day}/${year}`;
+};
+
+/**
+ * Turns the configured search filters, overridden by the request's, into API parameters.
+ * A date range replaces the recency filter, and `focus_on_recent` only applies when neither is set.
+ */
+export const buildSearchFilters = (config: EnigmaConfig, filters: SearchFilters = {}): Record<string, unknown> => {
+  const research = config.research;
+  const allowed = (filters.allowedDomains ?? research.allowed_domains ?? []).map(normalizeDomain).filter(Boolean);
+  const blocked = (filters.blockedDomains ?? research.blocked_domains ?? []).map(normalizeDomain).filter(Boolean);
+  if (allowed.length + blocked.length > MAX_FILTER_DOMAINS) {
+    throw new Error(`At most ${MAX_FILTER_DOMAINS} domains can be allowed or blocked per request (got ${allowed.length + blocked.length}).`);
+  }
+  const afterDate = filters.afterDate ?? research.after_date ?? '';
+  const beforeDate = filters.beforeDate ?? research.before_date ?? '';
+  if (afterDate && beforeDate && afterDate > beforeDate) {
+    throw new Error(`The search date range is empty: ${afterDate} is after ${beforeDate}.`);
+  }
+  const recency = filters.recency ?? research.recency ?? 'any';
+  const effectiveRecency = afterDate || beforeDate ? 'any' : recency === 'any' && research.focus_on_recent ? 'year' : recency;
+
+  return {
+    ...(effectiveRecency !== 'any' ? { search_recency_filter: effectiveRecency } : {}),
+    ...(allowed.length + blocked.length > 0 ? { search_domain_filter: [...allowed, ...blocked.map((domain) => `-${domain}`)] } : {}),
+    ...(afterDate ? { search_after_date_filter: toApiDate(afterDate) } : {}),
+    ...(beforeDate ? { search_before_date_filter: toApiDate(beforeDate) } : {}),
+  };
+};
+
+/**
+ * A source the answer was based on. `[n]` markers in the answer refer to the n-th citation.
+ */
+export type Citation = {
+  url: string;
+  title?: string;
+  date?: string;
+};
+
+export type TokenUsage = {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  /** Web searches the API ran for the answer, when it reports them. */
+  searchQueries?: number;
+};
+
+export type AnswerTiming = {
+  /** From sending the request until the answer was complete. */
+  totalMs: number;
+  /** Until the first streamed token arrived; only set for streaming requests. */
+  firstTokenMs?: number;
+};
+
+export type PerplexityAnswer = {
+  /** The answer, without any <think> sections. */
+  content: string;
+  /** Reasoning from <think> sections, when the model produced any. */
+  thinking?: string;
+  citations: Citation[];
+  /** Model reported by the API, when it reports one. */
+  model?: string;
+  usage?: TokenUsage;
+  timing: AnswerTiming;
+};
+
+/**
+ * Builds the message list for a request: an optional system prompt, prior turns, then the new user question.
+ * Only role and content are sent, so stored history can carry extra metadata. The API accepts a single
+ * leading system message, so a system prompt is merged with one already at the start of the history.
+ */
+export const buildMessages = (question: string, history: ChatMessage[] = [], systemPrompt?: string): ChatMessage[] => {
+  const messages: ChatMessage[] = history.map(({ role, content }) => ({ role, content }));
+  if (systemPrompt) {
+    if (messages[0]?.role === 'system') {
+      messages[0] = { role: 'system', content: `${systemPrompt}\n\n${messages[0].content}` };
+    } else {
+      messages.unshift({ role: 'system', content: systemPrompt });
+    }
+  }
+  return [...messages, { role: 'user', content: question }];
 };
 
 /**
@@ -18,120 +139,295 @@ export const buildApiPayload = (
   options: AskOptions,
   streaming: boolean = false
 ): Record<string, unknown> => {
-  const validatedModel = validateModelName(options.model, config).model;
-  
   return {
-    model: validatedModel,
-    messages: [{ role: 'user', content: question }],
+    // Commands validate the model where they resolve it (see validateModelName)
+    model: options.model ?? config.models.default,
+    messages: buildMessages(question, options.history, options.systemPrompt),
     stream: streaming,
     // Research config
     search_mode: options.searchMode ?? config.research.search_mode,
+    ...buildSearchFilters(config, options.filters),
     // Agent config - wired to API payload
-    temperature: config.agent.temperature,
+    temperature: options.temperature ?? config.agent.temperature,
     max_tokens: config.agent.max_tokens,
     top_p: config.agent.top_p,
+    ...(options.responseSchema ? { response_format: { type: 'json_schema', json_schema: { schema: options.responseSchema } } } : {}),
   };
 };
 
+// API bodies and stream chunks are untyped JSON; fields are read through these and checked before use.
+const asRecord = (value: unknown): Record<string, unknown> | undefined =>
+  value !== null && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : undefined;
+
+// `choices[0].message.content` of a response body, or `choices[0].delta.content` of a stream chunk.
+const choiceContent = (data: unknown, field: 'message' | 'delta'): unknown => {
+  const choices = asRecord(data)?.choices;
+  return Array.isArray(choices) ? asRecord(asRecord(choices[0])?.[field])?.content : undefined;
+};
+
 /**
- * Non-streaming request to Perplexity API.
+ * Collects sources from a response body or stream chunk. `citations` holds URLs in the order the
+ * answer's `[n]` markers use; `search_results` adds titles and dates. Either may be missing.
  */
-export const askPerplexity = async (
+export const extractCitations = (data: unknown): Citation[] => {
+  const body = asRecord(data);
+  const searchResults = Array.isArray(body?.search_results) ? body.search_results : [];
+  const results: Citation[] = searchResults.flatMap((item: unknown) => {
+    const result = asRecord(item);
+    if (typeof result?.url !== 'string') return [];
+    return [
+      {
+        url: result.url,
+        ...(typeof result.title === 'string' && result.title ? { title: result.title } : {}),
+        ...(typeof result.date === 'string' && result.date ? { date: result.date } : {}),
+      },
+    ];
+  });
+  const urls = Array.isArray(body?.citations) ? body.citations.filter((url: unknown): url is string => typeof url === 'string') : [];
+  if (urls.length === 0) return results;
+  return urls.map((url) => results.find((result) => result.url === url) ?? { url });
+};
+
+/**
+ * Reads token counts from a response body or the final stream chunk.
+ */
+export const extractUsage = (data: unknown): TokenUsage | undefined => {
+  const usage = asRecord(asRecord(data)?.usage);
+  if (!usage) return undefined;
+  const promptTokens = Number(usage.prompt_tokens ?? 0);
+  const completionTokens = Number(usage.completion_tokens ?? 0);
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: Number(usage.total_tokens ?? promptTokens + completionTokens),
+    ...(typeof usage.num_search_queries === 'number' ? { searchQueries: usage.num_search_queries } : {}),
+  };
+};
+
+/**
+ * Posts a chat completion request, tracing the request, the response status, latency and headers
+ * (or the failure) when verbose output is on.
+ */
+const postCompletion = async (
+  config: EnigmaConfig,
+  payload: Record<string, unknown>,
+  headers: Record<string, string>,
+  extra: { responseType?: 'stream' } = {},
+) => {
+  const url = `${config.api.base_url}/chat/completions`;
+  trace(config, `POST ${url}`, { headers: redactHeaders(headers), payload });
+  const started = Date.now();
+  try {
+    const response = await axios.post(url, payload, { headers, timeout: config.api.timeout, ...extra });
+    trace(config, 'Response', { status: response.status, latencyMs: Date.now() - started, headers: redactHeaders(response.headers) });
+    return response;
+  } catch (error) {
+    const response = axios.isAxiosError(error) ? error.response : undefined;
+    trace(config, 'Request failed', {
+      status: response?.status ?? null,
+      latencyMs: Date.now() - started,
+      error: (error as Error).message,
+      headers: redactHeaders(response?.headers),
+      ...(extra.responseType === 'stream' ? {} : { body: response?.data ?? null }),
+    });
+    throw error;
+  }
+};
+
+let warnedUsageWrite = false;
+
+// The request is already paid for, so a ledger that cannot be written (read-only home, full disk) only warns, once.
+const recordUsageSafely = (entry: UsageEntry, config: EnigmaConfig) => {
+  try {
+    recordUsage(entry, config);
+  } catch (error) {
+    if (warnedUsageWrite) return;
+    warnedUsageWrite = true;
+    console.error(chalk.yellow(`Could not record usage in ~/.enigma/usage.jsonl: ${(error as Error).message}`));
+  }
+};
+
+/**
+ * Non-streaming request to Perplexity API, resolving with the answer, its sources, usage and timing.
+ */
+export const requestAnswer = async (
   question: string,
   config: EnigmaConfig,
   options: AskOptions = {},
-): Promise<string> => {
+): Promise<PerplexityAnswer> => {
   const apiKey = resolveApiKey(config);
   if (!apiKey) {
     throw new Error('API key not found. Run "enigma config" to set it up.');
   }
 
+  enforceBudget(config);
   const payload = buildApiPayload(question, config, options, false);
+  const started = Date.now();
 
-  const response = await axios.post(`${config.api.base_url}/chat/completions`, payload, {
-    headers: {
-      Authorization: `Bearer ${apiKey}`,
-      'Content-Type': 'application/json',
-    },
-    timeout: config.api.timeout,
+  const response = await postCompletion(config, payload, {
+    Authorization: `Bearer ${apiKey}`,
+    'Content-Type': 'application/json',
   });
 
-  const content = response.data?.choices?.[0]?.message?.content;
+  const timing = { totalMs: Date.now() - started };
+  const body: unknown = response.data;
+  const model = asRecord(body)?.model;
+  const usage = extractUsage(body);
+  trace(config, 'Usage', usage ?? 'not reported');
+  recordUsageSafely(toUsageEntry(typeof model === 'string' ? model : String(payload.model), usage, timing.totalMs, config), config);
+  const content = choiceContent(body, 'message');
   if (typeof content === 'string') {
-    return content.trim();
+    const { thinking, answer } = splitThinking(content);
+    return {
+      content: answer,
+      thinking: thinking || undefined,
+      citations: extractCitations(body),
+      model: typeof model === 'string' ? model : undefined,
+      usage,
+      timing,
+    };
   }
 
-  return JSON.stringify(response.data, null, 2);
+  return { content: JSON.stringify(body, null, 2), citations: [], model: typeof model === 'string' ? model : undefined, usage, timing };
 };
 
 /**
- * Parses a Server-Sent Events (SSE) line and extracts the content delta.
- * Returns the content string if present, null for keep-alive or non-content messages,
- * or 'done' if the stream is complete.
+ * Non-streaming request to Perplexity API.
  */
-export const parseSSELine = (line: string): string | null | 'done' => {
-  if (!line || line.trim() === '') {
-    return null;
-  }
-  
-  if (line.startsWith(':')) {
-    // SSE comment (keep-alive)
-    return null;
-  }
-  
-  if (!line.startsWith('data: ')) {
+export const askPerplexity = async (
+  question: string,
+  config: EnigmaConfig,
+  options: AskOptions = {},
+): Promise<string> => (await requestAnswer(question, config, options)).content;
+
+/**
+ * Parses a Server-Sent Events (SSE) line into its JSON chunk.
+ * Returns null for keep-alives, non-data lines and malformed JSON, or 'done' when the stream is complete.
+ */
+export const parseSSEChunk = (line: string): Record<string, unknown> | null | 'done' => {
+  if (!line || !line.startsWith('data: ')) {
     return null;
   }
-  
-  const data = line.slice(6); // Remove 'data: ' prefix
-  
+  const data = line.slice(6).trim();
   if (data === '[DONE]') {
     return 'done';
   }
-  
   try {
-    const parsed = JSON.parse(data);
-    const delta = parsed?.choices?.[0]?.delta?.content;
-    if (typeof delta === 'string') {
-      return delta;
-    }
-    return null;
+    return asRecord(JSON.parse(data)) ?? null;
   } catch {
-    // JSON parse error - skip this chunk
     return null;
   }
 };
 
+/**
+ * Parses a Server-Sent Events (SSE) line and extracts the content delta.
+ * Returns the content string if present, null for keep-alive or non-content messages,
+ * or 'done' if the stream is complete.
+ */
+export const parseSSELine = (line: string): string | null | 'done' => {
+  const chunk = parseSSEChunk(line);
+  if (chunk === null || chunk === 'done') {
+    return chunk;
+  }
+  const delta = choiceContent(chunk, 'delta');
+  return typeof delta === 'string' ? delta : null;
+};
+
 /**
  * Streaming request to Perplexity API with progressive terminal output.
  * Uses Server-Sent Events (SSE) to receive incremental responses.
+ * Answer deltas are passed to `onDelta` (written to stdout by default) and reasoning from <think>
+ * sections to `onThinking`, even when a tag is split across chunks. Resolves with the full answer
+ * plus the sources and usage from the latest chunk that carried them (usually the final one).
  */
-export const askPerplexityStreaming = async (
+export const streamAnswer = async (
   question: string,
   config: EnigmaConfig,
   options: AskOptions = {},
-): Promise<void> => {
+  onDelta: (delta: string) => void = (delta) => process.stdout.write(delta),
+  onThinking: (delta: string) => void = () => undefined,
+): Promise<PerplexityAnswer> => {
   const apiKey = resolveApiKey(config);
   if (!apiKey) {
     throw new Error('API key not found. Run "enigma config" to set it up.');
   }
 
+  enforceBudget(config);
   const payload = buildApiPayload(question, config, options, true);
+  const started = Date.now();
 
-  const response = await axios.post(`${config.api.base_url}/chat/completions`, payload, {
-    headers: {
+  const response = await postCompletion(
+    config,
+    payload,
+    {
       Authorization: `Bearer ${apiKey}`,
       'Content-Type': 'application/json',
       'Accept': 'text/event-stream',
     },
-    timeout: config.api.timeout,
-    responseType: 'stream',
-  });
+    { responseType: 'stream' },
+  );
 
-  return new Promise<void>((resolve, reject) => {
+  return new Promise<PerplexityAnswer>((resolve, reject) => {
     let buffer = '';
+    let answer = '';
+    let thinking = '';
+    let citations: Citation[] = [];
+    let model: string | undefined;
+    let usage: TokenUsage | undefined;
+    let firstTokenMs: number | undefined;
+    // [DONE] and the end of the stream both finish it; usage is recorded and the promise settled only once
+    let settled = false;
+    const parser = createThinkingParser();
+    const emit = (parts: { thinking: string; answer: string }) => {
+      if (parts.thinking) {
+        thinking += parts.thinking;
+        onThinking(parts.thinking);
+      }
+      if (parts.answer) {
+        answer += parts.answer;
+        onDelta(parts.answer);
+      }
+    };
+    const finish = () => {
+      if (settled) return;
+      settled = true;
+      emit(parser.end());
+      trace(config, 'Usage', usage ?? 'not reported');
+      trace(config, 'Timing', { totalMs: Date.now() - started, firstTokenMs: firstTokenMs ?? null });
+      recordUsageSafely(toUsageEntry(model ?? String(payload.model), usage, Date.now() - started, config), config);
+      resolve({
+        content: answer.trim(),
+        thinking: thinking.trim() || undefined,
+        citations,
+        model,
+        usage,
+        timing: { totalMs: Date.now() - started, firstTokenMs },
+      });
+    };
+
+    // Returns true once the stream reports it is complete.
+    const handleLine = (line: string): boolean => {
+      const chunk = parseSSEChunk(line);
+      if (chunk === 'done') return true;
+      if (chunk === null) return false;
+      const delta = choiceContent(chunk, 'delta');
+      if (typeof delta === 'string' && delta) {
+        firstTokenMs ??= Date.now() - started;
+        emit(parser.push(delta));
+      }
+      const chunkCitations = extractCitations(chunk);
+      if (chunkCitations.length > 0) {
+        citations = chunkCitations;
+      }
+      if (typeof chunk.model === 'string') {
+        model = chunk.model;
+      }
+      usage = extractUsage(chunk) ?? usage;
+      return false;
+    };
     
     response.data.on('data', (chunk: Buffer) => {
+      if (settled) return;
       buffer += chunk.toString();
       
       // Process complete lines
@@ -139,34 +435,39 @@ export const askPerplexityStreaming = async (
       buffer = lines.pop() || ''; // Keep incomplete line in buffer
       
       for (const line of lines) {
-        const result = parseSSELine(line);
-        if (result === 'done') {
-          resolve();
+        if (handleLine(line)) {
+          finish();
           return;
         }
-        if (result !== null) {
-          process.stdout.write(result);
-        }
       }
     });
     
     response.data.on('end', () => {
       // Process any remaining buffer
-      if (buffer.trim()) {
-        const result = parseSSELine(buffer);
-        if (result !== null && result !== 'done') {
-          process.stdout.write(result);
-        }
+      if (!settled && buffer.trim()) {
+        handleLine(buffer);
       }
-      resolve();
+      finish();
     });
     
     response.data.on('error', (error: Error) => {
+      if (settled) return;
+      settled = true;
       reject(new Error(`Stream interrupted: ${error.message}`));
     });
   });
 };
 
+/**
+ * Streaming request that resolves with just the answer text; see `streamAnswer`.
+ */
+export const askPerplexityStreaming = async (
+  question: string,
+  config: EnigmaConfig,
+  options: AskOptions = {},
+  onDelta: (delta: string) => void = (delta) => process.stdout.write(delta),
+): Promise<string> => (await streamAnswer(question, config, options, onDelta)).content;
+
 export const withSpinner = async <T>(message: string, fn: () => Promise<T>): Promise<T> => {
   const spinner = Ora(message).start();
   try {
@@ -209,11 +510,41 @@ export const formatError = (error: unknown): string => {
   return JSON.stringify(error);
 };
 
-export const printAnswer = (answer: string) => {
+/**
+ * Renders sources as numbered footnotes matching the answer's `[n]` markers.
+ */
+export const formatCitations = (citations: Citation[]): string => {
+  if (citations.length === 0) return '';
+  const lines = citations.map((citation, index) => {
+    const label = citation.title ? `${citation.title} - ${citation.url}` : citation.url;
+    return `[${index + 1}] ${label}${citation.date ? ` (${citation.date})` : ''}`;
+  });
+  return ['Sources:', ...lines].join('\n');
+};
+
+export const printCitations = (citations: Citation[]) => {
+  if (citations.length === 0) return;
+  console.log(chalk.gray(formatCitations(citations)));
+  console.log('');
+};
+
+/**
+ * Prints an answer, rendering its markdown when stdout is a terminal and leaving it raw when piped.
+ * Reasoning, when given, is printed dimmed above the answer.
+ */
+export const printAnswer = (answer: string, citations: Citation[] = [], thinking?: string) => {
   console.log(chalk.greenBright('\n=== Perplexity ===\n'));
-  console.log(answer);
+  if (thinking) {
+    console.log(chalk.dim(thinking));
+    console.log('');
+  }
+  console.log(process.stdout.isTTY ? renderMarkdown(answer) : answer);
   console.log('\n');
+  printCitations(citations);
 };
 
-export const availableModelsMessage = () =>
-  `Available models: ${AVAILABLE_MODELS.join(', ')}. Set a model with --model or in .pplxrc.`;
+export const availableModelsMessage = (config: EnigmaConfig = defaultConfig) =>
+  `Available models: ${listModels(config)
+    .filter((model) => !model.deprecated)
+    .map((model) => model.name)
+    .join(', ')}. Set a model with --model or in .pplxrc; run "enigma models" for details.`;
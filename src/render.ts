@@ -0,0 +1,216 @@
+import chalk from 'chalk';
+import { OutputConfig } from './config.js';
+import { createMarkdownRenderer } from './markdown.js';
+import { AnswerTiming, Citation, formatCitations, PerplexityAnswer, printAnswer, printCitations, TokenUsage } from './perplexity.js';
+
+export type OutputFormat = OutputConfig['format'];
+
+/**
+ * Everything known about an answer once it is complete. `--format json` prints exactly these fields.
+ */
+export type AnswerOutput = {
+  answer: string;
+  /** Reasoning from <think> sections; printed only with --show-thinking, always kept in JSON. */
+  thinking: string | null;
+  model: string;
+  citations: Citation[];
+  usage: TokenUsage | null;
+  timing: AnswerTiming;
+};
+
+export type AnswerStream = {
+  write: (delta: string) => void;
+  writeThinking: (delta: string) => void;
+  /** Flushes anything still buffered once the stream is complete. */
+  end: () => void;
+};
+
+/**
+ * Builds the output for an answer. `model` is the model that was requested, used when the API does not name one.
+ */
+export const toAnswerOutput = (answer: PerplexityAnswer, model: string, includeCitations: boolean): AnswerOutput => ({
+  answer: answer.content,
+  thinking: answer.thinking ?? null,
+  model: answer.model ?? model,
+  citations: includeCitations ? answer.citations : [],
+  usage: answer.usage ?? null,
+  timing: answer.timing,
+});
+
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+
+const stripInlineMarkdown = (line: string): string =>
+  line
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\(([^)\s]+)[^)]*\)/g, '$1 ($2)')
+    .replace(/(\*\*|__)(?=\S)(.+?)(?<=\S)\1/g, '$2')
+    .replace(/(^|[^\w*])\*(?=\S)([^*]+?)(?<=\S)\*(?![\w*])/g, '$1$2')
+    .replace(/(^|[^\w])_(?=\S)([^_]+?)(?<=\S)_(?!\w)/g, '$1$2')
+    .replace(/~~(?=\S)(.+?)(?<=\S)~~/g, '$1')
+    .replace(/`([^`]+)`/g, '$1');
+
+/**
+ * Strips markdown from one line. Code fences are dropped and the lines inside them kept verbatim,
+ * so the state tracks whether the previous lines opened a fence.
+ */
+const stripMarkdownLine = (line: string, state: { inFence: boolean }): string | undefined => {
+  if (FENCE_PATTERN.test(line)) {
+    state.inFence = !state.inFence;
+    return undefined;
+  }
+  if (state.inFence) return line;
+  if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) return '';
+  return stripInlineMarkdown(
+    line
+      .replace(/^\s{0,3}#{1,6}\s+/, '')
+      .replace(/^\s*>\s?/, '')
+      .replace(/^(\s*)[*+]\s+/, '$1- '),
+  );
+};
+
+/**
+ * Converts markdown to plain text: no headings, emphasis, code fences or link syntax.
+ * Link targets are kept in parentheses since plain output has nowhere else to show them.
+ */
+export const stripMarkdown = (text: string): string => {
+  const state = { inFence: false };
+  return text
+    .split('\n')
+    .map((line) => stripMarkdownLine(line, state))
+    .filter((line): line is string => line !== undefined)
+    .join('\n');
+};
+
+export const renderJsonAnswer = (output: AnswerOutput): string =>
+  JSON.stringify(
+    {
+      answer: output.answer,
+      thinking: output.thinking,
+      model: output.model,
+      citations: output.citations,
+      usage: output.usage,
+      timing: { totalMs: output.timing.totalMs, firstTokenMs: output.timing.firstTokenMs ?? null },
+    },
+    null,
+    2,
+  );
+
+export const renderPlainAnswer = (output: AnswerOutput, { showThinking = false } = {}): string => {
+  const sources = formatCitations(output.citations);
+  const thinking = showThinking && output.thinking ? `${output.thinking}\n\n` : '';
+  return `${thinking}${stripMarkdown(output.answer)}${sources ? `\n\n${sources}` : ''}`;
+};
+
+// Writes answer text in the given format; JSON is handled by the caller.
+const answerStream = (format: OutputFormat, write: (text: string) => void, render: boolean): Omit<AnswerStream, 'writeThinking'> => {
+  if (format === 'plain') {
+    const state = { inFence: false };
+    let buffer = '';
+    const emit = (line: string, newline: boolean) => {
+      const stripped = stripMarkdownLine(line, state);
+      if (stripped !== undefined) write(newline ? `${stripped}\n` : stripped);
+    };
+    return {
+      write: (delta) => {
+        buffer += delta;
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        lines.forEach((line) => emit(line, true));
+      },
+      end: () => {
+        if (buffer) emit(buffer, false);
+        buffer = '';
+      },
+    };
+  }
+  console.log(chalk.greenBright('\n=== Perplexity ===\n'));
+  if (!render) {
+    return { write, end: () => undefined };
+  }
+  const renderer = createMarkdownRenderer();
+  return {
+    write: (delta) => {
+      const rendered = renderer.push(delta);
+      if (rendered) write(rendered);
+    },
+    end: () => {
+      const rendered = renderer.end();
+      if (rendered) write(rendered);
+    },
+  };
+};
+
+/**
+ * Wraps a stream so reasoning is written dimmed (or dropped when hidden) and separated from the answer that follows.
+ */
+const withThinking = (
+  stream: Omit<AnswerStream, 'writeThinking'>,
+  write: (text: string) => void,
+  { showThinking, dim }: { showThinking: boolean; dim: boolean },
+): AnswerStream => {
+  let thinkingOpen = false;
+  return {
+    writeThinking: (delta) => {
+      if (!showThinking) return;
+      thinkingOpen = true;
+      write(dim ? chalk.dim(delta) : delta);
+    },
+    write: (delta) => {
+      if (thinkingOpen) {
+        write('\n\n');
+        thinkingOpen = false;
+      }
+      stream.write(delta);
+    },
+    end: stream.end,
+  };
+};
+
+/**
+ * Prepares stdout for a streamed answer in the given format.
+ * Markdown is rendered for the terminal as it arrives (or passed through raw when `render` is off,
+ * as it is when stdout is not a terminal), plain text is written one stripped line at a time, and
+ * JSON not at all because it can only be printed once the answer is complete.
+ * Reasoning is only written when `showThinking` is set.
+ */
+export const startAnswerStream = (
+  format: OutputFormat,
+  write: (text: string) => void = (text) => process.stdout.write(text),
+  { render = Boolean(process.stdout.isTTY), showThinking = false }: { render?: boolean; showThinking?: boolean } = {},
+): AnswerStream => {
+  if (format === 'json') {
+    return { write: () => undefined, writeThinking: () => undefined, end: () => undefined };
+  }
+  return withThinking(answerStream(format, write, render), write, { showThinking, dim: format === 'markdown' });
+};
+
+/**
+ * Prints a finished answer in the given format. After a streamed answer only what the stream
+ * could not show (sources, or the whole JSON object) is printed.
+ */
+export const printAnswerOutput = (
+  output: AnswerOutput,
+  format: OutputFormat,
+  { streamed = false, showThinking = false }: { streamed?: boolean; showThinking?: boolean } = {},
+) => {
+  switch (format) {
+    case 'json':
+      console.log(renderJsonAnswer(output));
+      return;
+    case 'plain':
+      if (!streamed) {
+        console.log(renderPlainAnswer(output, { showThinking }));
+        return;
+      }
+      console.log(output.citations.length > 0 ? `\n\n${formatCitations(output.citations)}` : '');
+      return;
+    case 'markdown':
+    default:
+      if (!streamed) {
+        printAnswer(output.answer, output.citations, showThinking ? output.thinking ?? undefined : undefined);
+        return;
+      }
+      console.log('\n');
+      printCitations(output.citations);
+  }
+};
@@ -0,0 +1,178 @@
+import fs from 'fs';
+import path from 'path';
+import { EnigmaConfig, ResearchConfig, validateModelName, writeSecureFile } from './config.js';
+import { Citation, formatError, SearchFilters, streamAnswer, TokenUsage } from './perplexity.js';
+import { generateSessionId } from './sessions.js';
+
+const RESEARCH_DIR = path.join('.enigma', 'research');
+
+export type ResearchJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'interrupted';
+
+export type ResearchJob = {
+  id: string;
+  topic: string;
+  model: string;
+  searchMode: ResearchConfig['search_mode'];
+  /** Search filters given on the command line; the rest come from .pplxrc when the job runs. */
+  filters?: SearchFilters;
+  status: ResearchJobStatus;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  durationMs?: number;
+  /** Process running the job, used to detect jobs whose process died. */
+  pid?: number;
+  answer?: string;
+  /** Reasoning from <think> sections, kept apart from the answer. */
+  thinking?: string;
+  citations?: Citation[];
+  usage?: TokenUsage;
+  error?: string;
+};
+
+export type ResearchProgress = {
+  elapsedMs: number;
+  characters: number;
+};
+
+export const researchDir = (baseDir = process.cwd()): string => path.join(baseDir, RESEARCH_DIR);
+
+const jobPath = (id: string, baseDir: string): string => path.join(researchDir(baseDir), `${id}.json`);
+
+/**
+ * Creates a queued deep research job using `models.deep_research`.
+ */
+export const createResearchJob = (
+  topic: string,
+  config: EnigmaConfig,
+  options: { searchMode?: ResearchConfig['search_mode']; filters?: SearchFilters } = {},
+  now = new Date(),
+): ResearchJob => ({
+  id: generateSessionId(now),
+  topic,
+  model: validateModelName(config.models.deep_research, config).model,
+  searchMode: options.searchMode ?? config.research.search_mode,
+  ...(options.filters ? { filters: options.filters } : {}),
+  status: 'queued',
+  createdAt: now.toISOString(),
+});
+
+export const saveResearchJob = (job: ResearchJob, baseDir = process.cwd()): string => {
+  fs.mkdirSync(researchDir(baseDir), { recursive: true });
+  const filePath = jobPath(job.id, baseDir);
+  writeSecureFile(filePath, `${JSON.stringify(job, null, 2)}\n`);
+  return filePath;
+};
+
+const readJobFile = (filePath: string): ResearchJob | undefined => {
+  try {
+    const parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    return typeof parsed?.id === 'string' && typeof parsed?.topic === 'string' ? (parsed as ResearchJob) : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const isProcessAlive = (pid: number): boolean => {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM means the process exists but belongs to someone else.
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+};
+
+/**
+ * Reports a queued or running job whose process has exited as interrupted.
+ */
+export const effectiveStatus = (job: ResearchJob, alive: (pid: number) => boolean = isProcessAlive): ResearchJobStatus => {
+  if ((job.status === 'queued' || job.status === 'running') && job.pid !== undefined && !alive(job.pid)) {
+    return 'interrupted';
+  }
+  return job.status;
+};
+
+/**
+ * Lists research jobs, newest first.
+ */
+export const listResearchJobs = (baseDir = process.cwd()): ResearchJob[] => {
+  const dir = researchDir(baseDir);
+  if (!fs.existsSync(dir)) return [];
+  return fs
+    .readdirSync(dir)
+    .filter((name) => name.endsWith('.json'))
+    .map((name) => readJobFile(path.join(dir, name)))
+    .filter((job): job is ResearchJob => job !== undefined)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+/**
+ * Loads a job by id or unique id prefix.
+ */
+export const loadResearchJob = (idOrPrefix: string, baseDir = process.cwd()): ResearchJob => {
+  const matches = listResearchJobs(baseDir).filter((job) => job.id === idOrPrefix || job.id.startsWith(idOrPrefix));
+  const exact = matches.find((job) => job.id === idOrPrefix);
+  if (exact) return exact;
+  if (matches.length === 0) {
+    throw new Error(`Research job "${idOrPrefix}" not found. Run "enigma research status" to see jobs.`);
+  }
+  if (matches.length > 1) {
+    throw new Error(`Research job id "${idOrPrefix}" is ambiguous: ${matches.map((job) => job.id).join(', ')}`);
+  }
+  return matches[0];
+};
+
+/**
+ * Runs a job to completion, saving its state before and after the request.
+ * The request uses `research.job_timeout` instead of `api.timeout`, since deep research
+ * often takes minutes. Failures are recorded on the job and rethrown.
+ */
+export const runResearchJob = async (
+  job: ResearchJob,
+  config: EnigmaConfig,
+  {
+    baseDir = process.cwd(),
+    onProgress = () => undefined,
+    now = () => new Date(),
+  }: { baseDir?: string; onProgress?: (progress: ResearchProgress) => void; now?: () => Date } = {},
+): Promise<ResearchJob> => {
+  const started = now();
+  job.status = 'running';
+  job.startedAt = started.toISOString();
+  job.pid = process.pid;
+  saveResearchJob(job, baseDir);
+
+  const jobConfig: EnigmaConfig = { ...config, api: { ...config.api, timeout: config.research.job_timeout } };
+  let characters = 0;
+  try {
+    // Deep research spends most of its time reasoning, so thinking counts as progress too.
+    const progress = (delta: string) => {
+      characters += delta.length;
+      onProgress({ elapsedMs: now().getTime() - started.getTime(), characters });
+    };
+    const result = await streamAnswer(job.topic, jobConfig, { model: job.model, searchMode: job.searchMode, filters: job.filters }, progress, progress);
+    job.answer = result.content;
+    job.thinking = result.thinking;
+    job.citations = result.citations;
+    job.usage = result.usage;
+    job.status = 'completed';
+  } catch (error) {
+    job.status = 'failed';
+    job.error = formatError(error);
+    throw error;
+  } finally {
+    const finished = now();
+    job.finishedAt = finished.toISOString();
+    job.durationMs = finished.getTime() - started.getTime();
+    saveResearchJob(job, baseDir);
+  }
+  return job;
+};
+
+export const formatElapsed = (ms: number): string => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return minutes > 0 ? `${minutes}m ${String(seconds).padStart(2, '0')}s` : `${seconds}s`;
+};
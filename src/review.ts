@@ -0,0 +1,355 @@
+import { execFileSync } from 'child_process';
+import { EnigmaConfig } from './config.js';
+import { askPerplexity, AskOptions } from './perplexity.js';
+import { JsonSchema, parseJsonAnswer, validateAgainstSchema } from './schema.js';
+import { contextWindowFor, estimateTokens } from './tokens.js';
+
+export type ReviewSeverity = 'error' | 'warning' | 'info';
+
+export type ReviewFinding = {
+  file: string;
+  /** Line in the new version of the file. */
+  line: number;
+  severity: ReviewSeverity;
+  message: string;
+};
+
+/** The changes to one file, as hunks starting at their `@@` header. */
+export type FileDiff = {
+  path: string;
+  hunks: string[];
+  binary: boolean;
+  deleted: boolean;
+};
+
+/** Part of one file's diff, numbered and small enough for a single request. */
+export type ReviewChunk = {
+  path: string;
+  part: number;
+  parts: number;
+  diff: string;
+};
+
+export type ReviewReport = {
+  /** What was reviewed: "staged changes", "uncommitted changes" or the range. */
+  target: string;
+  /** Files sent for review. */
+  files: string[];
+  findings: ReviewFinding[];
+  /** Binary and deleted files, which are not reviewed. */
+  skipped: string[];
+  /** Files whose review could not be read. */
+  failed: { file: string; error: string }[];
+};
+
+export type ReviewFormat = 'markdown' | 'plain' | 'json' | 'sarif';
+
+export const REVIEW_FORMATS: ReviewFormat[] = ['markdown', 'plain', 'json', 'sarif'];
+
+export const SEVERITIES: ReviewSeverity[] = ['error', 'warning', 'info'];
+
+/** Findings are requested as JSON in this shape; the file is known from the request. */
+export const REVIEW_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    findings: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          line: { type: 'integer', minimum: 1 },
+          severity: { type: 'string', enum: [...SEVERITIES] },
+          message: { type: 'string', minLength: 1 },
+        },
+        required: ['line', 'severity', 'message'],
+      },
+    },
+  },
+  required: ['findings'],
+};
+
+export const REVIEW_SYSTEM_PROMPT = `You are a careful code reviewer. You are shown the changes to one file of a commit as a numbered diff.
+Report only real problems in the added or changed lines: bugs, security issues, data loss, broken error handling, and clear maintainability problems.
+Do not comment on style that a formatter would fix, and do not praise the change.
+Use "error" for problems that will break something, "warning" for likely problems and "info" for minor suggestions.`;
+
+/** Room left for the instructions and the system prompt around a chunk of diff. */
+const PROMPT_TOKENS = 1000;
+const MIN_CHUNK_TOKENS = 1000;
+const MAX_DIFF_BYTES = 64 * 1024 * 1024;
+
+export const parseReviewFormat = (value: string | undefined): ReviewFormat | undefined =>
+  REVIEW_FORMATS.find((format) => format === value);
+
+export const parseSeverity = (value: string | undefined): ReviewSeverity | undefined => SEVERITIES.find((severity) => severity === value);
+
+/**
+ * Arguments for `git diff`: the staged changes, a revision range such as `main..HEAD`, or by default
+ * everything not yet committed.
+ */
+export const diffArguments = ({ staged = false, range }: { staged?: boolean; range?: string }): string[] => {
+  if (staged && range) throw new Error('Use either --staged or a range, not both.');
+  if (range?.startsWith('-')) throw new Error(`"${range}" is not a revision range.`);
+  const target = staged ? ['--staged'] : [range ?? 'HEAD'];
+  return ['diff', '--no-color', '--no-ext-diff', '--unified=3', ...target, '--'];
+};
+
+/**
+ * Runs `git diff` in `cwd` and returns its output, with git's own message when it fails.
+ */
+export const collectDiff = (options: { staged?: boolean; range?: string }, cwd = process.cwd()): string => {
+  try {
+    return execFileSync('git', diffArguments(options), { cwd, encoding: 'utf-8', maxBuffer: MAX_DIFF_BYTES, stdio: ['ignore', 'pipe', 'pipe'] });
+  } catch (error) {
+    const stderr = (error as { stderr?: string }).stderr?.trim();
+    throw new Error(`git diff failed: ${stderr || (error as Error).message}`);
+  }
+};
+
+/**
+ * Describes what a review covers, for the report header.
+ */
+export const describeTarget = ({ staged = false, range }: { staged?: boolean; range?: string }): string =>
+  staged ? 'staged changes' : range ?? 'uncommitted changes';
+
+// "a/src/x.ts" -> "src/x.ts"; git quotes paths with unusual characters.
+const stripPrefix = (value: string): string => {
+  const unquoted = value.startsWith('"') && value.endsWith('"') ? value.slice(1, -1).replace(/\\(["\\])/g, '$1') : value;
+  return unquoted.replace(/^[ab]\//, '');
+};
+
+/**
+ * Splits `git diff` output into one entry per file.
+ */
+export const splitDiffByFile = (diff: string): FileDiff[] => {
+  const files: FileDiff[] = [];
+  let current: FileDiff | undefined;
+  for (const line of diff.replace(/\r\n/g, '\n').split('\n')) {
+    if (line.startsWith('diff --git ')) {
+      const match = line.match(/^diff --git (?:"?a\/.+?"?) ("?b\/.+"?)$/);
+      current = { path: match ? stripPrefix(match[1]) : line.slice('diff --git '.length), hunks: [], binary: false, deleted: false };
+      files.push(current);
+    } else if (!current) {
+      continue;
+    } else if (line.startsWith('@@')) {
+      current.hunks.push(line);
+    } else if (current.hunks.length > 0) {
+      current.hunks[current.hunks.length - 1] += `\n${line}`;
+    } else if (line.startsWith('+++ ') && line !== '+++ /dev/null') {
+      current.path = stripPrefix(line.slice(4));
+    } else if (line.startsWith('deleted file mode')) {
+      current.deleted = true;
+    } else if (line.startsWith('Binary files ') || line === 'GIT binary patch') {
+      current.binary = true;
+    }
+  }
+  // The last hunk of each file ends with the blank line that separates it from the next
+  for (const file of files) file.hunks = file.hunks.map((hunk) => hunk.replace(/\n+$/, ''));
+  return files;
+};
+
+/**
+ * Prefixes a hunk's lines with their line number in the new file, so findings can point at them.
+ * Removed lines have no number.
+ */
+export const numberHunk = (hunk: string): string => {
+  const [header, ...body] = hunk.split('\n');
+  let line = Number(header.match(/\+(\d+)/)?.[1] ?? 1);
+  const width = String(line + body.length).length;
+  const numbered = body.map((text) => {
+    if (text.startsWith('\\')) return `${' '.repeat(width)}  ${text}`;
+    if (text.startsWith('-')) return `${' '.repeat(width)} ${text}`;
+    return `${String(line++).padStart(width)} ${text || ' '}`;
+  });
+  return [header, ...numbered].join('\n');
+};
+
+/**
+ * Largest diff, in estimated tokens, sent in one request: what is left of the model's context window
+ * after agent.max_tokens for the answer and the instructions.
+ */
+export const reviewBudget = (model: string, config: EnigmaConfig): number =>
+  Math.max(MIN_CHUNK_TOKENS, contextWindowFor(model, config) - config.agent.max_tokens - PROMPT_TOKENS);
+
+/**
+ * Numbers each file's hunks and groups them into chunks of at most `budget` tokens. A hunk that alone
+ * is over budget is split between its lines.
+ */
+export const chunkFileDiff = (file: FileDiff, budget: number): ReviewChunk[] => {
+  const pieces = file.hunks.flatMap((hunk) => {
+    const numbered = numberHunk(hunk);
+    if (estimateTokens(numbered) <= budget) return [numbered];
+    const [header, ...lines] = numbered.split('\n');
+    const slices: string[] = [];
+    let slice: string[] = [header];
+    for (const line of lines) {
+      if (slice.length > 1 && estimateTokens([...slice, line].join('\n')) > budget) {
+        slices.push(slice.join('\n'));
+        slice = [header];
+      }
+      slice.push(line);
+    }
+    slices.push(slice.join('\n'));
+    return slices;
+  });
+  const groups: string[][] = [];
+  for (const piece of pieces) {
+    const last = groups[groups.length - 1];
+    if (last && estimateTokens([...last, piece].join('\n')) <= budget) last.push(piece);
+    else groups.push([piece]);
+  }
+  return groups.map((group, index) => ({ path: file.path, part: index + 1, parts: groups.length, diff: group.join('\n') }));
+};
+
+/**
+ * The question sent for one chunk of a file's changes.
+ */
+export const buildReviewPrompt = (chunk: ReviewChunk): string =>
+  [
+    `Review the changes to ${chunk.path}${chunk.parts > 1 ? ` (part ${chunk.part} of ${chunk.parts})` : ''}.`,
+    'Each kept or added line starts with its line number in the new version of the file; removed lines have none.',
+    '',
+    chunk.diff,
+    '',
+    'Reply with only a JSON object, with no other text:',
+    '{"findings": [{"line": 12, "severity": "error", "message": "What is wrong and how to fix it"}]}',
+    'severity is "error", "warning" or "info", and line is the numbered line the finding is about.',
+    'Reply {"findings": []} when there is nothing to report.',
+  ].join('\n');
+
+/**
+ * Reads the findings for `file` from an answer.
+ */
+export const parseFindings = (content: string, file: string): { findings?: ReviewFinding[]; error?: string } => {
+  const parsed = parseJsonAnswer(content);
+  if (parsed.error) return { error: parsed.error };
+  const errors = validateAgainstSchema(parsed.value, REVIEW_SCHEMA);
+  if (errors.length > 0) return { error: errors.join('; ') };
+  const { findings } = parsed.value as { findings: Omit<ReviewFinding, 'file'>[] };
+  return { findings: findings.map(({ line, severity, message }) => ({ file, line, severity, message: message.trim() })) };
+};
+
+/**
+ * Reviews a diff file by file: every chunk is one request, and its findings are collected into a report
+ * sorted by file and line. A chunk whose answer cannot be read is recorded in `failed` instead.
+ */
+export const reviewDiff = async (
+  diff: string,
+  target: string,
+  config: EnigmaConfig,
+  options: AskOptions & { model: string },
+  hooks: {
+    ask?: (question: string, config: EnigmaConfig, options: AskOptions) => Promise<string>;
+    /** Called before each request. */
+    progress?: (chunk: ReviewChunk) => void;
+  } = {},
+): Promise<ReviewReport> => {
+  const { ask = askPerplexity, progress } = hooks;
+  const systemPrompt = options.systemPrompt ? `${REVIEW_SYSTEM_PROMPT}\n\n${options.systemPrompt}` : REVIEW_SYSTEM_PROMPT;
+  const budget = reviewBudget(options.model, config);
+  const report: ReviewReport = { target, files: [], findings: [], skipped: [], failed: [] };
+  for (const file of splitDiffByFile(diff)) {
+    if (file.binary || file.deleted || file.hunks.length === 0) {
+      report.skipped.push(file.path);
+      continue;
+    }
+    report.files.push(file.path);
+    for (const chunk of chunkFileDiff(file, budget)) {
+      progress?.(chunk);
+      try {
+        const content = await ask(buildReviewPrompt(chunk), config, { ...options, systemPrompt, responseSchema: REVIEW_SCHEMA });
+        const { findings, error } = parseFindings(content, file.path);
+        if (findings) report.findings.push(...findings);
+        else report.failed.push({ file: file.path, error: `unreadable findings: ${error}` });
+      } catch (error) {
+        report.failed.push({ file: file.path, error: (error as Error).message });
+      }
+    }
+  }
+  report.findings.sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line);
+  return report;
+};
+
+/**
+ * Whether any finding is at least as severe as `threshold`.
+ */
+export const hasFindingsAtOrAbove = (report: ReviewReport, threshold: ReviewSeverity): boolean =>
+  report.findings.some((finding) => SEVERITIES.indexOf(finding.severity) <= SEVERITIES.indexOf(threshold));
+
+const summarize = (report: ReviewReport): string => {
+  const counts = SEVERITIES.map((severity) => [severity, report.findings.filter((finding) => finding.severity === severity).length] as const)
+    .filter(([, count]) => count > 0)
+    .map(([severity, count]) => `${count} ${severity}`);
+  const files = `${report.files.length} file${report.files.length === 1 ? '' : 's'}`;
+  if (report.findings.length === 0) return `No findings in ${files}.`;
+  return `${report.findings.length} finding${report.findings.length === 1 ? '' : 's'} (${counts.join(', ')}) in ${files}.`;
+};
+
+const SARIF_LEVELS: Record<ReviewSeverity, string> = { error: 'error', warning: 'warning', info: 'note' };
+
+/**
+ * The report as a SARIF 2.1.0 log, which code scanning tools and editors can read.
+ */
+export const toSarif = (report: ReviewReport, version: string): Record<string, unknown> => ({
+  $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+  version: '2.1.0',
+  runs: [
+    {
+      tool: { driver: { name: 'enigma', version, rules: SEVERITIES.map((severity) => ({ id: `review/${severity}` })) } },
+      results: report.findings.map((finding) => ({
+        ruleId: `review/${finding.severity}`,
+        level: SARIF_LEVELS[finding.severity],
+        message: { text: finding.message },
+        locations: [{ physicalLocation: { artifactLocation: { uri: finding.file }, region: { startLine: finding.line } } }],
+      })),
+      invocations: [
+        {
+          executionSuccessful: report.failed.length === 0,
+          toolExecutionNotifications: report.failed.map((failure) => ({
+            level: 'error',
+            message: { text: failure.error },
+            locations: [{ physicalLocation: { artifactLocation: { uri: failure.file } } }],
+          })),
+        },
+      ],
+    },
+  ],
+});
+
+/**
+ * Renders the report: markdown grouped by file, plain `file:line: severity: message` lines,
+ * JSON, or SARIF.
+ */
+export const formatReviewReport = (report: ReviewReport, format: ReviewFormat, version = '1.0.0'): string => {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(
+        { target: report.target, files: report.files, findings: report.findings, skipped: report.skipped, failed: report.failed },
+        null,
+        2,
+      );
+    case 'sarif':
+      return JSON.stringify(toSarif(report, version), null, 2);
+    case 'plain':
+      return [
+        ...report.findings.map((finding) => `${finding.file}:${finding.line}: ${finding.severity}: ${finding.message}`),
+        ...report.failed.map((failure) => `${failure.file}: not reviewed: ${failure.error}`),
+        summarize(report),
+      ].join('\n');
+    case 'markdown':
+    default: {
+      const lines = [`## Review of ${report.target}`, '', summarize(report)];
+      for (const file of [...new Set(report.findings.map((finding) => finding.file))]) {
+        lines.push('', `### ${file}`, '');
+        for (const finding of report.findings.filter((item) => item.file === file)) {
+          lines.push(`- **${finding.severity}** line ${finding.line}: ${finding.message}`);
+        }
+      }
+      if (report.failed.length > 0) {
+        lines.push('', '### Not reviewed', '', ...report.failed.map((failure) => `- ${failure.file}: ${failure.error}`));
+      }
+      if (report.skipped.length > 0) lines.push('', `Skipped binary or deleted files: ${report.skipped.join(', ')}`);
+      return lines.join('\n');
+    }
+  }
+};
@@ -0,0 +1,124 @@
+import { EnigmaConfig, ModelConfig } from './config.js';
+
+export type ModelRole = keyof ModelConfig;
+
+export type RouteMode = 'auto' | 'explain' | 'off';
+
+/**
+ * CLI flags and REPL commands that pick a model by role instead of by name.
+ */
+export const ROLE_SHORTCUTS = {
+  fast: 'fast',
+  reason: 'reasoning',
+  research: 'deep_research',
+  search: 'search_heavy',
+} as const satisfies Record<string, ModelRole>;
+
+export type RoleShortcut = keyof typeof ROLE_SHORTCUTS;
+
+export type RouteDecision = {
+  role: ModelRole;
+  model: string;
+  reasons: string[];
+};
+
+type RouteSignal = {
+  role: ModelRole;
+  pattern: RegExp;
+  weight: number;
+};
+
+// Questions shorter than this with no other signal are answered by the fast model.
+const SHORT_QUESTION_LENGTH = 80;
+// Questions longer than this carry pasted context and benefit from a reasoning model.
+const LONG_QUESTION_LENGTH = 2000;
+
+const KEYWORD_SIGNALS: RouteSignal[] = [
+  {
+    role: 'deep_research',
+    pattern: /\b(deep research|deep dive|in-depth|comprehensive|literature review|research report|state of the art|survey of)\b/i,
+    weight: 3,
+  },
+  {
+    role: 'search_heavy',
+    pattern: /\b(latest|newest|current(?:ly)?|today|this (?:week|month|year)|recent(?:ly)?|news|release notes|changelog|announced|pricing)\b/i,
+    weight: 2,
+  },
+  { role: 'search_heavy', pattern: /\b20\d\d\b/, weight: 1 },
+  {
+    role: 'reasoning',
+    pattern: /\b(prove|proof|step[- ]by[- ]step|derive|why (?:does|is|do|are)|root cause|trade-?offs?|algorithm|complexity|debug)\b/i,
+    weight: 2,
+  },
+  { role: 'fast', pattern: /\b(quick(?:ly)?|briefly|tl;?dr|one[- ]liner|short answer)\b/i, weight: 2 },
+];
+
+// On a tie the earlier role wins: the more capable model is the safer choice.
+const ROLE_PRIORITY: ModelRole[] = ['deep_research', 'reasoning', 'search_heavy', 'fast', 'default'];
+
+const CODE_PATTERN = /```|^\s*(?:at\s+\S+\s+\(|Traceback \(most recent call last\)|(?:function|def|class|const|let|import)\s)/m;
+
+export const parseRouteMode = (value: string | undefined): RouteMode | undefined => {
+  if (!value) return undefined;
+  if (value === 'auto' || value === 'explain' || value === 'off') return value;
+  return undefined;
+};
+
+/**
+ * Returns the role shortcut flags (such as `--reason`) that are set, in declaration order.
+ */
+export const selectedShortcuts = (flags: Partial<Record<RoleShortcut, boolean>>): RoleShortcut[] =>
+  (Object.keys(ROLE_SHORTCUTS) as RoleShortcut[]).filter((shortcut) => flags[shortcut]);
+
+/**
+ * Classifies a question into a model role using keyword and shape heuristics.
+ * Follow-ups in a conversation are never sent to the fast model just for being short.
+ */
+export const classifyQuestion = (question: string, options: { followUp?: boolean } = {}): Omit<RouteDecision, 'model'> => {
+  const scores = new Map<ModelRole, number>();
+  const reasons = new Map<ModelRole, string[]>();
+  const add = (role: ModelRole, weight: number, reason: string) => {
+    scores.set(role, (scores.get(role) ?? 0) + weight);
+    reasons.set(role, [...(reasons.get(role) ?? []), reason]);
+  };
+
+  for (const signal of KEYWORD_SIGNALS) {
+    const match = question.match(signal.pattern);
+    if (match) {
+      add(signal.role, signal.weight, `mentions "${match[0]}"`);
+    }
+  }
+  if (CODE_PATTERN.test(question)) {
+    add('reasoning', 2, 'contains code or a stack trace');
+  }
+  if (question.length > LONG_QUESTION_LENGTH) {
+    add('reasoning', 1, `long question (${question.length} characters)`);
+  }
+
+  let best: ModelRole | undefined;
+  for (const role of ROLE_PRIORITY) {
+    const score = scores.get(role) ?? 0;
+    if (score > 0 && (best === undefined || score > (scores.get(best) ?? 0))) {
+      best = role;
+    }
+  }
+  if (best) {
+    return { role: best, reasons: reasons.get(best) ?? [] };
+  }
+
+  if (!options.followUp && question.trim().length < SHORT_QUESTION_LENGTH) {
+    return { role: 'fast', reasons: [`short question (${question.trim().length} characters)`] };
+  }
+  return { role: 'default', reasons: [options.followUp ? 'follow-up in a conversation' : 'no strong signal'] };
+};
+
+/**
+ * Picks the model configured for the question's role in `models:`.
+ */
+export const routeQuestion = (question: string, config: EnigmaConfig, options: { followUp?: boolean } = {}): RouteDecision => {
+  const { role, reasons } = classifyQuestion(question, options);
+  return { role, model: config.models[role], reasons };
+};
+
+export const describeRoute = (decision: RouteDecision): string =>
+  `Routing to ${decision.model} (models.${decision.role}): ${decision.reasons.join('; ')}`;
@@ -0,0 +1,216 @@
+import fs from 'fs';
+import { EnigmaConfig } from './config.js';
+import { AskOptions, PerplexityAnswer, requestAnswer } from './perplexity.js';
+
+export type JsonSchema = Record<string, unknown>;
+
+export type StructuredAnswer = {
+  /** The parsed JSON value, already validated against the schema. */
+  value: unknown;
+  answer: PerplexityAnswer;
+  attempts: number;
+};
+
+export const loadSchema = (filePath: string): JsonSchema => {
+  let raw: string;
+  try {
+    raw = fs.readFileSync(filePath, 'utf-8');
+  } catch (error) {
+    throw new Error(`Cannot read schema file ${filePath}: ${(error as Error).message}`);
+  }
+  let schema: unknown;
+  try {
+    schema = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`Schema file ${filePath} is not valid JSON: ${(error as Error).message}`);
+  }
+  if (typeof schema !== 'object' || schema === null || Array.isArray(schema)) {
+    throw new Error(`Schema file ${filePath} must contain a JSON Schema object.`);
+  }
+  return schema as JsonSchema;
+};
+
+const typeOf = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+};
+
+const matchesType = (value: unknown, type: string): boolean => {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+};
+
+// The schema a local $ref points at, or undefined when nothing (or no schema) is there.
+const resolveRef = (ref: string, root: JsonSchema): JsonSchema | undefined => {
+  if (!ref.startsWith('#')) throw new Error(`Only local $ref values are supported, got "${ref}".`);
+  const target = ref
+    .slice(1)
+    .split('/')
+    .filter(Boolean)
+    .reduce<unknown>(
+      (node, key) => (node !== null && typeof node === 'object' ? (node as Record<string, unknown>)[key.replace(/~1/g, '/').replace(/~0/g, '~')] : undefined),
+      root,
+    );
+  return asSchema(target);
+};
+
+const asSchema = (value: unknown): JsonSchema | undefined =>
+  value !== null && typeof value === 'object' && !Array.isArray(value) ? (value as JsonSchema) : undefined;
+
+const asSchemas = (value: unknown): JsonSchema[] =>
+  Array.isArray(value) ? value.map(asSchema).filter((schema): schema is JsonSchema => schema !== undefined) : [];
+
+const asNumber = (value: unknown): number | undefined => (typeof value === 'number' ? value : undefined);
+
+const asStrings = (value: unknown): string[] | undefined =>
+  value === undefined ? undefined : (Array.isArray(value) ? value : [value]).filter((item): item is string => typeof item === 'string');
+
+const childPath = (path: string, key: string | number): string =>
+  typeof key === 'number' ? `${path}[${key}]` : /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+
+/**
+ * Validates a value against the commonly used subset of JSON Schema: type, enum, const, properties,
+ * required, additionalProperties, items, string/number/array bounds, pattern, allOf/anyOf/oneOf and local $ref.
+ * Returns one message per problem, prefixed with the path of the offending value ("$" is the root).
+ * An unresolvable $ref, or refs that lead back to themselves without reaching a value, are reported as problems.
+ */
+export const validateAgainstSchema = (
+  value: unknown,
+  schema: JsonSchema,
+  path = '$',
+  root: JsonSchema = schema,
+  // $refs followed for this value so far; cleared when validation moves on to a child value
+  followed: string[] = [],
+): string[] => {
+  if (typeof schema.$ref === 'string') {
+    const ref = schema.$ref;
+    if (followed.includes(ref)) return [`${path}: $ref "${ref}" refers back to itself`];
+    const target = resolveRef(ref, root);
+    if (!target) return [`${path}: cannot resolve $ref "${ref}"`];
+    return validateAgainstSchema(value, target, path, root, [...followed, ref]);
+  }
+
+  const errors: string[] = [];
+  const types = asStrings(schema.type);
+  if (types && !types.some((type) => matchesType(value, type))) {
+    return [`${path}: expected ${types.join(' or ')}, got ${typeOf(value)}`];
+  }
+  if (Array.isArray(schema.enum)) {
+    const options: unknown[] = schema.enum;
+    if (!options.some((option) => JSON.stringify(option) === JSON.stringify(value))) {
+      errors.push(`${path}: must be one of ${options.map((option) => JSON.stringify(option)).join(', ')}`);
+    }
+  }
+  if ('const' in schema && JSON.stringify(schema.const) !== JSON.stringify(value)) {
+    errors.push(`${path}: must equal ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof value === 'string') {
+    const minLength = asNumber(schema.minLength);
+    const maxLength = asNumber(schema.maxLength);
+    if (minLength !== undefined && value.length < minLength) errors.push(`${path}: shorter than ${minLength} characters`);
+    if (maxLength !== undefined && value.length > maxLength) errors.push(`${path}: longer than ${maxLength} characters`);
+    if (typeof schema.pattern === 'string' && !new RegExp(schema.pattern, 'u').test(value)) errors.push(`${path}: does not match /${schema.pattern}/`);
+  }
+  if (typeof value === 'number') {
+    const minimum = asNumber(schema.minimum);
+    const maximum = asNumber(schema.maximum);
+    const exclusiveMinimum = asNumber(schema.exclusiveMinimum);
+    const exclusiveMaximum = asNumber(schema.exclusiveMaximum);
+    if (minimum !== undefined && value < minimum) errors.push(`${path}: less than ${minimum}`);
+    if (maximum !== undefined && value > maximum) errors.push(`${path}: greater than ${maximum}`);
+    if (exclusiveMinimum !== undefined && value <= exclusiveMinimum) errors.push(`${path}: must be greater than ${exclusiveMinimum}`);
+    if (exclusiveMaximum !== undefined && value >= exclusiveMaximum) errors.push(`${path}: must be less than ${exclusiveMaximum}`);
+  }
+  if (Array.isArray(value)) {
+    const minItems = asNumber(schema.minItems);
+    const maxItems = asNumber(schema.maxItems);
+    const items = asSchema(schema.items);
+    if (minItems !== undefined && value.length < minItems) errors.push(`${path}: fewer than ${minItems} items`);
+    if (maxItems !== undefined && value.length > maxItems) errors.push(`${path}: more than ${maxItems} items`);
+    if (items) {
+      value.forEach((item: unknown, index) => errors.push(...validateAgainstSchema(item, items, childPath(path, index), root)));
+    }
+  }
+  if (typeOf(value) === 'object') {
+    const record = value as Record<string, unknown>;
+    const properties = asSchema(schema.properties) ?? {};
+    const additional = asSchema(schema.additionalProperties);
+    for (const key of asStrings(schema.required) ?? []) {
+      if (!(key in record)) errors.push(`${childPath(path, key)}: is required`);
+    }
+    for (const [key, propertyValue] of Object.entries(record)) {
+      const property = asSchema(properties[key]);
+      if (property) {
+        errors.push(...validateAgainstSchema(propertyValue, property, childPath(path, key), root));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${childPath(path, key)}: is not allowed`);
+      } else if (additional) {
+        errors.push(...validateAgainstSchema(propertyValue, additional, childPath(path, key), root));
+      }
+    }
+  }
+
+  for (const sub of asSchemas(schema.allOf)) {
+    errors.push(...validateAgainstSchema(value, sub, path, root, followed));
+  }
+  if (Array.isArray(schema.anyOf) && !asSchemas(schema.anyOf).some((sub) => validateAgainstSchema(value, sub, path, root, followed).length === 0)) {
+    errors.push(`${path}: does not match any of the allowed schemas`);
+  }
+  if (Array.isArray(schema.oneOf)) {
+    const matches = asSchemas(schema.oneOf).filter((sub) => validateAgainstSchema(value, sub, path, root, followed).length === 0).length;
+    if (matches !== 1) errors.push(`${path}: must match exactly one schema in oneOf (matched ${matches})`);
+  }
+  return errors;
+};
+
+/**
+ * Parses an answer as JSON, accepting it wrapped in a ```json fence as models sometimes do.
+ */
+export const parseJsonAnswer = (content: string): { value?: unknown; error?: string } => {
+  const fenced = content.trim().match(/^```(?:json)?\s*\n([\s\S]*?)\n?```$/i);
+  try {
+    return { value: JSON.parse(fenced ? fenced[1] : content) };
+  } catch (error) {
+    return { error: `response is not valid JSON (${(error as Error).message})` };
+  }
+};
+
+const checkAnswer = (content: string, schema: JsonSchema): { value?: unknown; errors: string[] } => {
+  const parsed = parseJsonAnswer(content);
+  if (parsed.error) return { errors: [parsed.error] };
+  return { value: parsed.value, errors: validateAgainstSchema(parsed.value, schema) };
+};
+
+/**
+ * Asks for an answer constrained to a JSON schema (sent as `response_format`) and validates it locally.
+ * A non-conforming answer is retried once with the validation errors; if that also fails,
+ * the thrown error lists what was wrong.
+ */
+export const askStructured = async (
+  question: string,
+  config: EnigmaConfig,
+  options: AskOptions,
+  schema: JsonSchema,
+  request: (question: string, config: EnigmaConfig, options: AskOptions) => Promise<PerplexityAnswer> = requestAnswer,
+): Promise<StructuredAnswer> => {
+  const structuredOptions = { ...options, responseSchema: schema };
+  const first = await request(question, config, structuredOptions);
+  const firstCheck = checkAnswer(first.content, schema);
+  if (firstCheck.errors.length === 0) return { value: firstCheck.value, answer: first, attempts: 1 };
+
+  const retry = await request(
+    `Your previous response did not match the required JSON schema:\n${firstCheck.errors.map((error) => `- ${error}`).join('\n')}\n` +
+      'Reply again with only a JSON value that conforms to the schema, with no other text.',
+    config,
+    {
+      ...structuredOptions,
+      history: [...(options.history ?? []), { role: 'user', content: question }, { role: 'assistant', content: first.content }],
+    },
+  );
+  const retryCheck = checkAnswer(retry.content, schema);
+  if (retryCheck.errors.length === 0) return { value: retryCheck.value, answer: retry, attempts: 2 };
+  throw new Error(`Answer does not match the schema after a retry:\n${retryCheck.errors.map((error) => `  ${error}`).join('\n')}`);
+};
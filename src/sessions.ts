@@ -0,0 +1,202 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { EnigmaConfig, ResearchConfig, validateModelName, writeSecureFile } from './config.js';
+import { ChatMessage, Citation } from './perplexity.js';
+import { ModelRole } from './router.js';
+
+const SESSIONS_DIR = path.join('.enigma', 'sessions');
+const TITLE_MAX_LENGTH = 60;
+
+export type SessionMessage = ChatMessage & {
+  timestamp?: string;
+  /** Model that produced an assistant message. */
+  model?: string;
+  /** Sources cited by an assistant message. */
+  citations?: Citation[];
+};
+
+export type ChatSession = {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  /** Model pinned for the whole session; undefined lets each question be routed by role. */
+  model?: string;
+  /** Model role chosen with a shortcut such as --reason, resolved against `models:` on every request. */
+  role?: ModelRole;
+  searchMode: ResearchConfig['search_mode'];
+  persona?: string;
+  messages: SessionMessage[];
+};
+
+export const sessionsDir = (baseDir = process.cwd()): string => path.join(baseDir, SESSIONS_DIR);
+
+// The format generateSessionId produces; anything else (such as "../x") could name a file outside the store.
+const SESSION_ID_PATTERN = /^\d{8}-\d{6}-[0-9a-f]{4}$/;
+
+const isSessionId = (id: string): boolean => SESSION_ID_PATTERN.test(id);
+
+const sessionPath = (id: string, baseDir: string): string => {
+  if (!isSessionId(id)) throw new Error(`"${id}" is not a valid session id.`);
+  return path.join(sessionsDir(baseDir), `${id}.json`);
+};
+
+/**
+ * Generates a sortable, filename-safe session id such as "20260107-142301-a3f9".
+ */
+export const generateSessionId = (now = new Date()): string => {
+  const stamp = now.toISOString().replace(/[-:]/g, '').replace('T', '-').slice(0, 15);
+  return `${stamp}-${crypto.randomBytes(2).toString('hex')}`;
+};
+
+/**
+ * Derives a short one-line title from the first question of a conversation.
+ */
+export const deriveSessionTitle = (question: string): string => {
+  const singleLine = question.replace(/\s+/g, ' ').trim();
+  if (singleLine.length <= TITLE_MAX_LENGTH) return singleLine;
+  return `${singleLine.slice(0, TITLE_MAX_LENGTH - 3).trimEnd()}...`;
+};
+
+/**
+ * Creates a new, unsaved session with the resolved search mode and persona.
+ * The model is pinned only when given explicitly or by the persona; a role shortcut is kept as a role
+ * so it follows later edits to `models:`. Otherwise questions are routed.
+ */
+export const createSession = (
+  config: EnigmaConfig,
+  options: { model?: string; role?: ModelRole; searchMode?: ResearchConfig['search_mode']; persona?: string } = {},
+  now = new Date(),
+): ChatSession => {
+  const personaModel = options.persona && !options.role ? config.personas?.[options.persona]?.model : undefined;
+  const pinnedModel = options.model ?? personaModel;
+  return {
+    id: generateSessionId(now),
+    title: 'Untitled session',
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+    model: pinnedModel ? validateModelName(pinnedModel, config).model : undefined,
+    role: pinnedModel ? undefined : options.role,
+    searchMode: options.searchMode ?? config.research.search_mode,
+    persona: options.persona,
+    messages: [],
+  };
+};
+
+/**
+ * Human-readable description of how a session picks its model.
+ */
+export const describeSessionModel = (session: ChatSession): string =>
+  session.model ?? (session.role ? `models.${session.role}` : 'auto-routed');
+
+/**
+ * Appends an answered question to the session, titling it after the first question.
+ * Both messages are timestamped and the answer is tagged with the model that produced it.
+ */
+export const recordTurn = (
+  session: ChatSession,
+  question: string,
+  answer: { content: string; model?: string; citations?: Citation[] },
+  now = new Date(),
+): ChatSession => {
+  if (session.messages.length === 0) {
+    session.title = deriveSessionTitle(question);
+  }
+  const timestamp = now.toISOString();
+  session.messages.push(
+    { role: 'user', content: question, timestamp },
+    {
+      role: 'assistant',
+      content: answer.content,
+      timestamp,
+      model: answer.model ?? session.model,
+      ...(answer.citations && answer.citations.length > 0 ? { citations: answer.citations } : {}),
+    },
+  );
+  session.updatedAt = timestamp;
+  return session;
+};
+
+/**
+ * Persists a session as JSON with secure permissions, since transcripts may contain sensitive content.
+ */
+export const saveSession = (session: ChatSession, baseDir = process.cwd()): string => {
+  const dir = sessionsDir(baseDir);
+  fs.mkdirSync(dir, { recursive: true });
+  const filePath = sessionPath(session.id, baseDir);
+  writeSecureFile(filePath, `${JSON.stringify(session, null, 2)}\n`);
+  return filePath;
+};
+
+const readSessionFile = (filePath: string): ChatSession | undefined => {
+  try {
+    const parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    if (typeof parsed?.id !== 'string' || !isSessionId(parsed.id) || !Array.isArray(parsed?.messages)) return undefined;
+    return parsed as ChatSession;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Lists saved sessions, most recently updated first. Unreadable files are skipped.
+ */
+export const listSessions = (baseDir = process.cwd()): ChatSession[] => {
+  const dir = sessionsDir(baseDir);
+  if (!fs.existsSync(dir)) return [];
+  return fs
+    .readdirSync(dir)
+    .filter((name) => name.endsWith('.json'))
+    .map((name) => readSessionFile(path.join(dir, name)))
+    .filter((session): session is ChatSession => session !== undefined)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+/**
+ * Loads a session by id or unique id prefix; only saved sessions are matched, so an id never reaches outside the store.
+ * Throws when nothing matches or the prefix is ambiguous.
+ */
+export const loadSession = (idOrPrefix: string, baseDir = process.cwd()): ChatSession => {
+  const exact = isSessionId(idOrPrefix) && fs.existsSync(sessionPath(idOrPrefix, baseDir)) ? readSessionFile(sessionPath(idOrPrefix, baseDir)) : undefined;
+  if (exact) return exact;
+
+  const matches = listSessions(baseDir).filter((session) => session.id.startsWith(idOrPrefix));
+  if (matches.length === 0) {
+    throw new Error(`Session "${idOrPrefix}" not found. Run "enigma sessions list" to see saved sessions.`);
+  }
+  if (matches.length > 1) {
+    throw new Error(`Session id "${idOrPrefix}" is ambiguous: ${matches.map((s) => s.id).join(', ')}`);
+  }
+  return matches[0];
+};
+
+/**
+ * Returns the most recently updated session, if any.
+ */
+export const latestSession = (baseDir = process.cwd()): ChatSession | undefined => listSessions(baseDir)[0];
+
+export const renameSession = (idOrPrefix: string, title: string, baseDir = process.cwd()): ChatSession => {
+  const session = loadSession(idOrPrefix, baseDir);
+  session.title = title.trim() || session.title;
+  saveSession(session, baseDir);
+  return session;
+};
+
+export const deleteSession = (idOrPrefix: string, baseDir = process.cwd()): ChatSession => {
+  const session = loadSession(idOrPrefix, baseDir);
+  fs.unlinkSync(sessionPath(session.id, baseDir));
+  return session;
+};
+
+/**
+ * Starts a new, empty session that keeps the model, search mode and persona of an existing one.
+ */
+export const resetSession = (session: ChatSession, now = new Date()): ChatSession => ({
+  ...session,
+  id: generateSessionId(now),
+  title: 'Untitled session',
+  createdAt: now.toISOString(),
+  updatedAt: now.toISOString(),
+  messages: [],
+});
@@ -0,0 +1,67 @@
+import fs from 'fs';
+import { formatBytes } from './files.js';
+
+/** The question argument that stands for "read the whole prompt from stdin". */
+export const STDIN_ARGUMENT = '-';
+
+/**
+ * Whether input is being piped or redirected in, as in `git diff | enigma "review this"`: stdin is a pipe or a file.
+ * Other stdin that is not a terminal, such as the socket a parent process or CI runner leaves open, is not read,
+ * since it may never reach end of file.
+ */
+export const isStdinPiped = (fd = 0): boolean => {
+  try {
+    const stats = fs.fstatSync(fd);
+    return stats.isFIFO() || stats.isFile();
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Whether stdin is a terminal that can answer prompts and run interactive mode.
+ */
+export const isStdinTerminal = (stream: { isTTY?: boolean } = process.stdin): boolean => Boolean(stream.isTTY);
+
+/**
+ * Reads all of stdin as UTF-8 (dropping a byte order mark, which Windows PowerShell adds).
+ * Rejects once the input grows past `maxBytes` instead of buffering it all.
+ */
+export const readStdin = async (maxBytes: number, stream: AsyncIterable<string | Buffer> = process.stdin): Promise<string> => {
+  const chunks: Buffer[] = [];
+  let total = 0;
+  for await (const chunk of stream) {
+    const buffer = typeof chunk === 'string' ? Buffer.from(chunk) : chunk;
+    total += buffer.length;
+    if (total > maxBytes) {
+      throw new Error(
+        `Input on stdin is larger than ${formatBytes(maxBytes)} (attachments.max_stdin_bytes). ` +
+          'Pipe less, e.g. only the relevant part of the log, or raise the limit in .pplxrc.',
+      );
+    }
+    chunks.push(buffer);
+  }
+  return Buffer.concat(chunks).toString('utf-8').replace(/^\uFEFF/, '');
+};
+
+// A fence longer than any backtick run in the input, so piped markdown cannot close it early.
+const fenceFor = (input: string): string => {
+  const longest = Math.max(0, ...(input.match(/`+/g) ?? []).map((run) => run.length));
+  return '`'.repeat(Math.max(3, longest + 1));
+};
+
+/**
+ * Combines the question from the command line with piped input. `-` takes the whole prompt from stdin;
+ * otherwise the input is appended to the question as a fenced block.
+ */
+export const combineWithStdin = (question: string, input: string | undefined): string => {
+  if (question.trim() === STDIN_ARGUMENT) {
+    if (!input?.trim()) throw new Error(`"${STDIN_ARGUMENT}" reads the question from stdin, but nothing was piped in.`);
+    return input.trim();
+  }
+  if (!input?.trim()) return question;
+  const body = input.replace(/\s+$/, '');
+  if (!question.trim()) return body;
+  const fence = fenceFor(body);
+  return `${question}\n\n${fence}\n${body}\n${fence}`;
+};
@@ -0,0 +1,129 @@
+import fs from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+import { EnigmaConfig, parseOutputFormat, parseSearchMode, TemplateConfig } from './config.js';
+
+const TEMPLATES_DIR = path.join('.enigma', 'templates');
+const STRUCTURED_EXTENSIONS = ['.yaml', '.yml'];
+const PROMPT_ONLY_EXTENSIONS = ['.md', '.txt'];
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z_][\w-]*)\s*\}\}/g;
+
+export type PromptTemplate = TemplateConfig & {
+  name: string;
+  /** Where the template was defined: a file path or ".pplxrc". */
+  source: string;
+};
+
+export const templatesDir = (baseDir = process.cwd()): string => path.join(baseDir, TEMPLATES_DIR);
+
+const readTemplateFile = (filePath: string): TemplateConfig | undefined => {
+  const extension = path.extname(filePath).toLowerCase();
+  const raw = fs.readFileSync(filePath, 'utf-8');
+  if (PROMPT_ONLY_EXTENSIONS.includes(extension)) {
+    return { prompt: raw.trim() };
+  }
+  try {
+    const parsed = YAML.parse(raw);
+    if (typeof parsed?.prompt !== 'string') {
+      console.error(`Template ${filePath} has no "prompt" field. Skipping.`);
+      return undefined;
+    }
+    return parsed as TemplateConfig;
+  } catch (err) {
+    console.error(`Unable to parse template ${filePath}: ${(err as Error).message}. Skipping.`);
+    return undefined;
+  }
+};
+
+/**
+ * Collects templates from the `templates:` block in .pplxrc and from files in .enigma/templates/.
+ * YAML files carry the same fields as the config block; .md and .txt files are the prompt alone.
+ * A file template replaces a .pplxrc template of the same name.
+ */
+export const loadTemplates = (config: EnigmaConfig, baseDir = process.cwd()): PromptTemplate[] => {
+  const templates = new Map<string, PromptTemplate>();
+  for (const [name, template] of Object.entries(config.templates ?? {})) {
+    if (typeof template?.prompt === 'string') {
+      templates.set(name, { ...template, name, source: '.pplxrc' });
+    }
+  }
+
+  const dir = templatesDir(baseDir);
+  if (fs.existsSync(dir)) {
+    for (const entry of fs.readdirSync(dir).sort()) {
+      const extension = path.extname(entry).toLowerCase();
+      if (!STRUCTURED_EXTENSIONS.includes(extension) && !PROMPT_ONLY_EXTENSIONS.includes(extension)) continue;
+      const filePath = path.join(dir, entry);
+      const template = readTemplateFile(filePath);
+      if (template) {
+        const name = path.basename(entry, path.extname(entry));
+        templates.set(name, { ...template, name, source: filePath });
+      }
+    }
+  }
+
+  return [...templates.values()].sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const findTemplate = (name: string, config: EnigmaConfig, baseDir = process.cwd()): PromptTemplate => {
+  const templates = loadTemplates(config, baseDir);
+  const template = templates.find((candidate) => candidate.name === name);
+  if (!template) {
+    const hint = templates.length > 0 ? `Available templates: ${templates.map((t) => t.name).join(', ')}` : 'Run "enigma template list" to see templates.';
+    throw new Error(`Template "${name}" not found. ${hint}`);
+  }
+  return template;
+};
+
+/**
+ * Returns the distinct placeholder names in a prompt, in order of first appearance.
+ */
+export const extractVariables = (prompt: string): string[] => {
+  const names: string[] = [];
+  for (const match of prompt.matchAll(PLACEHOLDER_PATTERN)) {
+    if (!names.includes(match[1])) names.push(match[1]);
+  }
+  return names;
+};
+
+/**
+ * Parses repeated `--var key=value` assignments. Values may contain "=".
+ */
+export const parseVarAssignments = (assignments: string[] = []): Record<string, string> => {
+  const vars: Record<string, string> = {};
+  for (const assignment of assignments) {
+    const separator = assignment.indexOf('=');
+    if (separator <= 0) {
+      throw new Error(`Invalid --var "${assignment}". Use key=value.`);
+    }
+    vars[assignment.slice(0, separator).trim()] = assignment.slice(separator + 1);
+  }
+  return vars;
+};
+
+/**
+ * Fills the template's placeholders from `vars`, then the template defaults.
+ * Throws listing every placeholder that has no value.
+ */
+export const renderTemplate = (template: PromptTemplate, vars: Record<string, string>): string => {
+  const values = { ...(template.defaults ?? {}), ...vars };
+  const missing = extractVariables(template.prompt).filter((name) => values[name] === undefined);
+  if (missing.length > 0) {
+    throw new Error(
+      `Template "${template.name}" needs values for: ${missing.join(', ')}. Pass them with ${missing
+        .map((name) => `--var ${name}=...`)
+        .join(' ')}`,
+    );
+  }
+  return template.prompt.replace(PLACEHOLDER_PATTERN, (_, name: string) => String(values[name]));
+};
+
+/**
+ * Ask options pinned by a template; invalid search modes or formats are ignored.
+ */
+export const templateAskOptions = (template: PromptTemplate) => ({
+  model: template.model,
+  searchMode: parseSearchMode(template.search_mode),
+  format: parseOutputFormat(template.format),
+  persona: template.persona,
+});
@@ -0,0 +1,86 @@
+const OPEN_TAG = '<think>';
+const CLOSE_TAG = '</think>';
+
+export type ThinkingParts = {
+  /** Text inside <think>...</think> sections. */
+  thinking: string;
+  /** Everything outside them. */
+  answer: string;
+};
+
+export type ThinkingParser = {
+  /** Splits the next piece of text, holding back a tag that may be cut off at the end. */
+  push: (text: string) => ThinkingParts;
+  /** Releases whatever was held back once no more text will arrive. */
+  end: () => ThinkingParts;
+};
+
+// Length of the longest suffix of `text` that is the start of `tag`, e.g. "<thi" for "<think>".
+const partialTagLength = (text: string, tag: string): number => {
+  for (let length = Math.min(tag.length - 1, text.length); length > 0; length--) {
+    if (text.endsWith(tag.slice(0, length))) return length;
+  }
+  return 0;
+};
+
+/**
+ * Creates a parser that separates reasoning models' <think> sections from the answer as text streams in.
+ * Tags split across chunks are handled by holding back a possible tag prefix until the next chunk.
+ * Whitespace between a thinking section and the answer is dropped.
+ */
+export const createThinkingParser = (): ThinkingParser => {
+  let buffer = '';
+  let inThinking = false;
+  let answerStarted = false;
+
+  const append = (parts: ThinkingParts, text: string) => {
+    if (inThinking) {
+      parts.thinking += text;
+      return;
+    }
+    const kept = answerStarted ? text : text.trimStart();
+    if (kept) {
+      answerStarted = true;
+      parts.answer += kept;
+    }
+  };
+
+  return {
+    push: (text) => {
+      const parts = { thinking: '', answer: '' };
+      buffer += text;
+      while (buffer) {
+        const tag = inThinking ? CLOSE_TAG : OPEN_TAG;
+        const index = buffer.indexOf(tag);
+        if (index !== -1) {
+          append(parts, buffer.slice(0, index));
+          buffer = buffer.slice(index + tag.length);
+          inThinking = !inThinking;
+          if (!inThinking) answerStarted = false;
+          continue;
+        }
+        const held = partialTagLength(buffer, tag);
+        append(parts, buffer.slice(0, buffer.length - held));
+        buffer = buffer.slice(buffer.length - held);
+        break;
+      }
+      return parts;
+    },
+    end: () => {
+      const parts = { thinking: '', answer: '' };
+      append(parts, buffer);
+      buffer = '';
+      return parts;
+    },
+  };
+};
+
+/**
+ * Splits a complete response into its reasoning and its answer, both trimmed.
+ */
+export const splitThinking = (text: string): ThinkingParts => {
+  const parser = createThinkingParser();
+  const first = parser.push(text);
+  const rest = parser.end();
+  return { thinking: (first.thinking + rest.thinking).trim(), answer: (first.answer + rest.answer).trim() };
+};
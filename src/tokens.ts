@@ -0,0 +1,136 @@
+import { EnigmaConfig, validateModelName } from './config.js';
+import { DEFAULT_CONTEXT_WINDOW, findModel } from './models.js';
+import { askPerplexity, ChatMessage } from './perplexity.js';
+
+// Rough heuristic: English prose and code average about four characters per token.
+const CHARS_PER_TOKEN = 4;
+// Per-message framing overhead (role markers, separators) added by the chat template.
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+export const SUMMARY_PREFIX = 'Summary of the earlier conversation:';
+
+export type ContextUsage = {
+  model: string;
+  contextWindow: number;
+  /** Tokens used by the system prompt, history and the new question (with any attached files). */
+  promptTokens: number;
+  /** Tokens kept free for the answer (agent.max_tokens). */
+  responseTokens: number;
+  /** Tokens still free after the prompt and the reserved response. */
+  remainingTokens: number;
+  fits: boolean;
+};
+
+export type CompactionResult = {
+  history: ChatMessage[];
+  compacted: 'none' | 'trimmed' | 'summarized';
+  usage: ContextUsage;
+};
+
+export type Summarizer = (messages: ChatMessage[]) => Promise<string>;
+
+export const estimateTokens = (text: string): number => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+export const estimateMessageTokens = (messages: ChatMessage[]): number =>
+  messages.reduce((total, message) => total + estimateTokens(message.content) + MESSAGE_OVERHEAD_TOKENS, 0);
+
+/**
+ * Resolves the context window for a model, honouring `context.max_context_tokens` when set.
+ */
+export const contextWindowFor = (model: string, config: EnigmaConfig): number => {
+  if (config.context.max_context_tokens > 0) return config.context.max_context_tokens;
+  return findModel(model, config)?.context_window ?? DEFAULT_CONTEXT_WINDOW;
+};
+
+const estimateTextTokens = (text: string): number => (text ? estimateTokens(text) + MESSAGE_OVERHEAD_TOKENS : 0);
+
+/**
+ * Measures how much of the model's context window a request would use. `question` is the prompt as sent,
+ * attachments included, and `systemPrompt` the persona's (or agent's) instructions.
+ */
+export const measureContext = (
+  question: string,
+  history: ChatMessage[],
+  config: EnigmaConfig,
+  model: string,
+  systemPrompt = '',
+): ContextUsage => {
+  const contextWindow = contextWindowFor(model, config);
+  const promptTokens = estimateTextTokens(systemPrompt) + estimateMessageTokens(history) + estimateTextTokens(question);
+  const responseTokens = config.agent.max_tokens;
+  const remainingTokens = contextWindow - promptTokens - responseTokens;
+  return { model, contextWindow, promptTokens, responseTokens, remainingTokens, fits: remainingTokens >= 0 };
+};
+
+/**
+ * Drops the oldest messages until the request fits, always cutting at a user message
+ * so the remaining history still alternates user/assistant.
+ */
+export const trimHistory = (
+  question: string,
+  history: ChatMessage[],
+  config: EnigmaConfig,
+  model: string,
+  systemPrompt = '',
+): ChatMessage[] => {
+  const leading = history[0]?.role === 'system' ? [history[0]] : [];
+  let rest = history.slice(leading.length);
+  while (rest.length > 0 && !measureContext(question, [...leading, ...rest], config, model, systemPrompt).fits) {
+    const nextUser = rest.findIndex((message, index) => index > 0 && message.role === 'user');
+    rest = nextUser === -1 ? [] : rest.slice(nextUser);
+  }
+  const trimmed = [...leading, ...rest];
+  if (leading.length > 0 && !measureContext(question, trimmed, config, model, systemPrompt).fits) {
+    return rest;
+  }
+  return trimmed;
+};
+
+/**
+ * Shortens history so the question plus `agent.max_tokens` fits the model's context window.
+ * With the "summarize" strategy, everything except the most recent `keep_recent_turns` turns
+ * is condensed into a single system message; whatever still does not fit is trimmed.
+ */
+export const compactHistory = async (
+  question: string,
+  history: ChatMessage[],
+  config: EnigmaConfig,
+  model: string,
+  summarize?: Summarizer,
+  systemPrompt = '',
+): Promise<CompactionResult> => {
+  const usage = measureContext(question, history, config, model, systemPrompt);
+  if (usage.fits) {
+    return { history, compacted: 'none', usage };
+  }
+
+  if (config.context.strategy === 'summarize' && summarize) {
+    const keepCount = Math.max(0, config.context.keep_recent_turns) * 2;
+    const older = history.slice(0, Math.max(0, history.length - keepCount));
+    const recent = history.slice(older.length);
+    if (older.length > 0) {
+      const summary = await summarize(older);
+      const summarized: ChatMessage[] = [{ role: 'system', content: `${SUMMARY_PREFIX}\n${summary.trim()}` }, ...recent];
+      const fitted = trimHistory(question, summarized, config, model, systemPrompt);
+      return { history: fitted, compacted: 'summarized', usage: measureContext(question, fitted, config, model, systemPrompt) };
+    }
+  }
+
+  const trimmed = trimHistory(question, history, config, model, systemPrompt);
+  return { history: trimmed, compacted: 'trimmed', usage: measureContext(question, trimmed, config, model, systemPrompt) };
+};
+
+/**
+ * Builds a summarizer that condenses conversation turns with the configured fast model.
+ */
+export const createSummarizer =
+  (config: EnigmaConfig): Summarizer =>
+  async (messages) => {
+    const transcript = messages.map((message) => `${message.role.toUpperCase()}: ${message.content}`).join('\n\n');
+    return askPerplexity(
+      `Summarize this conversation so it can replace the original as context for follow-up questions. ` +
+        `Keep decisions, code identifiers, file names and open questions. Be concise.\n\n${transcript}`,
+      config,
+      { model: validateModelName(config.models.fast, config).model, searchMode: 'low' },
+    );
+  };
@@ -0,0 +1,31 @@
+import chalk from 'chalk';
+import { EnigmaConfig } from './config.js';
+
+const SECRET_HEADERS = new Set(['authorization', 'proxy-authorization', 'cookie', 'set-cookie', 'x-api-key']);
+
+/**
+ * Masks Perplexity API keys anywhere in a traced message.
+ */
+export const redactSecrets = (text: string): string => text.replace(/pplx-[A-Za-z0-9_-]+/g, 'pplx-[redacted]');
+
+/**
+ * Copies request or response headers with credentials replaced. Accepts axios' header objects too.
+ */
+export const redactHeaders = (headers: unknown): Record<string, unknown> => {
+  if (!headers || typeof headers !== 'object') return {};
+  const { toJSON } = headers as { toJSON?: unknown };
+  const plain: unknown = typeof toJSON === 'function' ? toJSON.call(headers) : headers;
+  return Object.fromEntries(
+    Object.entries(plain as Record<string, unknown>).map(([name, value]) => [name, SECRET_HEADERS.has(name.toLowerCase()) ? '[redacted]' : value]),
+  );
+};
+
+/**
+ * Writes a debug line to stderr when output.verbose (or --verbose) is on, so stdout stays clean for piping.
+ * Objects are printed as indented JSON; API keys are always redacted.
+ */
+export const trace = (config: EnigmaConfig, label: string, detail?: unknown) => {
+  if (!config.output.verbose) return;
+  const body = detail === undefined ? '' : typeof detail === 'string' ? ` ${detail}` : ` ${JSON.stringify(detail, null, 2)}`;
+  console.error(chalk.gray(redactSecrets(`[verbose] ${label}${body}`)));
+};
@@ -0,0 +1,244 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import chalk from 'chalk';
+import { EnigmaConfig } from './config.js';
+import { findModel } from './models.js';
+import { TokenUsage } from './perplexity.js';
+
+// One ledger per user rather than per project, so spend from every directory counts toward the budgets.
+const USAGE_FILE = path.join('.enigma', 'usage.jsonl');
+
+/**
+ * One request in the ledger. Cost is estimated from the model's per-token pricing.
+ */
+export type UsageEntry = {
+  timestamp: string;
+  /** CLI command that made the request, e.g. "ask" or "template run". */
+  command?: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  searches: number;
+  latencyMs: number;
+  /** Null when the API reported no usage or the model has no known pricing. */
+  costUsd: number | null;
+};
+
+export type UsageGrouping = 'model' | 'day' | 'command';
+
+export type UsageSummaryRow = {
+  key: string;
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  searches: number;
+  costUsd: number;
+  /** Requests whose cost could not be estimated, so `costUsd` is a lower bound. */
+  unpriced: number;
+};
+
+export type BudgetStatus = {
+  period: 'daily' | 'monthly';
+  spentUsd: number;
+  limitUsd: number;
+};
+
+let currentCommand: string | undefined;
+
+/**
+ * Names the CLI command whose requests are being recorded, so the ledger can be grouped by workflow.
+ */
+export const setUsageCommand = (command: string | undefined) => {
+  currentCommand = command;
+};
+
+export const usagePath = (baseDir = os.homedir()): string => path.join(baseDir, USAGE_FILE);
+
+export const estimateCost = (model: string, usage: TokenUsage | undefined, config: EnigmaConfig): number | null => {
+  const pricing = findModel(model, config)?.pricing;
+  if (!usage || !pricing) return null;
+  return (usage.promptTokens * pricing.input + usage.completionTokens * pricing.output) / 1_000_000;
+};
+
+/**
+ * Builds the ledger entry for a completed request.
+ */
+export const toUsageEntry = (
+  model: string,
+  usage: TokenUsage | undefined,
+  latencyMs: number,
+  config: EnigmaConfig,
+  now = new Date(),
+): UsageEntry => ({
+  timestamp: now.toISOString(),
+  ...(currentCommand ? { command: currentCommand } : {}),
+  model,
+  promptTokens: usage?.promptTokens ?? 0,
+  completionTokens: usage?.completionTokens ?? 0,
+  totalTokens: usage?.totalTokens ?? 0,
+  searches: usage?.searchQueries ?? 0,
+  latencyMs,
+  costUsd: estimateCost(model, usage, config),
+});
+
+/**
+ * Appends a request to ~/.enigma/usage.jsonl (owner-only permissions) when usage.track is on.
+ */
+export const recordUsage = (entry: UsageEntry, config: EnigmaConfig, baseDir = os.homedir()) => {
+  if (!config.usage.track) return;
+  const filePath = usagePath(baseDir);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.appendFileSync(filePath, `${JSON.stringify(entry)}\n`, { encoding: 'utf-8', mode: 0o600 });
+};
+
+/**
+ * Reads the ledger, skipping lines that are not valid entries.
+ */
+export const readUsage = (baseDir = os.homedir()): UsageEntry[] => {
+  const filePath = usagePath(baseDir);
+  if (!fs.existsSync(filePath)) return [];
+  return fs
+    .readFileSync(filePath, 'utf-8')
+    .split('\n')
+    .flatMap((line) => {
+      if (!line.trim()) return [];
+      try {
+        const entry = JSON.parse(line);
+        return typeof entry?.timestamp === 'string' && typeof entry?.model === 'string' ? [entry as UsageEntry] : [];
+      } catch {
+        return [];
+      }
+    });
+};
+
+/**
+ * Parses --since: a duration back from now ("12h", "7d", "2w") or a date ("2026-10-01").
+ */
+export const parseSince = (value: string, now = new Date()): Date | undefined => {
+  const duration = value.trim().match(/^(\d+)\s*([hdw])$/i);
+  if (duration) {
+    const hours = Number(duration[1]) * { h: 1, d: 24, w: 24 * 7 }[duration[2].toLowerCase() as 'h' | 'd' | 'w'];
+    return new Date(now.getTime() - hours * 3_600_000);
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value.trim())) return undefined;
+  const date = new Date(`${value.trim()}T00:00:00`);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+};
+
+const localDay = (timestamp: string): string => {
+  const date = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const groupKey = (entry: UsageEntry, by: UsageGrouping): string => {
+  switch (by) {
+    case 'day':
+      return localDay(entry.timestamp);
+    case 'command':
+      return entry.command ?? 'unknown';
+    case 'model':
+    default:
+      return entry.model;
+  }
+};
+
+/**
+ * Totals ledger entries per model, day or command, most expensive first (days in date order).
+ */
+export const summarizeUsage = (entries: UsageEntry[], by: UsageGrouping = 'model'): UsageSummaryRow[] => {
+  const rows = new Map<string, UsageSummaryRow>();
+  for (const entry of entries) {
+    const key = groupKey(entry, by);
+    const row = rows.get(key) ?? {
+      key,
+      requests: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      totalTokens: 0,
+      searches: 0,
+      costUsd: 0,
+      unpriced: 0,
+    };
+    row.requests += 1;
+    row.promptTokens += entry.promptTokens;
+    row.completionTokens += entry.completionTokens;
+    row.totalTokens += entry.totalTokens;
+    row.searches += entry.searches;
+    if (entry.costUsd === null) row.unpriced += 1;
+    else row.costUsd += entry.costUsd;
+    rows.set(key, row);
+  }
+  const sorted = [...rows.values()];
+  return by === 'day' ? sorted.sort((a, b) => a.key.localeCompare(b.key)) : sorted.sort((a, b) => b.costUsd - a.costUsd || b.requests - a.requests);
+};
+
+export const formatCost = (usd: number): string => `$${usd < 1 && usd > 0 ? usd.toFixed(4) : usd.toFixed(2)}`;
+
+/**
+ * Renders summary rows as an aligned text table with a total line.
+ */
+export const formatUsageTable = (rows: UsageSummaryRow[], by: UsageGrouping): string => {
+  const total = rows.reduce(
+    (sum, row) => ({
+      ...sum,
+      requests: sum.requests + row.requests,
+      promptTokens: sum.promptTokens + row.promptTokens,
+      completionTokens: sum.completionTokens + row.completionTokens,
+      totalTokens: sum.totalTokens + row.totalTokens,
+      searches: sum.searches + row.searches,
+      costUsd: sum.costUsd + row.costUsd,
+      unpriced: sum.unpriced + row.unpriced,
+    }),
+    { key: 'total', requests: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, searches: 0, costUsd: 0, unpriced: 0 },
+  );
+  const cells = [rows, [total]].flat().map((row) => [
+    row.key,
+    String(row.requests),
+    row.promptTokens.toLocaleString('en-US'),
+    row.completionTokens.toLocaleString('en-US'),
+    row.totalTokens.toLocaleString('en-US'),
+    String(row.searches),
+    `${formatCost(row.costUsd)}${row.unpriced > 0 ? '+' : ''}`,
+  ]);
+  const header = [by, 'requests', 'prompt', 'completion', 'total', 'searches', 'est. cost'];
+  const widths = header.map((title, column) => Math.max(title.length, ...cells.map((row) => row[column].length)));
+  const line = (row: string[]) => row.map((cell, column) => (column === 0 ? cell.padEnd(widths[column]) : cell.padStart(widths[column]))).join('  ');
+  return [header, ...cells].map(line).join('\n');
+};
+
+const startOfDay = (now: Date): Date => new Date(now.getFullYear(), now.getMonth(), now.getDate());
+const startOfMonth = (now: Date): Date => new Date(now.getFullYear(), now.getMonth(), 1);
+
+const spentSince = (entries: UsageEntry[], since: Date): number =>
+  entries.filter((entry) => new Date(entry.timestamp) >= since).reduce((sum, entry) => sum + (entry.costUsd ?? 0), 0);
+
+/**
+ * Estimated spend against each configured budget for the current calendar day and month.
+ */
+export const budgetStatus = (config: EnigmaConfig, entries: UsageEntry[], now = new Date()): BudgetStatus[] => [
+  ...(config.usage.daily_budget > 0
+    ? [{ period: 'daily' as const, spentUsd: spentSince(entries, startOfDay(now)), limitUsd: config.usage.daily_budget }]
+    : []),
+  ...(config.usage.monthly_budget > 0
+    ? [{ period: 'monthly' as const, spentUsd: spentSince(entries, startOfMonth(now)), limitUsd: config.usage.monthly_budget }]
+    : []),
+];
+
+/**
+ * Checks the daily and monthly budgets before a request. Once one is spent, the request is refused
+ * when usage.budget_action is "block"; otherwise a warning is printed and the request goes ahead.
+ */
+export const enforceBudget = (config: EnigmaConfig, baseDir = os.homedir(), now = new Date()) => {
+  if (config.usage.daily_budget <= 0 && config.usage.monthly_budget <= 0) return;
+  const exceeded = budgetStatus(config, readUsage(baseDir), now).find((status) => status.spentUsd >= status.limitUsd);
+  if (!exceeded) return;
+  const message = `The ${exceeded.period} budget of ${formatCost(exceeded.limitUsd)} is used up (${formatCost(exceeded.spentUsd)} estimated spend).`;
+  if (config.usage.budget_action === 'block') {
+    throw new Error(`${message} Raise usage.${exceeded.period}_budget in .pplxrc to continue.`);
+  }
+  console.error(chalk.yellow(`${message} Sending the request anyway (usage.budget_action is "warn").`));
+};
@@ -0,0 +1,147 @@
+import fs from 'fs';
+import path from 'path';
+import { EnigmaConfig } from './config.js';
+import { AttachedFile, formatAttachments, isBinary, listProjectFiles } from './files.js';
+import { estimateTokens } from './tokens.js';
+
+export type WorkspaceContext = {
+  /** Indented tree of the project's files, possibly truncated. */
+  tree: string;
+  /** Files in the project that are not .gitignored. */
+  fileCount: number;
+  /** Most relevant files, in order of relevance, that fit in the budget. */
+  files: AttachedFile[];
+  /** Relevant files left out because the budget ran out. */
+  omitted: string[];
+  /** Estimated tokens of the formatted context. */
+  tokens: number;
+};
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'was', 'were', 'with', 'this', 'that', 'these', 'those', 'from', 'into', 'what', 'where',
+  'when', 'which', 'who', 'why', 'how', 'does', 'did', 'done', 'can', 'could', 'should', 'would', 'will', 'there',
+  'here', 'about', 'code', 'repo', 'repository', 'project', 'file', 'files', 'handled', 'handle', 'handles', 'used',
+  'use', 'uses', 'defined', 'define', 'implemented', 'find', 'show', 'explain', 'work', 'works', 'happen', 'happens',
+  'our', 'your', 'you', 'its', 'all', 'any', 'not', 'but', 'has', 'have', 'get', 'set',
+]);
+
+// Spelled-out words and the abbreviations code tends to use for them.
+const ABBREVIATIONS: Record<string, string> = {
+  environment: 'env', variable: 'var', configuration: 'config', directory: 'dir', authentication: 'auth',
+  authorization: 'auth', repository: 'repo', message: 'msg', request: 'req', response: 'res', arguments: 'args',
+  argument: 'arg', parameter: 'param', database: 'db', temporary: 'tmp', initialize: 'init', error: 'err',
+};
+
+// Files that describe the project, worth including when nothing else matches the question.
+const OVERVIEW_FILES = /^(readme(\.\w+)?|package\.json|pyproject\.toml|cargo\.toml|go\.mod)$/i;
+
+// Identifiers are split at camelCase and snake_case boundaries, so "loadConfig" also finds "load_config" and "config.ts".
+const splitIdentifier = (word: string): string[] =>
+  word
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .split(/[\s_-]+/)
+    .map((part) => part.toLowerCase());
+
+// The word, its singular and the abbreviation code would use, e.g. "variables" -> variables, variable, var.
+const wordForms = (word: string): string[] => {
+  const singular = word.length > 4 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word;
+  return [word, singular, ABBREVIATIONS[singular] ?? singular];
+};
+
+/**
+ * Words from a question worth searching the project for: identifiers and their parts, without common question words.
+ */
+export const questionKeywords = (question: string): string[] => {
+  const words = question.match(/[A-Za-z_][\w-]*/g) ?? [];
+  const keywords = words
+    .flatMap((word) => [word.toLowerCase(), ...splitIdentifier(word)])
+    .filter((word) => !STOP_WORDS.has(word))
+    .flatMap(wordForms);
+  return [...new Set(keywords)].filter((word) => word.length >= 3);
+};
+
+const countOccurrences = (text: string, word: string, cap: number): number => {
+  let count = 0;
+  for (let index = text.indexOf(word); index !== -1 && count < cap; index = text.indexOf(word, index + word.length)) count++;
+  return count;
+};
+
+/**
+ * Scores how relevant a file is to the keywords: matches in its path count most, then mentions in its contents.
+ */
+export const scoreFile = (filePath: string, content: string, keywords: string[]): number => {
+  const lowerPath = filePath.toLowerCase();
+  const lowerContent = content.toLowerCase();
+  const score = keywords.reduce((total, keyword) => {
+    const mentions = countOccurrences(lowerContent, keyword, 64);
+    return total + (lowerPath.includes(keyword) ? 10 : 0) + (mentions > 0 ? 2 + Math.log2(mentions) : 0);
+  }, 0);
+  return score + (OVERVIEW_FILES.test(path.posix.basename(filePath)) ? 1 : 0);
+};
+
+/**
+ * Renders paths as an indented tree, listing at most `maxEntries` files.
+ */
+export const renderFileTree = (paths: string[], maxEntries: number): string => {
+  const lines: string[] = [];
+  let previous: string[] = [];
+  for (const filePath of paths.slice(0, maxEntries)) {
+    const segments = filePath.split('/');
+    const directories = segments.slice(0, -1);
+    let shared = 0;
+    while (shared < directories.length && directories[shared] === previous[shared]) shared++;
+    directories.slice(shared).forEach((directory, offset) => lines.push(`${'  '.repeat(shared + offset)}${directory}/`));
+    lines.push(`${'  '.repeat(directories.length)}${segments[segments.length - 1]}`);
+    previous = directories;
+  }
+  if (paths.length > maxEntries) lines.push(`... ${paths.length - maxEntries} more files`);
+  return lines.join('\n');
+};
+
+export const formatWorkspaceContext = (context: Pick<WorkspaceContext, 'tree' | 'fileCount' | 'files'>): string => {
+  const tree = `Project files (${context.fileCount}):\n\`\`\`\n${context.tree}\n\`\`\``;
+  return context.files.length > 0 ? `${tree}\n\nRelevant files:\n\n${formatAttachments(context.files)}` : tree;
+};
+
+/**
+ * Walks the project (respecting .gitignore) and packs its file tree plus the files most relevant to the
+ * question into workspace.budget_tokens. Binaries and files over attachments.max_file_bytes are never included.
+ */
+export const buildWorkspaceContext = (question: string, config: EnigmaConfig, baseDir = process.cwd()): WorkspaceContext => {
+  const paths = listProjectFiles(baseDir);
+  const tree = renderFileTree(paths, config.workspace.max_tree_entries);
+  const keywords = questionKeywords(question);
+
+  const candidates = paths
+    .flatMap((filePath) => {
+      const absolute = path.join(baseDir, filePath);
+      if (fs.statSync(absolute).size > config.attachments.max_file_bytes) return [];
+      const buffer = fs.readFileSync(absolute);
+      if (isBinary(buffer)) return [];
+      const content = buffer.toString('utf-8');
+      const score = scoreFile(filePath, content, keywords);
+      return score > 0 ? [{ file: { path: filePath, content, bytes: buffer.length }, score }] : [];
+    })
+    .sort((a, b) => b.score - a.score || a.file.path.localeCompare(b.file.path));
+
+  let remaining = config.workspace.budget_tokens - estimateTokens(formatWorkspaceContext({ tree, fileCount: paths.length, files: [] }));
+  const files: AttachedFile[] = [];
+  const omitted: string[] = [];
+  for (const { file } of candidates) {
+    const cost = estimateTokens(formatAttachments([file])) + 1;
+    if (cost <= remaining) {
+      files.push(file);
+      remaining -= cost;
+    } else {
+      omitted.push(file.path);
+    }
+  }
+  const context = { tree, fileCount: paths.length, files, omitted };
+  return { ...context, tokens: estimateTokens(formatWorkspaceContext(context)) };
+};
+
+/**
+ * The question as sent with --with-repo: the workspace context first, then the question itself.
+ */
+export const withWorkspaceContext = (question: string, context: WorkspaceContext): string =>
+  question.trim() ? `${formatWorkspaceContext(context)}\n\nQuestion: ${question}` : formatWorkspaceContext(context);
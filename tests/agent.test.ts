@@ -0,0 +1,199 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { AgentHooks, AGENT_STEP_SCHEMA, describeToolCall, fitAgentHistory, parseToolCall, runAgent } from '../src/agent.js';
+import { defaultConfig, EnigmaConfig } from '../src/config.js';
+import { AskOptions, ChatMessage, PerplexityAnswer } from '../src/perplexity.js';
+
+const withIterations = (max_iterations: number): EnigmaConfig => ({ ...defaultConfig, agent: { ...defaultConfig.agent, max_iterations } });
+
+const reply = (content: unknown): PerplexityAnswer => ({
+  content: typeof content === 'string' ? content : JSON.stringify(content),
+  citations: [],
+  timing: { totalMs: 1 },
+});
+
+// A fake API that plays back replies in order and records what it was sent.
+const scripted = (replies: unknown[]) => {
+  const calls: { question: string; options: AskOptions }[] = [];
+  const request = async (question: string, _config: EnigmaConfig, options: AskOptions) => {
+    calls.push({ question, options });
+    return reply(replies[calls.length - 1]);
+  };
+  return { calls, request };
+};
+
+let baseDir: string;
+let logs: string[];
+
+const hooks = (overrides: Partial<AgentHooks>): AgentHooks => ({
+  approve: () => true,
+  log: (message) => logs.push(message),
+  baseDir,
+  ...overrides,
+});
+
+beforeEach(() => {
+  baseDir = fs.mkdtempSync(path.join(os.tmpdir(), 'enigma-agent-'));
+  logs = [];
+  fs.mkdirSync(path.join(baseDir, 'src'));
+  fs.writeFileSync(path.join(baseDir, '.gitignore'), '.env\n');
+  fs.writeFileSync(path.join(baseDir, '.env'), 'PPLX_API_KEY=pplx-secret\n');
+  fs.writeFileSync(path.join(baseDir, 'src', 'timeout.ts'), 'export const TIMEOUT = 30000;\n');
+});
+
+afterEach(() => {
+  fs.rmSync(baseDir, { recursive: true, force: true });
+});
+
+describe('parseToolCall', () => {
+  it('accepts a known tool with its arguments, fenced or not', () => {
+    expect(parseToolCall('{"tool":"read_file","path":"src/a.ts"}')).toEqual({ call: { tool: 'read_file', path: 'src/a.ts' } });
+    expect(parseToolCall('```json\n{"tool":"list_dir"}\n```')).toEqual({ call: { tool: 'list_dir' } });
+  });
+
+  it('explains what is wrong with an invalid call', () => {
+    expect(parseToolCall('I will read the file now.').error).toContain('response is not valid JSON');
+    expect(parseToolCall('{"tool":"delete_file"}').error).toContain('$.tool: must be one of');
+    expect(parseToolCall('{"tool":"propose_edit","path":"a.ts"}').error).toBe('propose_edit needs "search" and "replace"');
+  });
+});
+
+describe('describeToolCall', () => {
+  it('summarizes calls for the log', () => {
+    expect(describeToolCall({ tool: 'grep', pattern: 'TIMEOUT', path: 'src' })).toBe('grep "TIMEOUT" in src');
+    expect(describeToolCall({ tool: 'list_dir' })).toBe('list_dir .');
+  });
+});
+
+describe('runAgent', () => {
+  it('runs tools, sends their results back and returns the final answer', async () => {
+    const { calls, request } = scripted([
+      { tool: 'list_dir', path: 'src' },
+      { tool: 'grep', pattern: 'TIMEOUT' },
+      { tool: 'read_file', path: 'src/timeout.ts' },
+      { tool: 'finish', answer: 'The timeout is 30 seconds.' },
+    ]);
+    const result = await runAgent('What is the timeout?', defaultConfig, {}, hooks({ request }));
+
+    expect(result).toMatchObject({ finished: true, iterations: 4, edited: [] });
+    expect(result.answer.content).toBe('The timeout is 30 seconds.');
+    expect(calls[0].question).toBe('Task: What is the timeout?');
+    expect(calls[0].options.responseSchema).toBe(AGENT_STEP_SCHEMA);
+    expect(calls[0].options.systemPrompt).toContain('coding agent');
+    expect(calls[1].question).toBe('Result of list_dir src:\ntimeout.ts');
+    expect(calls[2].question).toBe('Result of grep "TIMEOUT":\nsrc/timeout.ts:1: export const TIMEOUT = 30000;');
+    expect(calls[3].question).toBe('Result of read_file src/timeout.ts:\nexport const TIMEOUT = 30000;\n');
+    expect(calls[3].options.history).toHaveLength(6);
+    expect(logs).toEqual([
+      '[1/10] list_dir src',
+      '       -> 1 line(s)',
+      '[2/10] grep "TIMEOUT"',
+      '       -> 1 line(s)',
+      '[3/10] read_file src/timeout.ts',
+      '       -> 2 line(s)',
+      '[4/10] finish',
+    ]);
+  });
+
+  it('keeps tools inside the project and away from ignored files', async () => {
+    const { calls, request } = scripted([
+      { tool: 'read_file', path: '.env' },
+      { tool: 'read_file', path: '../outside.txt' },
+      { tool: 'finish', answer: 'done' },
+    ]);
+    await runAgent('Read the secrets', defaultConfig, {}, hooks({ request }));
+    expect(calls[1].question).toBe('Result of read_file .env:\nError: .env is ignored by .gitignore and cannot be read.');
+    expect(calls[2].question).toBe('Result of read_file ../outside.txt:\nError: ../outside.txt is outside the project.');
+  });
+
+  it('does not follow symlinks out of the project', async () => {
+    const outside = fs.mkdtempSync(path.join(os.tmpdir(), 'enigma-outside-'));
+    fs.writeFileSync(path.join(outside, 'id_rsa'), 'PRIVATE KEY\n');
+    fs.symlinkSync(outside, path.join(baseDir, 'keys'));
+    fs.symlinkSync(path.join(outside, 'id_rsa'), path.join(baseDir, 'key.txt'));
+    const { calls, request } = scripted([
+      { tool: 'read_file', path: 'keys/id_rsa' },
+      { tool: 'read_file', path: 'key.txt' },
+      { tool: 'propose_edit', path: 'keys/new.txt', search: '', replace: 'pwned' },
+      { tool: 'grep', pattern: 'PRIVATE', path: 'keys' },
+      { tool: 'finish', answer: 'done' },
+    ]);
+    await runAgent('Read the keys', defaultConfig, {}, hooks({ request }));
+    expect(calls[1].question).toBe('Result of read_file keys/id_rsa:\nError: keys/id_rsa is outside the project.');
+    expect(calls[2].question).toBe('Result of read_file key.txt:\nError: key.txt is outside the project.');
+    expect(calls[3].question).toContain('Error: keys/new.txt is outside the project.');
+    expect(calls[4].question).toContain('Error: keys is outside the project.');
+    expect(fs.existsSync(path.join(outside, 'new.txt'))).toBe(false);
+    fs.rmSync(outside, { recursive: true, force: true });
+  });
+
+  it('greps for literal text, so patterns from the model cannot run away', async () => {
+    fs.writeFileSync(path.join(baseDir, 'src', 'slow.ts'), `${'a'.repeat(40)}!\nconst pattern = /(a+)+$/;\n`);
+    const { calls, request } = scripted([
+      { tool: 'grep', pattern: '(a+)+$' },
+      { tool: 'grep', pattern: 'x'.repeat(201) },
+      { tool: 'finish', answer: 'done' },
+    ]);
+    await runAgent('Find the pattern', defaultConfig, {}, hooks({ request }));
+    expect(calls[1].question).toBe('Result of grep "(a+)+$":\nsrc/slow.ts:2: const pattern = /(a+)+$/;');
+    expect(calls[2].question).toContain('Error: The pattern is longer than 200 characters.');
+  });
+
+  it('writes proposed edits only when approved', async () => {
+    const edit = { tool: 'propose_edit', path: 'src/timeout.ts', search: '30000', replace: '60000' };
+    const previews: string[] = [];
+    const declined = scripted([edit, { tool: 'finish', answer: 'Left it.' }]);
+    await runAgent('Double the timeout', defaultConfig, {}, hooks({ request: declined.request, approve: () => false }));
+    expect(fs.readFileSync(path.join(baseDir, 'src', 'timeout.ts'), 'utf-8')).toBe('export const TIMEOUT = 30000;\n');
+    expect(declined.calls[1].question).toContain('The user declined this edit.');
+
+    const approved = scripted([edit, { tool: 'propose_edit', path: 'src/new.ts', search: '', replace: 'export {};' }, { tool: 'finish', answer: 'Done.' }]);
+    const result = await runAgent('Double the timeout', defaultConfig, {}, hooks({
+      request: approved.request,
+      approve: (preview) => {
+        previews.push(preview);
+        return true;
+      },
+    }));
+    expect(fs.readFileSync(path.join(baseDir, 'src', 'timeout.ts'), 'utf-8')).toBe('export const TIMEOUT = 60000;\n');
+    expect(fs.readFileSync(path.join(baseDir, 'src', 'new.ts'), 'utf-8')).toBe('export {};\n');
+    expect(result.edited).toEqual(['src/timeout.ts', 'src/new.ts']);
+    expect(previews[0]).toContain('+export const TIMEOUT = 60000;');
+  });
+
+  it('asks again after an invalid reply and stops at agent.max_iterations', async () => {
+    const { calls, request } = scripted(['Let me think.', { tool: 'list_dir' }, { tool: 'list_dir' }]);
+    const result = await runAgent('Loop forever', withIterations(3), {}, hooks({ request }));
+    expect(result).toMatchObject({ finished: false, iterations: 3 });
+    expect(calls).toHaveLength(3);
+    expect(calls[1].question).toContain('That was not a valid tool call');
+    expect(logs[0]).toContain('[1/3] invalid tool call: response is not valid JSON');
+  });
+});
+
+describe('fitAgentHistory', () => {
+  const config: EnigmaConfig = { ...defaultConfig, context: { ...defaultConfig.context, max_context_tokens: 1200 }, agent: { ...defaultConfig.agent, max_tokens: 200 } };
+  const history: ChatMessage[] = [
+    { role: 'user', content: 'Task: Explain the config' },
+    { role: 'assistant', content: '{"tool":"read_file","path":"a.ts"}' },
+    { role: 'user', content: `Result of read_file a.ts:\n${'a'.repeat(2400)}` },
+    { role: 'assistant', content: '{"tool":"read_file","path":"b.ts"}' },
+    { role: 'user', content: `Result of read_file b.ts:\n${'b'.repeat(2400)}` },
+    { role: 'assistant', content: '{"tool":"list_dir"}' },
+  ];
+
+  it('keeps the history when it fits', () => {
+    expect(fitAgentHistory('Result of list_dir .:\nsrc/', history.slice(0, 2), config, 'sonar')).toEqual(history.slice(0, 2));
+  });
+
+  it('drops the oldest tool results first and keeps the task', () => {
+    const fitted = fitAgentHistory('Result of list_dir .:\nsrc/', history, config, 'sonar');
+    expect(fitted).toHaveLength(history.length);
+    expect(fitted[0]).toEqual(history[0]);
+    expect(fitted[2].content).toBe('Result of read_file a.ts:\n(omitted to save context; call the tool again if you still need it)');
+    expect(fitted[4]).toEqual(history[4]);
+    expect(history[2].content).toHaveLength('Result of read_file a.ts:\n'.length + 2400);
+  });
+});
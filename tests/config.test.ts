@@ -56,15 +56,61 @@ describe('loadConfig', () => {
     vi.stubEnv('PPLX_SEARCH_MODE', 'high');
     vi.stubEnv('PPLX_INCLUDE_CITATIONS', 'false');
     vi.stubEnv('PPLX_FOCUS_ON_RECENT', 'false');
+    vi.stubEnv('PPLX_RESEARCH_JOB_TIMEOUT', '900000');
+    vi.stubEnv('PPLX_SHOW_THINKING', 'true');
 
     const { loadConfig } = await import('../src/config.js');
     const config = loadConfig(baseDir);
 
+    expect(config.output.show_thinking).toBe(true);
+    expect(config.research.job_timeout).toBe(900000);
     expect(config.research.search_mode).toBe('high');
     expect(config.research.include_citations).toBe(false);
     expect(config.research.focus_on_recent).toBe(false);
   });
 
+  it('applies search filters from environment variables', async () => {
+    const baseDir = fs.mkdtempSync(path.join(os.tmpdir(), 'enigma-config-filters-'));
+    vi.stubEnv('PPLX_SEARCH_RECENCY', 'week');
+    vi.stubEnv('PPLX_ALLOWED_DOMAINS', 'https://learn.microsoft.com/en-us/, docs.github.com');
+    vi.stubEnv('PPLX_BLOCKED_DOMAINS', 'www.pinterest.com');
+    vi.stubEnv('PPLX_SEARCH_AFTER_DATE', '2026-01-01');
+    vi.stubEnv('PPLX_SEARCH_BEFORE_DATE', '2026-13-01');
+
+    const { loadConfig } = await import('../src/config.js');
+    const config = loadConfig(baseDir);
+
+    expect(config.research.recency).toBe('week');
+    expect(config.research.allowed_domains).toEqual(['learn.microsoft.com', 'docs.github.com']);
+    expect(config.research.blocked_domains).toEqual(['pinterest.com']);
+    expect(config.research.after_date).toBe('2026-01-01');
+    expect(config.research.before_date).toBe('');
+  });
+
+  it('applies attachment and stdin limits from environment variables', async () => {
+    const baseDir = fs.mkdtempSync(path.join(os.tmpdir(), 'enigma-config-attachments-'));
+    vi.stubEnv('PPLX_ATTACH_MAX_FILE_BYTES', '2048');
+    vi.stubEnv('PPLX_ATTACH_MAX_TOTAL_BYTES', '8192');
+    vi.stubEnv('PPLX_FILE_MENTIONS', 'false');
+    vi.stubEnv('PPLX_MAX_STDIN_BYTES', '4096');
+
+    const { loadConfig } = await import('../src/config.js');
+    const config = loadConfig(baseDir);
+
+    expect(config.attachments).toEqual({ max_file_bytes: 2048, max_total_bytes: 8192, mentions: false, max_stdin_bytes: 4096 });
+  });
+
+  it('applies workspace budgets from environment variables', async () => {
+    const baseDir = fs.mkdtempSync(path.join(os.tmpdir(), 'enigma-config-workspace-'));
+    vi.stubEnv('PPLX_WORKSPACE_BUDGET_TOKENS', '4000');
+    vi.stubEnv('PPLX_WORKSPACE_TREE_ENTRIES', '50');
+
+    const { loadConfig } = await import('../src/config.js');
+    const config = loadConfig(baseDir);
+
+    expect(config.workspace).toEqual({ budget_tokens: 4000, max_tree_entries: 50 });
+  });
+
   it('applies output config from environment variables', async () => {
     const baseDir = fs.mkdtempSync(path.join(os.tmpdir(), 'enigma-config-output-'));
     vi.stubEnv('PPLX_OUTPUT_FORMAT', 'json');
@@ -77,6 +123,18 @@ describe('loadConfig', () => {
     expect(config.output.verbose).toBe(true);
   });
 
+  it('applies context config from environment variables', async () => {
+    const baseDir = fs.mkdtempSync(path.join(os.tmpdir(), 'enigma-config-context-'));
+    vi.stubEnv('PPLX_CONTEXT_STRATEGY', 'summarize');
+    vi.stubEnv('PPLX_CONTEXT_MAX_TOKENS', '32000');
+    vi.stubEnv('PPLX_CONTEXT_KEEP_RECENT_TURNS', '2');
+
+    const { loadConfig } = await import('../src/config.js');
+    const config = loadConfig(baseDir);
+
+    expect(config.context).toEqual({ strategy: 'summarize', max_context_tokens: 32000, keep_recent_turns: 2 });
+  });
+
   it('merges values from .pplxrc when present', async () => {
     const baseDir = fs.mkdtempSync(path.join(os.tmpdir(), 'enigma-config-file-'));
 
@@ -98,6 +156,31 @@ output:
     expect(config.output.format).toBe('json');
   });
 
+  it('reports the config file and env overrides it used', async () => {
+    const baseDir = fs.mkdtempSync(path.join(os.tmpdir(), 'enigma-config-sources-'));
+    fs.writeFileSync(path.join(baseDir, '.pplxrc'), 'output:\n  verbose: true\n');
+    vi.stubEnv('PPLX_SEARCH_MODE', 'high');
+
+    const { configSources } = await import('../src/config.js');
+    const sources = configSources(baseDir);
+
+    expect(sources.file).toBe(path.join(baseDir, '.pplxrc'));
+    expect(sources.env).toContain('PPLX_SEARCH_MODE');
+    expect(configSources(fs.mkdtempSync(path.join(os.tmpdir(), 'enigma-config-none-'))).file).toBe(undefined);
+  });
+
+  it('keeps focus_on_recent as written in .pplxrc, even without a recency', async () => {
+    const baseDir = fs.mkdtempSync(path.join(os.tmpdir(), 'enigma-config-focus-'));
+    fs.writeFileSync(path.join(baseDir, '.pplxrc'), 'research:\n  search_mode: medium\n  focus_on_recent: true\n');
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const { loadConfig } = await import('../src/config.js');
+    expect(loadConfig(baseDir).research.focus_on_recent).toBe(true);
+    expect(errorSpy).not.toHaveBeenCalled();
+    errorSpy.mockRestore();
+    fs.rmSync(baseDir, { recursive: true, force: true });
+  });
+
   it('gracefully handles malformed YAML', async () => {
     const baseDir = fs.mkdtempSync(path.join(os.tmpdir(), 'enigma-config-bad-'));
     const configPath = path.join(baseDir, '.pplxrc');
@@ -317,6 +400,44 @@ describe('parseOutputFormat', () => {
   });
 });
 
+describe('parseContextStrategy', () => {
+  it('parses valid strategies', async () => {
+    const { parseContextStrategy } = await import('../src/config.js');
+
+    expect(parseContextStrategy('trim')).toBe('trim');
+    expect(parseContextStrategy('summarize')).toBe('summarize');
+  });
+
+  it('returns undefined for invalid strategies', async () => {
+    const { parseContextStrategy } = await import('../src/config.js');
+
+    expect(parseContextStrategy('drop')).toBe(undefined);
+    expect(parseContextStrategy(undefined)).toBe(undefined);
+  });
+});
+
+describe('parseRecency', () => {
+  it('parses recency periods and rejects others', async () => {
+    const { parseRecency } = await import('../src/config.js');
+
+    expect(parseRecency('month')).toBe('month');
+    expect(parseRecency('any')).toBe('any');
+    expect(parseRecency('hourly')).toBe(undefined);
+    expect(parseRecency(undefined)).toBe(undefined);
+  });
+});
+
+describe('parseSearchDate', () => {
+  it('accepts real YYYY-MM-DD dates and empty values', async () => {
+    const { parseSearchDate } = await import('../src/config.js');
+
+    expect(parseSearchDate('2026-02-28')).toBe('2026-02-28');
+    expect(parseSearchDate(' ')).toBe('');
+    expect(parseSearchDate('2026-02-30')).toBe(undefined);
+    expect(parseSearchDate('02/28/2026')).toBe(undefined);
+  });
+});
+
 describe('writeSecureFile', () => {
   it('writes file with mode 0600', async () => {
     const { writeSecureFile } = await import('../src/config.js');
@@ -385,4 +506,74 @@ describe('validateModelName', () => {
     const result = validateModelName('invalid-model', defaultConfig);
     expect(result).toEqual({ model: 'sonar-pro', warned: true });
   });
+
+  it('suggests close model names for typos', async () => {
+    const { validateModelName, defaultConfig } = await import('../src/config.js');
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(validateModelName('sonar-prp', defaultConfig)).toEqual({ model: 'sonar-pro', warned: true });
+    expect(consoleSpy.mock.calls[0][0]).toContain('Did you mean "sonar-pro"');
+    consoleSpy.mockRestore();
+  });
+
+  it('keeps deprecated models but warns about them', async () => {
+    const { validateModelName, defaultConfig } = await import('../src/config.js');
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(validateModelName('sonar-large', defaultConfig)).toEqual({ model: 'sonar-large', warned: true });
+    expect(consoleSpy.mock.calls[0][0]).toContain('deprecated');
+    consoleSpy.mockRestore();
+  });
+
+  it('accepts models declared under custom_models in .pplxrc', async () => {
+    const baseDir = fs.mkdtempSync(path.join(os.tmpdir(), 'enigma-config-models-'));
+    fs.writeFileSync(
+      path.join(baseDir, '.pplxrc'),
+      `
+custom_models:
+  sonar-custom:
+    context_window: 64000
+    reasoning: true
+`,
+    );
+
+    const { loadConfig, validateModelName } = await import('../src/config.js');
+    const config = loadConfig(baseDir);
+
+    expect(config.custom_models['sonar-custom'].context_window).toBe(64000);
+    expect(validateModelName('sonar-custom', config)).toEqual({ model: 'sonar-custom', warned: false });
+  });
+});
+
+describe('resolvePersona', () => {
+  it('returns personas defined in .pplxrc', async () => {
+    const baseDir = fs.mkdtempSync(path.join(os.tmpdir(), 'enigma-config-persona-'));
+    fs.writeFileSync(
+      path.join(baseDir, '.pplxrc'),
+      `
+personas:
+  reviewer:
+    system_prompt: "You are a terse code reviewer."
+    model: "sonar-reasoning-pro"
+    temperature: 0.1
+`,
+    );
+
+    const { loadConfig, resolvePersona } = await import('../src/config.js');
+    const config = loadConfig(baseDir);
+
+    expect(resolvePersona('reviewer', config)).toEqual({
+      system_prompt: 'You are a terse code reviewer.',
+      model: 'sonar-reasoning-pro',
+      temperature: 0.1,
+    });
+  });
+
+  it('lists defined personas when the name is unknown', async () => {
+    const { resolvePersona, defaultConfig } = await import('../src/config.js');
+    const config = { ...defaultConfig, personas: { auditor: { system_prompt: 'Audit.' } } };
+
+    expect(() => resolvePersona('expert', config)).toThrow(/Available personas: auditor/);
+    expect(() => resolvePersona('expert', defaultConfig)).toThrow(/personas:/);
+  });
 });
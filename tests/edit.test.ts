@@ -0,0 +1,210 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import {
+  applyEdits,
+  buildEditPrompt,
+  diffLines,
+  formatDiffPreview,
+  parseEdits,
+  parseReplacementBlocks,
+  parseUnifiedDiff,
+  readEditableFile,
+} from '../src/edit.js';
+
+const source = [
+  'export const add = (a: number, b: number) => {',
+  '  return a + b;',
+  '};',
+  '',
+  'export const subtract = (a: number, b: number) => {',
+  '  return a - b;',
+  '};',
+  '',
+].join('\n');
+
+describe('buildEditPrompt', () => {
+  it('includes the instruction, the file and the reply format', () => {
+    const prompt = buildEditPrompt('src/math.ts', source, 'Add a multiply function');
+    expect(prompt).toContain('Instruction: Add a multiply function');
+    expect(prompt).toContain('<file path="src/math.ts">\nexport const add');
+    expect(prompt).toContain('<<<<<<< SEARCH');
+  });
+});
+
+describe('parseReplacementBlocks', () => {
+  it('reads every SEARCH/REPLACE block', () => {
+    const answer = [
+      'Here you go:',
+      '<<<<<<< SEARCH',
+      '  return a + b;',
+      '=======',
+      '  return b + a;',
+      '>>>>>>> REPLACE',
+      '',
+      '<<<<<<< SEARCH',
+      '  return a - b;',
+      '=======',
+      '>>>>>>> REPLACE',
+    ].join('\n');
+    expect(parseReplacementBlocks(answer)).toEqual([
+      { search: '  return a + b;', replace: '  return b + a;' },
+      { search: '  return a - b;', replace: '' },
+    ]);
+  });
+});
+
+describe('parseUnifiedDiff', () => {
+  it('turns hunks into replacements of context plus removed lines', () => {
+    const diff = [
+      '--- a/src/math.ts',
+      '+++ b/src/math.ts',
+      '@@ -1,3 +1,3 @@',
+      ' export const add = (a: number, b: number) => {',
+      '-  return a + b;',
+      '+  return a + b + 0;',
+      ' };',
+      '\\ No newline at end of file',
+    ].join('\n');
+    expect(parseUnifiedDiff(diff)).toEqual([
+      {
+        search: 'export const add = (a: number, b: number) => {\n  return a + b;\n};',
+        replace: 'export const add = (a: number, b: number) => {\n  return a + b + 0;\n};',
+      },
+    ]);
+  });
+});
+
+describe('parseUnifiedDiff with lines that look like headers', () => {
+  it('keeps removed "-- " and added "++ " lines inside a hunk', () => {
+    const diff = [
+      '--- a/schema.sql',
+      '+++ b/schema.sql',
+      '@@ -1,3 +1,3 @@',
+      '--- users table',
+      '+++ users table (v2)',
+      ' CREATE TABLE users (',
+      '-  id int',
+      '+  id bigint',
+      '--- a/other.sql',
+      '+++ b/other.sql',
+      '@@ -1 +1 @@',
+      '-SELECT 1;',
+      '+SELECT 2;',
+    ].join('\n');
+    expect(parseUnifiedDiff(diff)).toEqual([
+      { search: '-- users table\nCREATE TABLE users (\n  id int', replace: '++ users table (v2)\nCREATE TABLE users (\n  id bigint' },
+      { search: 'SELECT 1;', replace: 'SELECT 2;' },
+    ]);
+  });
+
+  it('keeps "--- " lines in hunks without counts unless a "+++ " header follows', () => {
+    expect(parseUnifiedDiff(['@@ @@', ' a', '--- note', '+b'].join('\n'))).toEqual([{ search: 'a\n-- note', replace: 'a\nb' }]);
+  });
+});
+
+describe('parseEdits', () => {
+  it('reads diffs from ```diff fences and ignores <think> sections and prose', () => {
+    const answer = [
+      '<think>',
+      '<<<<<<< SEARCH',
+      'draft',
+      '=======',
+      'ignored',
+      '>>>>>>> REPLACE',
+      '</think>',
+      'Change the subtraction:',
+      '```diff',
+      '@@ -6 +6 @@',
+      '-  return a - b;',
+      '+  return a - b - 0;',
+      '```',
+      'This keeps the result the same.',
+    ].join('\n');
+    expect(parseEdits(answer)).toEqual([{ search: '  return a - b;', replace: '  return a - b - 0;' }]);
+  });
+});
+
+describe('applyEdits', () => {
+  it('applies exact replacements in order', () => {
+    const result = applyEdits(source, [
+      { search: '  return a + b;', replace: '  return b + a;' },
+      { search: 'export const subtract', replace: 'export const minus' },
+    ]);
+    expect(result.fuzzy).toBe(0);
+    expect(result.text).toContain('  return b + a;');
+    expect(result.text).toContain('export const minus = ');
+  });
+
+  it('places blocks that drifted from the file with fuzzy matching', () => {
+    const result = applyEdits(source, [
+      {
+        search: 'export const subtract = (a: number, b: number) => {\n    return a - b;\n};',
+        replace: 'export const subtract = (a: number, b: number) => {\n    return a - b - 0;\n};',
+      },
+    ]);
+    expect(result.fuzzy).toBe(1);
+    expect(result.text).toContain('  return a - b - 0;');
+    expect(result.text).toContain('  return a + b;');
+  });
+
+  it('appends blocks without search text', () => {
+    expect(applyEdits('a\n', [{ search: '', replace: 'b' }]).text).toBe('a\nb\n');
+  });
+
+  it('refuses to apply anything when a block cannot be found', () => {
+    expect(() =>
+      applyEdits(source, [
+        { search: '  return a + b;', replace: '  return b + a;' },
+        { search: 'class Calculator { divide() { throw new Error("nope"); } }', replace: '' },
+      ]),
+    ).toThrow('Could not find 1 of 2 change(s) in the file, so nothing was written:\n  near "class Calculator');
+  });
+});
+
+describe('diffLines', () => {
+  it('groups kept, removed and added lines', () => {
+    expect(diffLines('a\nb\nc\n', 'a\nB\nc\n')).toEqual([
+      [0, ['a']],
+      [-1, ['b']],
+      [1, ['B']],
+      [0, ['c']],
+    ]);
+  });
+});
+
+describe('formatDiffPreview', () => {
+  it('shows changed lines with context and line numbers', () => {
+    const before = Array.from({ length: 12 }, (_, index) => `line ${index + 1}`).join('\n') + '\n';
+    const after = before.replace('line 2\n', 'line two\n').replace('line 11\n', '');
+    expect(formatDiffPreview('notes.txt', before, after, 1)).toBe(
+      [
+        'notes.txt (+1 -2)',
+        '@@ line 1 @@',
+        ' line 1',
+        '-line 2',
+        '+line two',
+        ' line 3',
+        '@@ line 10 @@',
+        ' line 10',
+        '-line 11',
+        ' line 12',
+      ].join('\n'),
+    );
+  });
+});
+
+describe('readEditableFile', () => {
+  it('normalizes CRLF line endings and remembers them', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'enigma-edit-'));
+    const file = path.join(dir, 'script.ps1');
+    fs.writeFileSync(file, 'Write-Host "a"\r\nWrite-Host "b"\r\n');
+    expect(readEditableFile(file, 1000)).toEqual({ content: 'Write-Host "a"\nWrite-Host "b"\n', crlf: true });
+    expect(() => readEditableFile(file, 10)).toThrow('is larger than 10 bytes (attachments.max_file_bytes)');
+    fs.writeFileSync(file, Buffer.from([0x00, 0x01]));
+    expect(() => readEditableFile(file, 1000)).toThrow('looks like a binary file');
+    expect(() => readEditableFile(path.join(dir, 'missing.ts'), 1000)).toThrow('File not found');
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+});
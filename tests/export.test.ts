@@ -0,0 +1,106 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { defaultConfig } from '../src/config.js';
+import { createSession, recordTurn } from '../src/sessions.js';
+import {
+  escapeHtml,
+  exportTranscript,
+  parseTranscriptFormat,
+  renderTranscript,
+  toTranscriptTurns,
+} from '../src/export.js';
+
+const sampleSession = () => {
+  const now = new Date('2026-01-07T10:00:00Z');
+  const session = createSession(defaultConfig, { model: 'sonar-pro' }, now);
+  recordTurn(session, 'What is a PowerShell profile?', { content: 'A script that runs at startup.' }, now);
+  session.messages[1].citations = [{ url: 'https://learn.microsoft.com/powershell/profiles', title: 'About profiles' }];
+  recordTurn(session, 'Where is it <stored>?', { content: 'In $PROFILE & Documents.' }, new Date('2026-01-07T10:05:00Z'));
+  return session;
+};
+
+describe('parseTranscriptFormat', () => {
+  it('accepts known formats and the markdown alias', () => {
+    expect(parseTranscriptFormat('md')).toBe('md');
+    expect(parseTranscriptFormat('JSON')).toBe('json');
+    expect(parseTranscriptFormat('html')).toBe('html');
+    expect(parseTranscriptFormat('markdown')).toBe('md');
+  });
+
+  it('returns undefined for unknown formats', () => {
+    expect(parseTranscriptFormat('pdf')).toBe(undefined);
+    expect(parseTranscriptFormat(undefined)).toBe(undefined);
+  });
+});
+
+describe('toTranscriptTurns', () => {
+  it('pairs questions with answers and keeps unanswered questions', () => {
+    const turns = toTranscriptTurns([
+      { role: 'user', content: 'q1', timestamp: 't1' },
+      { role: 'assistant', content: 'a1', timestamp: 't2', model: 'sonar', citations: [{ url: 'https://a.test' }] },
+      { role: 'user', content: 'q2' },
+    ]);
+
+    expect(turns).toEqual([
+      { question: 'q1', answer: 'a1', model: 'sonar', askedAt: 't1', answeredAt: 't2', citations: [{ url: 'https://a.test' }] },
+      { question: 'q2', askedAt: undefined, citations: [] },
+    ]);
+  });
+});
+
+describe('renderTranscript', () => {
+  it('renders markdown with metadata and numbered sources', () => {
+    const output = renderTranscript(sampleSession(), 'md');
+
+    expect(output).toContain('# What is a PowerShell profile?');
+    expect(output).toContain('- Model: sonar-pro');
+    expect(output).toContain('**Answer** (sonar-pro, 2026-01-07T10:00:00.000Z)');
+    expect(output).toContain('1. [About profiles](https://learn.microsoft.com/powershell/profiles)');
+    expect(output).toContain('## 2. Where is it <stored>?');
+  });
+
+  it('renders machine-readable JSON', () => {
+    const parsed = JSON.parse(renderTranscript(sampleSession(), 'json'));
+
+    expect(parsed.model).toBe('sonar-pro');
+    expect(parsed.turns).toHaveLength(2);
+    expect(parsed.turns[0].citations).toEqual([{ url: 'https://learn.microsoft.com/powershell/profiles', title: 'About profiles' }]);
+  });
+
+  it('renders escaped HTML', () => {
+    const output = renderTranscript(sampleSession(), 'html');
+
+    expect(output).toContain('<!DOCTYPE html>');
+    expect(output).toContain('Where is it &lt;stored&gt;?');
+    expect(output).toContain('In $PROFILE &amp; Documents.');
+    expect(output).toContain('<a href="https://learn.microsoft.com/powershell/profiles">');
+  });
+
+  it('links only http and https sources', () => {
+    const session = sampleSession();
+    session.messages[3].citations = [{ url: 'javascript:alert(1)', title: 'Click me' }, { url: 'not a url' }];
+    const output = renderTranscript(session, 'html');
+
+    expect(output).not.toContain('href="javascript:');
+    expect(output).toContain('<li>Click me (javascript:alert(1))</li>');
+    expect(output).toContain('<li>not a url</li>');
+  });
+});
+
+describe('escapeHtml', () => {
+  it('escapes markup characters', () => {
+    expect(escapeHtml(`<a href="x">'&'</a>`)).toBe('&lt;a href=&quot;x&quot;&gt;&#39;&amp;&#39;&lt;/a&gt;');
+  });
+});
+
+describe('exportTranscript', () => {
+  it('writes the transcript to the requested path', () => {
+    const baseDir = fs.mkdtempSync(path.join(os.tmpdir(), 'enigma-export-'));
+    const target = path.join(baseDir, 'out.md');
+
+    expect(exportTranscript(sampleSession(), 'md', target)).toBe(target);
+    expect(fs.readFileSync(target, 'utf-8')).toContain('A script that runs at startup.');
+  });
+});
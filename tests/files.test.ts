@@ -0,0 +1,172 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { defaultConfig, EnigmaConfig } from '../src/config.js';
+import {
+  attachFiles,
+  createIgnoreFilter,
+  expandBraces,
+  findMentions,
+  globToRegExp,
+  readAttachments,
+  resolveFilePatterns,
+} from '../src/files.js';
+
+const withAttachments = (attachments: Partial<EnigmaConfig['attachments']>): EnigmaConfig => ({
+  ...defaultConfig,
+  attachments: { ...defaultConfig.attachments, ...attachments },
+});
+
+let baseDir: string;
+
+const write = (relativePath: string, content: string | Buffer) => {
+  const filePath = path.join(baseDir, relativePath);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, content);
+};
+
+beforeEach(() => {
+  baseDir = fs.mkdtempSync(path.join(os.tmpdir(), 'enigma-files-'));
+  write('.gitignore', 'dist/\n.env\n*.log\n');
+  write('.env', 'PPLX_API_KEY=pplx-secret');
+  write('src/index.ts', 'export const main = () => 1;\n');
+  write('src/util.ts', 'export const add = (a: number, b: number) => a + b;\n');
+  write('src/nested/deep.js', 'module.exports = {};\n');
+  write('src/nested/.gitignore', 'generated.js\n');
+  write('src/nested/generated.js', '// generated\n');
+  write('dist/index.js', 'compiled');
+  write('debug.log', 'noise');
+  write('logo.png', Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x01]));
+  write('.git/config', '[core]');
+});
+
+afterEach(() => {
+  fs.rmSync(baseDir, { recursive: true, force: true });
+});
+
+describe('globToRegExp', () => {
+  it('keeps * and ? within a path segment and lets ** span directories', () => {
+    expect(globToRegExp('src/*.ts').test('src/index.ts')).toBe(true);
+    expect(globToRegExp('src/*.ts').test('src/nested/a.ts')).toBe(false);
+    expect(globToRegExp('src/**/*.js').test('src/nested/deep.js')).toBe(true);
+    expect(globToRegExp('src/**/*.js').test('src/top.js')).toBe(true);
+    expect(globToRegExp('src/?.ts').test('src/a.ts')).toBe(true);
+    expect(globToRegExp('file.[!j]s').test('file.ts')).toBe(true);
+    expect(globToRegExp('file.[!j]s').test('file.js')).toBe(false);
+  });
+
+  it('treats regex characters literally', () => {
+    expect(globToRegExp('a+b.ts').test('a+b.ts')).toBe(true);
+    expect(globToRegExp('a+b.ts').test('aab.ts')).toBe(false);
+  });
+});
+
+describe('expandBraces', () => {
+  it('expands each alternative, including nested ones', () => {
+    expect(expandBraces('src/*.{ts,js}')).toEqual(['src/*.ts', 'src/*.js']);
+    expect(expandBraces('{a,b}/{c,d}')).toEqual(['a/c', 'a/d', 'b/c', 'b/d']);
+    expect(expandBraces('plain.ts')).toEqual(['plain.ts']);
+  });
+});
+
+describe('createIgnoreFilter', () => {
+  it('applies root and nested .gitignore files and always ignores .git', () => {
+    const isIgnored = createIgnoreFilter(baseDir);
+    expect(isIgnored('dist', true)).toBe(true);
+    expect(isIgnored('dist/index.js')).toBe(true);
+    expect(isIgnored('.env')).toBe(true);
+    expect(isIgnored('src/nested/generated.js')).toBe(true);
+    expect(isIgnored('generated.js')).toBe(false);
+    expect(isIgnored('.git/config')).toBe(true);
+    expect(isIgnored('src/index.ts')).toBe(false);
+    expect(isIgnored('../elsewhere.ts')).toBe(false);
+  });
+});
+
+describe('resolveFilePatterns', () => {
+  it('matches globs against files that are not ignored', () => {
+    const { paths, skipped } = resolveFilePatterns(['src/**/*.{ts,js}', '*.log'], baseDir);
+    expect(paths).toEqual(['src/index.ts', 'src/util.ts', 'src/nested/deep.js']);
+    expect(skipped).toEqual([{ path: '*.log', reason: 'no files match' }]);
+  });
+
+  it('expands directories and skips explicitly named ignored or missing files', () => {
+    const { paths, skipped } = resolveFilePatterns(['./src/nested', '.env', 'missing.ts', 'src/index.ts', 'src/index.ts'], baseDir);
+    expect(paths).toEqual(['src/nested/.gitignore', 'src/nested/deep.js', 'src/index.ts']);
+    expect(skipped).toEqual([
+      { path: '.env', reason: 'ignored by .gitignore' },
+      { path: 'missing.ts', reason: 'not found' },
+    ]);
+  });
+});
+
+describe('findMentions', () => {
+  it('finds @paths that exist or are globs and ignores handles and emails', () => {
+    const question = 'Compare @src/index.ts and @src/util.ts, then check @src/**/*.js. Ask @alice or me@example.com';
+    expect(findMentions(question, baseDir)).toEqual(['src/index.ts', 'src/util.ts', 'src/**/*.js']);
+  });
+
+  it('ignores paths and globs outside the project, including through symlinks', () => {
+    const outside = fs.mkdtempSync(path.join(os.tmpdir(), 'enigma-outside-'));
+    fs.writeFileSync(path.join(outside, 'secret.txt'), 'secret');
+    fs.symlinkSync(outside, path.join(baseDir, 'linked'));
+    const question = `Check @${outside}/secret.txt, @../${path.basename(outside)}/secret.txt, @/etc/* and @linked/secret.txt`;
+    expect(findMentions(question, baseDir)).toEqual([]);
+    fs.rmSync(outside, { recursive: true, force: true });
+  });
+});
+
+describe('readAttachments', () => {
+  it('skips binaries and files over the per-file limit', () => {
+    write('big.txt', 'x'.repeat(2048));
+    const { files, skipped } = readAttachments(['logo.png', 'big.txt', 'src/index.ts'], withAttachments({ max_file_bytes: 1024 }), baseDir);
+    expect(files.map((file) => file.path)).toEqual(['src/index.ts']);
+    expect(skipped).toEqual([
+      { path: 'logo.png', reason: 'binary file' },
+      { path: 'big.txt', reason: 'larger than 1 KB (attachments.max_file_bytes)' },
+    ]);
+  });
+
+  it('stops attaching once the total limit would be exceeded', () => {
+    const config = withAttachments({ max_total_bytes: 60 });
+    const { files, skipped } = readAttachments(['src/index.ts', 'src/util.ts'], config, baseDir);
+    expect(files.map((file) => file.path)).toEqual(['src/index.ts']);
+    expect(skipped).toEqual([{ path: 'src/util.ts', reason: 'would exceed 60 bytes in total (attachments.max_total_bytes)' }]);
+  });
+});
+
+describe('attachFiles', () => {
+  it('appends --file and @path files to the question inside <file> tags', () => {
+    const result = attachFiles('What does @src/util.ts export?', ['src/index.ts'], defaultConfig, baseDir);
+    expect(result.prompt).toBe(
+      [
+        'What does @src/util.ts export?',
+        '',
+        'Attached files:',
+        '',
+        '<file path="src/index.ts">',
+        'export const main = () => 1;',
+        '</file>',
+        '',
+        '<file path="src/util.ts">',
+        'export const add = (a: number, b: number) => a + b;',
+        '</file>',
+      ].join('\n'),
+    );
+    expect(result.skipped).toEqual([]);
+  });
+
+  it('only takes mentions from the text it is told to search', () => {
+    const question = 'Why did this fail?\n\n```\nerror in @src/util.ts\n```';
+    const result = attachFiles(question, [], defaultConfig, baseDir, 'Why did this fail?');
+    expect(result.prompt).toBe(question);
+    expect(result.files).toEqual([]);
+  });
+
+  it('leaves mentions alone when attachments.mentions is off', () => {
+    const result = attachFiles('What does @src/util.ts export?', [], withAttachments({ mentions: false }), baseDir);
+    expect(result.prompt).toBe('What does @src/util.ts export?');
+    expect(result.files).toEqual([]);
+  });
+});
@@ -1,5 +1,14 @@
 import { describe, expect, it, vi } from 'vitest';
-import { startInteractiveSession, normalizeAskOptions, ensureApiKeyInteractive } from '../src/index.js';
+import {
+  startInteractiveSession,
+  normalizeAskOptions,
+  ensureApiKeyInteractive,
+  selectModel,
+  selectRoleModel,
+  toAskOptions,
+  withFormat,
+} from '../src/index.js';
+import { defaultConfig } from '../src/config.js';
 import fs from 'fs';
 import os from 'os';
 import path from 'path';
@@ -26,12 +35,156 @@ describe('normalizeAskOptions', () => {
     expect(result.searchMode).toBe(undefined);
   });
 
+  it('normalizes output formats and warns about invalid ones', () => {
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    expect(normalizeAskOptions({ format: 'json' }).format).toBe('json');
+    expect(normalizeAskOptions({ format: 'yaml' }).format).toBe(undefined);
+    expect(String(errorSpy.mock.calls[0][0])).toContain('Output format "yaml" is invalid');
+    errorSpy.mockRestore();
+  });
+
+  it('keeps --extract-code with or without a language', () => {
+    expect(normalizeAskOptions({ extractCode: true }).extractCode).toBe(true);
+    expect(normalizeAskOptions({ extractCode: 'ps1', output: 'Backup.ps1' })).toMatchObject({ extractCode: 'ps1', output: 'Backup.ps1' });
+    expect(normalizeAskOptions({}).extractCode).toBe(undefined);
+  });
+
+  it('passes --file and --with-repo through', () => {
+    expect(normalizeAskOptions({ file: ['src/a.ts', 'tests/*.ts'], withRepo: true })).toMatchObject({
+      files: ['src/a.ts', 'tests/*.ts'],
+      withRepo: true,
+    });
+  });
+
+  it('collects search filter flags', () => {
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    expect(
+      normalizeAskOptions({
+        recency: 'week',
+        domain: ['learn.microsoft.com,docs.github.com'],
+        excludeDomain: ['https://www.reddit.com/r/x'],
+        after: '2026-01-01',
+        before: 'yesterday',
+      }).filters,
+    ).toEqual({
+      recency: 'week',
+      allowedDomains: ['learn.microsoft.com', 'docs.github.com'],
+      blockedDomains: ['reddit.com'],
+      afterDate: '2026-01-01',
+    });
+    expect(String(errorSpy.mock.calls[0][0])).toContain('--before "yesterday" is not a date');
+    expect(normalizeAskOptions({}).filters).toBe(undefined);
+    errorSpy.mockRestore();
+  });
+
+  it('normalizes route modes and drops invalid ones', () => {
+    expect(normalizeAskOptions({ route: 'explain' }).route).toBe('explain');
+    expect(normalizeAskOptions({ route: 'sometimes' }).route).toBe(undefined);
+  });
+
+  it('maps role shortcut flags to model roles', () => {
+    expect(normalizeAskOptions({ reason: true }).role).toBe('reasoning');
+    expect(normalizeAskOptions({ research: true }).role).toBe('deep_research');
+    expect(normalizeAskOptions({ search: true }).role).toBe('search_heavy');
+    expect(normalizeAskOptions({ fast: true }).role).toBe('fast');
+  });
+
+  it('uses the first shortcut when several are given', () => {
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    expect(normalizeAskOptions({ fast: true, reason: true }).role).toBe('fast');
+    expect(errorSpy).toHaveBeenCalled();
+    errorSpy.mockRestore();
+  });
+
   it('passes through stream option', () => {
     expect(normalizeAskOptions({ stream: true }).stream).toBe(true);
     expect(normalizeAskOptions({ stream: false }).stream).toBe(false);
   });
 });
 
+describe('toAskOptions', () => {
+  const config = {
+    ...defaultConfig,
+    personas: { reviewer: { system_prompt: 'Be terse.', model: 'sonar-reasoning-pro', temperature: 0.1 } },
+  };
+
+  it('applies the persona system prompt, model and temperature', () => {
+    expect(toAskOptions({ persona: 'reviewer' }, config)).toEqual({
+      model: 'sonar-reasoning-pro',
+      searchMode: undefined,
+      history: undefined,
+      systemPrompt: 'Be terse.',
+      temperature: 0.1,
+    });
+  });
+
+  it('resolves role shortcuts against the configured models', () => {
+    const custom = { ...config, models: { ...config.models, reasoning: 'sonar-reasoning' } };
+    expect(toAskOptions({ role: 'reasoning', persona: 'reviewer' }, custom).model).toBe('sonar-reasoning');
+    expect(toAskOptions({ role: 'reasoning', model: 'sonar' }, custom).model).toBe('sonar');
+  });
+
+  it('lets an explicit model win over the persona model', () => {
+    expect(toAskOptions({ persona: 'reviewer', model: 'sonar' }, config).model).toBe('sonar');
+  });
+
+  it('throws for unknown personas', () => {
+    expect(() => toAskOptions({ persona: 'nobody' }, config)).toThrow(/Unknown persona/);
+  });
+});
+
+describe('selectModel', () => {
+  it('keeps an explicit model', () => {
+    expect(selectModel('prove it step by step', {}, { model: 'sonar' }, defaultConfig)).toBe('sonar');
+  });
+
+  it('routes by role when no model is given', () => {
+    expect(selectModel('Prove this step by step', {}, {}, defaultConfig)).toBe(defaultConfig.models.reasoning);
+  });
+
+  it('uses the default model when routing is off', () => {
+    expect(selectModel('Prove this step by step', { route: 'off' }, {}, defaultConfig)).toBe(defaultConfig.models.default);
+  });
+
+  it('falls back to the default model when the requested one is unknown, warning once', () => {
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    expect(selectModel('hi', { model: 'invalid-model-x' }, { model: 'invalid-model-x' }, defaultConfig)).toBe(defaultConfig.models.default);
+    expect(selectModel('hi', { model: 'invalid-model-x' }, { model: 'invalid-model-x' }, defaultConfig)).toBe(defaultConfig.models.default);
+    expect(errorSpy).toHaveBeenCalledTimes(1);
+    expect(String(errorSpy.mock.calls[0][0])).toContain('Unknown model "invalid-model-x"');
+    errorSpy.mockRestore();
+  });
+
+  it('explains the routing decision on stderr', () => {
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    selectModel('What is the latest PowerShell release?', { route: 'explain' }, {}, defaultConfig);
+    expect(String(errorSpy.mock.calls[0][0])).toContain('models.search_heavy');
+    errorSpy.mockRestore();
+  });
+});
+
+describe('selectRoleModel', () => {
+  it('uses the role model instead of routing on the prompt', () => {
+    expect(selectRoleModel('reasoning', {}, {}, defaultConfig)).toBe(defaultConfig.models.reasoning);
+  });
+
+  it('keeps an explicit or shortcut model', () => {
+    expect(selectRoleModel('reasoning', { model: 'sonar' }, { model: 'sonar' }, defaultConfig)).toBe('sonar');
+  });
+
+  it('falls back to models.default when the role has no model', () => {
+    const config = { ...defaultConfig, models: { ...defaultConfig.models, reasoning: '' } };
+    expect(selectRoleModel('reasoning', {}, {}, config)).toBe(defaultConfig.models.default);
+  });
+});
+
+describe('withFormat', () => {
+  it('lets --format, as parsed for ask and agent, replace output.format', () => {
+    expect(withFormat(defaultConfig, normalizeAskOptions({ format: 'json' })).output).toEqual({ ...defaultConfig.output, format: 'json' });
+    expect(withFormat(defaultConfig, {})).toBe(defaultConfig);
+  });
+});
+
 describe('ensureApiKeyInteractive', () => {
   // Mock readline-sync
   vi.mock('readline-sync', () => ({
@@ -149,4 +302,107 @@ describe('startInteractiveSession', () => {
 
     expect(ask).toHaveBeenCalledWith('question', { model: 'sonar-pro', stream: true });
   });
+
+  it('sends earlier turns as history with follow-up questions', async () => {
+    const prompts = ['Write a PowerShell loop', 'now do it in bash instead', 'exit'];
+    const promptFn = vi.fn().mockImplementation(() => prompts.shift()!);
+    const ask = vi
+      .fn()
+      .mockResolvedValueOnce({ content: 'foreach ($i in 1..3) {}', model: 'sonar' })
+      .mockResolvedValueOnce({ content: 'for i in 1 2 3; do :; done', model: 'sonar' });
+
+    await startInteractiveSession({ model: 'sonar' }, promptFn, ask);
+
+    expect(ask).toHaveBeenNthCalledWith(1, 'Write a PowerShell loop', { model: 'sonar' });
+    expect(ask).toHaveBeenNthCalledWith(2, 'now do it in bash instead', {
+      model: 'sonar',
+      history: [
+        { role: 'user', content: 'Write a PowerShell loop' },
+        { role: 'assistant', content: 'foreach ($i in 1..3) {}' },
+      ],
+    });
+  });
+
+  it('does not record failed turns and forgets history on :clear', async () => {
+    const prompts = ['first', 'second', ':clear', 'third', 'exit'];
+    const promptFn = vi.fn().mockImplementation(() => prompts.shift()!);
+    const ask = vi
+      .fn()
+      .mockResolvedValueOnce(undefined)
+      .mockResolvedValueOnce({ content: 'answer two', model: 'sonar' })
+      .mockResolvedValueOnce({ content: 'answer three', model: 'sonar' });
+
+    await startInteractiveSession({}, promptFn, ask);
+
+    expect(ask).toHaveBeenNthCalledWith(2, 'second', {});
+    expect(ask).toHaveBeenNthCalledWith(3, 'third', {});
+  });
+
+  it('replays a resumed session and records new turns into it', async () => {
+    const { createSession, recordTurn } = await import('../src/sessions.js');
+    const { defaultConfig } = await import('../src/config.js');
+    const session = recordTurn(createSession(defaultConfig, { model: 'sonar' }), 'earlier question', {
+      content: 'earlier answer',
+    });
+    const prompts = ['follow-up', 'exit'];
+    const promptFn = vi.fn().mockImplementation(() => prompts.shift()!);
+    const ask = vi.fn().mockResolvedValue({ content: 'follow-up answer', model: 'sonar' });
+    const persist = vi.fn();
+
+    await startInteractiveSession({ stream: false }, promptFn, ask, { session, persist });
+
+    expect(ask).toHaveBeenCalledWith('follow-up', {
+      stream: false,
+      model: 'sonar',
+      searchMode: 'medium',
+      history: [
+        expect.objectContaining({ role: 'user', content: 'earlier question' }),
+        expect.objectContaining({ role: 'assistant', content: 'earlier answer' }),
+      ],
+    });
+    expect(persist).toHaveBeenCalledTimes(1);
+    expect(session.messages).toHaveLength(4);
+    expect(session.messages[3]).toEqual(expect.objectContaining({ role: 'assistant', content: 'follow-up answer', model: 'sonar' }));
+  });
+
+  it('replaces history with the compacted version before asking', async () => {
+    const prompts = ['first', 'second', 'exit'];
+    const promptFn = vi.fn().mockImplementation(() => prompts.shift()!);
+    const ask = vi.fn().mockResolvedValue({ content: 'answer', model: 'sonar' });
+    const summary = { role: 'system' as const, content: 'Summary of the earlier conversation:\nfirst' };
+    const compact = vi.fn().mockResolvedValue({
+      history: [summary],
+      compacted: 'summarized',
+      usage: { model: 'sonar', contextWindow: 1000, promptTokens: 10, responseTokens: 100, remainingTokens: 890, fits: true },
+    });
+
+    await startInteractiveSession({}, promptFn, ask, { compact });
+
+    expect(compact).toHaveBeenCalledTimes(1);
+    expect(ask).toHaveBeenNthCalledWith(2, 'second', { history: [summary] });
+  });
+
+  it('shows context usage without asking', async () => {
+    const prompts = [':context', 'exit'];
+    const promptFn = vi.fn().mockImplementation(() => prompts.shift()!);
+    const ask = vi.fn();
+    const logSpy = vi.spyOn(console, 'log');
+
+    await startInteractiveSession({}, promptFn, ask);
+
+    expect(ask).not.toHaveBeenCalled();
+    expect(logSpy.mock.calls.some(([line]) => String(line).includes('Answer budget'))).toBe(true);
+    logSpy.mockRestore();
+  });
+
+  it('switches model role with :reason and back to routing with :auto', async () => {
+    const prompts = [':reason', 'first', ':auto', 'second', 'exit'];
+    const promptFn = vi.fn().mockImplementation(() => prompts.shift()!);
+    const ask = vi.fn().mockResolvedValue(undefined);
+
+    await startInteractiveSession({ model: 'sonar' }, promptFn, ask);
+
+    expect(ask).toHaveBeenNthCalledWith(1, 'first', { model: undefined, role: 'reasoning' });
+    expect(ask).toHaveBeenNthCalledWith(2, 'second', { model: undefined, role: undefined });
+  });
 });
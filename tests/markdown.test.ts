@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createMarkdownRenderer,
+  inlineMarkupClosed,
+  renderInline,
+  renderMarkdown,
+  renderTable,
+  tokenizeCodeLine,
+  visibleWidth,
+} from '../src/markdown.js';
+
+const DOCUMENT = `# Setup
+Install with **npm** and read [the docs](https://docs.test) [1]. This sentence is long enough to wrap.
+
+- first item that is long enough to wrap under its bullet
+  - [x] nested task
+> quoted
+
+| Name | Size |
+|:-----|-----:|
+| a | 1 |
+| bb | 22 |
+
+\`\`\`python
+def f():  # comment
+    return "x"
+\`\`\`
+---
+Done.`;
+
+describe('renderMarkdown', () => {
+  it('formats headings, lists, quotes, tables, code and rules', () => {
+    expect(renderMarkdown(DOCUMENT, { width: 40 })).toBe(
+      [
+        'Setup',
+        'Install with npm and read the docs',
+        '(https://docs.test) [1]. This sentence',
+        'is long enough to wrap.',
+        '',
+        '• first item that is long enough to wrap',
+        '  under its bullet',
+        '  • ☑ nested task',
+        '│ quoted',
+        '',
+        ' Name │ Size',
+        '──────┼──────',
+        ' a    │    1',
+        ' bb   │   22',
+        '',
+        '  python',
+        '  def f():  # comment',
+        '      return "x"',
+        '─'.repeat(40),
+        'Done.',
+      ].join('\n'),
+    );
+  });
+
+  it('never wraps code lines', () => {
+    const line = 'const value = someFunction(argumentNumberOne, argumentNumberTwo);';
+    expect(renderMarkdown(`\`\`\`js\n${line}\n\`\`\``, { width: 20 })).toBe(`  js\n  ${line}`);
+  });
+});
+
+describe('createMarkdownRenderer', () => {
+  it('renders the same output however the text is chunked', () => {
+    const renderer = createMarkdownRenderer({ width: 40 });
+    let streamed = '';
+    for (let i = 0; i < DOCUMENT.length; i += 3) {
+      streamed += renderer.push(DOCUMENT.slice(i, i + 3));
+    }
+    streamed += renderer.end();
+    expect(streamed.replace(/\n$/, '')).toBe(renderMarkdown(DOCUMENT, { width: 40 }));
+  });
+
+  it('emits complete words of an unfinished line', () => {
+    const renderer = createMarkdownRenderer({ width: 80 });
+    expect(renderer.push('Hello wor')).toBe('Hello');
+    expect(renderer.push('ld and **bo')).toBe(' world and');
+    expect(renderer.push('ld** text\n')).toBe(' bold text\n');
+  });
+
+  it('holds tables back until the last row arrives', () => {
+    const renderer = createMarkdownRenderer({ width: 80 });
+    expect(renderer.push('| a | b |\n| long | c |\n')).toBe('');
+    expect(renderer.push('after\n')).toBe(' a    │ b\n long │ c\nafter\n');
+  });
+});
+
+describe('renderInline', () => {
+  it('removes markup and keeps link targets', () => {
+    expect(renderInline('**b** *i* ~~s~~ `c` [l](https://l.test)')).toBe('b i s c l (https://l.test)');
+    expect(renderInline('keep snake_case_names and `**raw**`')).toBe('keep snake_case_names and **raw**');
+  });
+});
+
+describe('inlineMarkupClosed', () => {
+  it('detects unfinished inline markup', () => {
+    expect(inlineMarkupClosed('plain **bold** `code`')).toBe(true);
+    expect(inlineMarkupClosed('open **bold')).toBe(false);
+    expect(inlineMarkupClosed('open `code')).toBe(false);
+    expect(inlineMarkupClosed('see [docs](https://d')).toBe(false);
+    expect(inlineMarkupClosed('2 * 3 = 6')).toBe(true);
+  });
+});
+
+describe('renderTable', () => {
+  it('renders rows without a header separator as plain aligned rows', () => {
+    expect(renderTable(['| x | y |', '| long | z |'])).toBe(' x    │ y\n long │ z\n');
+  });
+});
+
+describe('tokenizeCodeLine', () => {
+  it('finds keywords, strings, numbers and comments', () => {
+    expect(tokenizeCodeLine('const n = 42; // note', 'ts')).toEqual([
+      { type: 'keyword', text: 'const' },
+      { type: 'text', text: ' n = ' },
+      { type: 'number', text: '42' },
+      { type: 'text', text: '; ' },
+      { type: 'comment', text: '// note' },
+    ]);
+    expect(tokenizeCodeLine('echo "$HOME" $USER', 'bash')).toEqual([
+      { type: 'keyword', text: 'echo' },
+      { type: 'text', text: ' ' },
+      { type: 'string', text: '"$HOME"' },
+      { type: 'text', text: ' ' },
+      { type: 'variable', text: '$USER' },
+    ]);
+  });
+
+  it('carries block comments across lines', () => {
+    const state = { inBlockComment: false };
+    expect(tokenizeCodeLine('x /* start', 'js', state).at(-1)).toEqual({ type: 'comment', text: '/* start' });
+    expect(tokenizeCodeLine('end */ y', 'js', state)).toEqual([
+      { type: 'comment', text: 'end */' },
+      { type: 'text', text: ' y' },
+    ]);
+  });
+
+  it('leaves unknown languages untouched', () => {
+    expect(tokenizeCodeLine('if x then y', 'brainfuck')).toEqual([{ type: 'text', text: 'if x then y' }]);
+  });
+});
+
+describe('visibleWidth', () => {
+  it('ignores ANSI escapes', () => {
+    expect(visibleWidth('\u001b[1mbold\u001b[22m')).toBe(4);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { defaultConfig, EnigmaConfig } from '../src/config.js';
+import { describeModel, findModel, listModels, rolesForModel, suggestModelNames, supportsStreaming } from '../src/models.js';
+
+const withCustomModels = (custom_models: EnigmaConfig['custom_models']): EnigmaConfig => ({ ...defaultConfig, custom_models });
+
+describe('listModels', () => {
+  it('includes the built-in models with metadata', () => {
+    const sonarPro = findModel('sonar-pro', defaultConfig);
+    expect(sonarPro).toMatchObject({ context_window: 200000, streaming: true, reasoning: false, deprecated: false, source: 'built-in' });
+    expect(sonarPro?.pricing).toEqual({ input: 3, output: 15 });
+    expect(findModel('sonar-reasoning-pro', defaultConfig)?.reasoning).toBe(true);
+    expect(findModel('sonar-large', defaultConfig)).toMatchObject({ deprecated: true, replacement: 'sonar-pro' });
+  });
+
+  it('adds custom models with defaults for missing fields', () => {
+    const config = withCustomModels({ 'my-model': { context_window: 32000, streaming: false } });
+    const custom = findModel('my-model', config);
+    expect(custom).toMatchObject({ context_window: 32000, streaming: false, reasoning: false, deprecated: false, source: 'custom' });
+    expect(custom?.pricing).toBeUndefined();
+    expect(listModels(config).map((model) => model.name)).toContain('sonar');
+  });
+
+  it('lets custom entries override built-in metadata', () => {
+    const config = withCustomModels({ sonar: { pricing: { output: 2 } } });
+    expect(findModel('sonar', config)).toMatchObject({ context_window: 127072, pricing: { input: 1, output: 2 }, source: 'custom' });
+  });
+});
+
+describe('suggestModelNames', () => {
+  it('suggests close matches for typos', () => {
+    expect(suggestModelNames('sonar-pr', defaultConfig)[0]).toBe('sonar-pro');
+    expect(suggestModelNames('sonnar', defaultConfig)[0]).toBe('sonar');
+    expect(suggestModelNames('deep-research', defaultConfig)).toContain('sonar-deep-research');
+  });
+
+  it('returns nothing for unrelated names', () => {
+    expect(suggestModelNames('gpt-4o-mini-turbo', defaultConfig)).toEqual([]);
+  });
+
+  it('includes custom models', () => {
+    expect(suggestModelNames('my-modle', withCustomModels({ 'my-model': {} }))).toEqual(['my-model']);
+  });
+});
+
+describe('supportsStreaming', () => {
+  it('reads the streaming capability and assumes streaming for unknown models', () => {
+    expect(supportsStreaming('sonar', defaultConfig)).toBe(true);
+    expect(supportsStreaming('batch-only', withCustomModels({ 'batch-only': { streaming: false } }))).toBe(false);
+    expect(supportsStreaming('unknown', defaultConfig)).toBe(true);
+  });
+});
+
+describe('describeModel', () => {
+  it('summarises capabilities, pricing and roles', () => {
+    expect(rolesForModel('sonar-pro', defaultConfig)).toEqual(['default', 'search_heavy']);
+    const line = describeModel(findModel('sonar-pro', defaultConfig)!, defaultConfig);
+    expect(line).toContain('200k context');
+    expect(line).toContain('$3/$15 per 1M');
+    expect(line).toContain('models.default; models.search_heavy');
+  });
+
+  it('marks deprecated models with their replacement', () => {
+    const line = describeModel(findModel('sonar-large', defaultConfig)!, defaultConfig);
+    expect(line).toContain('deprecated, use sonar-pro');
+    expect(line).toContain('pricing unknown');
+  });
+});
@@ -0,0 +1,115 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  extensionForLanguage,
+  extractCodeBlocks,
+  matchesLanguage,
+  renderAnswerFile,
+  writeCodeBlocks,
+  writeOutputFile,
+} from '../src/output.js';
+import { AnswerOutput } from '../src/render.js';
+
+const answer = [
+  'Run this:',
+  '',
+  '1. Save the script:',
+  '   ```powershell',
+  '   Get-ChildItem $HOME |',
+  '       Where-Object { $_.Length -gt 1MB }',
+  '   ```',
+  '2. Or in Python:',
+  '',
+  '~~~py',
+  'print("hi")',
+  '~~~',
+  '',
+  '```',
+  'plain text',
+].join('\n');
+
+const output: AnswerOutput = {
+  answer: '# Title\n\nUse **this**.',
+  thinking: null,
+  model: 'sonar',
+  citations: [{ url: 'https://example.com', title: 'Example' }],
+  usage: null,
+  timing: { totalMs: 10 },
+};
+
+describe('extractCodeBlocks', () => {
+  it('extracts fenced blocks, removing only the fence indentation', () => {
+    expect(extractCodeBlocks(answer)).toEqual([
+      { language: 'powershell', code: 'Get-ChildItem $HOME |\n    Where-Object { $_.Length -gt 1MB }' },
+      { language: 'py', code: 'print("hi")' },
+      { language: '', code: 'plain text' },
+    ]);
+  });
+
+  it('returns nothing for answers without code', () => {
+    expect(extractCodeBlocks('Just prose.')).toEqual([]);
+  });
+});
+
+describe('extensionForLanguage', () => {
+  it('maps languages and aliases to file extensions', () => {
+    expect(extensionForLanguage('PowerShell')).toBe('ps1');
+    expect(extensionForLanguage('typescript')).toBe('ts');
+    expect(extensionForLanguage('bash')).toBe('sh');
+    expect(extensionForLanguage('lua')).toBe('lua');
+    expect(extensionForLanguage('')).toBe('txt');
+    expect(extensionForLanguage('c#')).toBe('txt');
+  });
+});
+
+describe('matchesLanguage', () => {
+  it('treats aliases of a language alike', () => {
+    expect(matchesLanguage({ language: 'typescript', code: '' }, 'ts')).toBe(true);
+    expect(matchesLanguage({ language: 'pwsh', code: '' }, 'powershell')).toBe(true);
+    expect(matchesLanguage({ language: 'python', code: '' }, 'ts')).toBe(false);
+    expect(matchesLanguage({ language: '', code: '' }, 'lua')).toBe(false);
+  });
+});
+
+describe('renderAnswerFile', () => {
+  it('writes raw markdown with sources, or the selected format', () => {
+    expect(renderAnswerFile(output, 'markdown')).toBe('# Title\n\nUse **this**.\n\nSources:\n[1] Example - https://example.com\n');
+    expect(renderAnswerFile(output, 'plain')).toBe('Title\n\nUse this.\n\nSources:\n[1] Example - https://example.com\n');
+    expect(JSON.parse(renderAnswerFile(output, 'json')).answer).toBe(output.answer);
+  });
+});
+
+describe('writing files', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'enigma-output-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('creates parent directories for --output', () => {
+    const target = path.join(dir, 'notes', 'answer.md');
+    writeOutputFile(target, 'hello\n');
+    expect(fs.readFileSync(target, 'utf-8')).toBe('hello\n');
+  });
+
+  it('writes one file per block into a directory without overwriting', () => {
+    fs.writeFileSync(path.join(dir, 'snippet-1.ps1'), 'keep me');
+    const written = writeCodeBlocks(extractCodeBlocks(answer), `${dir}/`);
+
+    expect(written.map((file) => path.basename(file))).toEqual(['snippet-2.ps1', 'snippet-3.py', 'snippet-4.txt']);
+    expect(fs.readFileSync(path.join(dir, 'snippet-1.ps1'), 'utf-8')).toBe('keep me');
+    expect(fs.readFileSync(path.join(dir, 'snippet-3.py'), 'utf-8')).toBe('print("hi")\n');
+  });
+
+  it('concatenates blocks into a file target', () => {
+    const target = path.join(dir, 'all.txt');
+    expect(writeCodeBlocks(extractCodeBlocks(answer).slice(1), target)).toEqual([target]);
+    expect(fs.readFileSync(target, 'utf-8')).toBe('print("hi")\n\nplain text\n');
+  });
+});
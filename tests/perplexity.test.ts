@@ -1,4 +1,7 @@
-import { describe, expect, it, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 
 vi.mock('axios', () => {
   const post = vi.fn().mockResolvedValue({
@@ -11,6 +14,17 @@ vi.mock('axios', () => {
   };
 });
 
+// Requests are recorded in ~/.enigma/usage.jsonl; keep that out of the real home directory.
+let workDir: string;
+beforeEach(() => {
+  workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'enigma-perplexity-'));
+  vi.spyOn(os, 'homedir').mockReturnValue(workDir);
+});
+afterEach(() => {
+  vi.mocked(os.homedir).mockRestore();
+  fs.rmSync(workDir, { recursive: true, force: true });
+});
+
 describe('askPerplexity', () => {
   it('builds the correct request payload with agent config', async () => {
     const axios = await import('axios');
@@ -55,7 +69,7 @@ describe('askPerplexity', () => {
     await expect(askPerplexity('hello', config)).rejects.toThrow(/API key/i);
   });
 
-  it('falls back to default model when invalid', async () => {
+  it('sends the model as resolved by the command, without validating it again', async () => {
     const axios = await import('axios');
     const { askPerplexity } = await import('../src/perplexity.js');
     const { defaultConfig } = await import('../src/config.js');
@@ -63,15 +77,17 @@ describe('askPerplexity', () => {
       ...defaultConfig,
       api: { ...defaultConfig.api, key: 'pplx-test' },
     };
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
 
-    const answer = await askPerplexity('test question', config, { model: 'invalid-model' });
+    await askPerplexity('test question', config, { model: 'sonar-large' });
+    await askPerplexity('test question', config);
 
-    expect(answer).toBe('hello world');
-    expect((axios as any).default.post).toHaveBeenCalledWith(
-      'https://api.perplexity.ai/chat/completions',
-      expect.objectContaining({ model: defaultConfig.models.default }),
-      expect.any(Object),
-    );
+    expect(errorSpy).not.toHaveBeenCalled();
+    expect(vi.mocked((axios as any).default.post).mock.calls.slice(-2).map((call: any[]) => call[1].model)).toEqual([
+      'sonar-large',
+      defaultConfig.models.default,
+    ]);
+    errorSpy.mockRestore();
   });
 
   it('returns JSON when content is not a string', async () => {
@@ -93,6 +109,166 @@ describe('askPerplexity', () => {
   });
 });
 
+describe('requestAnswer', () => {
+  it('returns citations with titles from search_results', async () => {
+    const axios = await import('axios');
+    vi.mocked((axios as any).default.post).mockResolvedValueOnce({
+      data: {
+        model: 'sonar-pro',
+        usage: { prompt_tokens: 12, completion_tokens: 30, total_tokens: 42 },
+        choices: [{ message: { content: 'Profiles live in $PROFILE [1].' } }],
+        citations: ['https://learn.microsoft.com/profiles', 'https://example.com/other'],
+        search_results: [{ title: 'About profiles', url: 'https://learn.microsoft.com/profiles', date: '2025-01-02' }],
+      },
+    });
+    const { requestAnswer } = await import('../src/perplexity.js');
+    const { defaultConfig } = await import('../src/config.js');
+    const config = { ...defaultConfig, api: { ...defaultConfig.api, key: 'pplx-test' } };
+
+    const answer = await requestAnswer('where are profiles?', config);
+
+    expect(answer).toEqual({
+      content: 'Profiles live in $PROFILE [1].',
+      citations: [
+        { url: 'https://learn.microsoft.com/profiles', title: 'About profiles', date: '2025-01-02' },
+        { url: 'https://example.com/other' },
+      ],
+      model: 'sonar-pro',
+      usage: { promptTokens: 12, completionTokens: 30, totalTokens: 42 },
+      timing: { totalMs: expect.any(Number) },
+    });
+  });
+});
+
+describe('verbose tracing', () => {
+  it('traces the payload, response and usage to stderr with the key redacted', async () => {
+    const axios = await import('axios');
+    vi.mocked((axios as any).default.post).mockResolvedValueOnce({
+      status: 200,
+      headers: { 'x-request-id': 'req-1' },
+      data: { usage: { prompt_tokens: 3, completion_tokens: 4 }, choices: [{ message: { content: 'hi' } }] },
+    });
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const { requestAnswer } = await import('../src/perplexity.js');
+    const { defaultConfig } = await import('../src/config.js');
+    const config = {
+      ...defaultConfig,
+      api: { ...defaultConfig.api, key: 'pplx-secret-key-value' },
+      output: { ...defaultConfig.output, verbose: true },
+    };
+
+    await requestAnswer('hello', config, { model: 'sonar' });
+
+    const traced = errorSpy.mock.calls.map(([line]) => String(line)).join('\n');
+    errorSpy.mockRestore();
+    expect(traced).toContain('[verbose] POST https://api.perplexity.ai/chat/completions');
+    expect(traced).toContain('"Authorization": "[redacted]"');
+    expect(traced).toContain('"model": "sonar"');
+    expect(traced).toContain('"status": 200');
+    expect(traced).toContain('"x-request-id": "req-1"');
+    expect(traced).toContain('"totalTokens": 7');
+    expect(traced).not.toContain('secret-key-value');
+  });
+
+  it('stays quiet when verbose is off', async () => {
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const { requestAnswer } = await import('../src/perplexity.js');
+    const { defaultConfig } = await import('../src/config.js');
+
+    await requestAnswer('hello', { ...defaultConfig, api: { ...defaultConfig.api, key: 'pplx-test' } });
+
+    expect(errorSpy).not.toHaveBeenCalled();
+    errorSpy.mockRestore();
+  });
+});
+
+describe('usage ledger', () => {
+  it('records each request with its tokens, searches, latency and estimated cost', async () => {
+    const axios = await import('axios');
+    vi.mocked((axios as any).default.post).mockResolvedValueOnce({
+      data: {
+        model: 'sonar-pro',
+        usage: { prompt_tokens: 1000, completion_tokens: 2000, total_tokens: 3000, num_search_queries: 2 },
+        choices: [{ message: { content: 'hi' } }],
+      },
+    });
+    const { requestAnswer } = await import('../src/perplexity.js');
+    const { defaultConfig } = await import('../src/config.js');
+    const { readUsage } = await import('../src/usage.js');
+
+    await requestAnswer('hello', { ...defaultConfig, api: { ...defaultConfig.api, key: 'pplx-test' } }, { model: 'sonar-pro' });
+
+    expect(readUsage(workDir)).toEqual([
+      {
+        timestamp: expect.any(String),
+        model: 'sonar-pro',
+        promptTokens: 1000,
+        completionTokens: 2000,
+        totalTokens: 3000,
+        searches: 2,
+        latencyMs: expect.any(Number),
+        costUsd: (1000 * 3 + 2000 * 15) / 1_000_000,
+      },
+    ]);
+  });
+
+  it('blocks requests once a budget is spent when budget_action is block', async () => {
+    const axios = await import('axios');
+    const { requestAnswer } = await import('../src/perplexity.js');
+    const { defaultConfig } = await import('../src/config.js');
+    const { recordUsage, toUsageEntry } = await import('../src/usage.js');
+    const config = {
+      ...defaultConfig,
+      api: { ...defaultConfig.api, key: 'pplx-test' },
+      usage: { ...defaultConfig.usage, daily_budget: 0.01, budget_action: 'block' as const },
+    };
+    recordUsage(toUsageEntry('sonar-pro', { promptTokens: 0, completionTokens: 1000, totalTokens: 1000 }, 10, config), config, workDir);
+    vi.mocked((axios as any).default.post).mockClear();
+
+    await expect(requestAnswer('hello', config)).rejects.toThrow('The daily budget of $0.0100 is used up');
+    expect((axios as any).default.post).not.toHaveBeenCalled();
+  });
+});
+
+describe('requestAnswer thinking', () => {
+  it('moves <think> sections out of the answer', async () => {
+    const axios = await import('axios');
+    vi.mocked((axios as any).default.post).mockResolvedValueOnce({
+      data: { choices: [{ message: { content: '<think>Consider edge cases.</think>\n\nThe answer.' } }] },
+    });
+    const { requestAnswer } = await import('../src/perplexity.js');
+    const { defaultConfig } = await import('../src/config.js');
+    const config = { ...defaultConfig, api: { ...defaultConfig.api, key: 'pplx-test' } };
+
+    const answer = await requestAnswer('q', config, { model: 'sonar-reasoning' });
+
+    expect(answer.content).toBe('The answer.');
+    expect(answer.thinking).toBe('Consider edge cases.');
+  });
+});
+
+describe('extractCitations', () => {
+  it('falls back to search_results when citations are missing', async () => {
+    const { extractCitations } = await import('../src/perplexity.js');
+
+    expect(extractCitations({ search_results: [{ title: 'A', url: 'https://a.test' }, { title: 'no url' }] })).toEqual([
+      { url: 'https://a.test', title: 'A' },
+    ]);
+    expect(extractCitations({})).toEqual([]);
+  });
+});
+
+describe('formatCitations', () => {
+  it('renders numbered footnotes with titles', async () => {
+    const { formatCitations } = await import('../src/perplexity.js');
+
+    expect(formatCitations([{ url: 'https://a.test', title: 'A', date: '2025-01-02' }, { url: 'https://b.test' }])).toBe(
+      'Sources:\n[1] A - https://a.test (2025-01-02)\n[2] https://b.test',
+    );
+    expect(formatCitations([])).toBe('');
+  });
+});
+
 describe('buildApiPayload', () => {
   it('includes agent config parameters', async () => {
     const { buildApiPayload } = await import('../src/perplexity.js');
@@ -118,6 +294,213 @@ describe('buildApiPayload', () => {
 
     expect(payload.search_mode).toBe('high');
   });
+
+  it('uses the temperature override from options', async () => {
+    const { buildApiPayload } = await import('../src/perplexity.js');
+    const { defaultConfig } = await import('../src/config.js');
+
+    const payload = buildApiPayload('test', defaultConfig, { temperature: 0 }, false);
+
+    expect(payload.temperature).toBe(0);
+  });
+
+  it('sends conversation history ahead of the new question', async () => {
+    const { buildApiPayload } = await import('../src/perplexity.js');
+    const { defaultConfig } = await import('../src/config.js');
+
+    const payload = buildApiPayload('now in bash', defaultConfig, {
+      history: [
+        { role: 'user', content: 'loop in PowerShell' },
+        { role: 'assistant', content: 'foreach ...' },
+      ],
+    });
+
+    expect(payload.messages).toEqual([
+      { role: 'user', content: 'loop in PowerShell' },
+      { role: 'assistant', content: 'foreach ...' },
+      { role: 'user', content: 'now in bash' },
+    ]);
+  });
+
+  it('sends a JSON schema as response_format only when one is given', async () => {
+    const { buildApiPayload } = await import('../src/perplexity.js');
+    const { defaultConfig } = await import('../src/config.js');
+    const schema = { type: 'object', properties: { version: { type: 'string' } } };
+
+    expect(buildApiPayload('test', defaultConfig, { responseSchema: schema }).response_format).toEqual({
+      type: 'json_schema',
+      json_schema: { schema },
+    });
+    expect(buildApiPayload('test', defaultConfig, {})).not.toHaveProperty('response_format');
+  });
+});
+
+describe('buildSearchFilters', () => {
+  it('sends no filters by default', async () => {
+    const { buildSearchFilters } = await import('../src/perplexity.js');
+    const { defaultConfig } = await import('../src/config.js');
+
+    expect(buildSearchFilters(defaultConfig)).toEqual({});
+  });
+
+  it('combines configured and per-request filters', async () => {
+    const { buildSearchFilters } = await import('../src/perplexity.js');
+    const { defaultConfig } = await import('../src/config.js');
+    const config = {
+      ...defaultConfig,
+      research: { ...defaultConfig.research, recency: 'month' as const, allowed_domains: ['https://learn.microsoft.com/en-us/'] },
+    };
+
+    expect(buildSearchFilters(config, { blockedDomains: ['reddit.com'] })).toEqual({
+      search_recency_filter: 'month',
+      search_domain_filter: ['learn.microsoft.com', '-reddit.com'],
+    });
+    expect(buildSearchFilters(config, { recency: 'any', allowedDomains: [] })).toEqual({});
+  });
+
+  it('uses a date range instead of recency', async () => {
+    const { buildSearchFilters } = await import('../src/perplexity.js');
+    const { defaultConfig } = await import('../src/config.js');
+    const config = { ...defaultConfig, research: { ...defaultConfig.research, recency: 'week' as const } };
+
+    expect(buildSearchFilters(config, { afterDate: '2026-01-01', beforeDate: '2026-03-31' })).toEqual({
+      search_after_date_filter: '01/01/2026',
+      search_before_date_filter: '03/31/2026',
+    });
+    expect(() => buildSearchFilters(config, { afterDate: '2026-04-01', beforeDate: '2026-03-31' })).toThrow('date range is empty');
+  });
+
+  it('limits sources to the past year when focus_on_recent is set', async () => {
+    const { buildSearchFilters } = await import('../src/perplexity.js');
+    const { defaultConfig } = await import('../src/config.js');
+    const config = { ...defaultConfig, research: { ...defaultConfig.research, focus_on_recent: true } };
+
+    expect(buildSearchFilters(config)).toEqual({ search_recency_filter: 'year' });
+    expect(buildSearchFilters(config, { recency: 'day' })).toEqual({ search_recency_filter: 'day' });
+  });
+
+  it('rejects more domains than the API accepts', async () => {
+    const { buildSearchFilters } = await import('../src/perplexity.js');
+    const { defaultConfig } = await import('../src/config.js');
+    const domains = Array.from({ length: 21 }, (_, i) => `site${i}.example.com`);
+
+    expect(() => buildSearchFilters(defaultConfig, { allowedDomains: domains })).toThrow('At most 20 domains');
+  });
+});
+
+describe('buildMessages', () => {
+  it('puts the system prompt first', async () => {
+    const { buildMessages } = await import('../src/perplexity.js');
+
+    expect(buildMessages('hi', [], 'You are terse.')).toEqual([
+      { role: 'system', content: 'You are terse.' },
+      { role: 'user', content: 'hi' },
+    ]);
+  });
+
+  it('merges the system prompt with a leading system message from history', async () => {
+    const { buildMessages } = await import('../src/perplexity.js');
+
+    const messages = buildMessages('next', [{ role: 'system', content: 'Summary: loops' }], 'You are terse.');
+
+    expect(messages[0]).toEqual({ role: 'system', content: 'You are terse.\n\nSummary: loops' });
+    expect(messages).toHaveLength(2);
+  });
+});
+
+describe('askPerplexityStreaming', () => {
+  it('writes deltas progressively and resolves with the full answer', async () => {
+    const axios = await import('axios');
+    const { Readable } = await import('stream');
+    vi.mocked((axios as any).default.post).mockResolvedValueOnce({
+      data: Readable.from([
+        'data: {"choices":[{"delta":{"content":"Hello"}}]}\n',
+        'data: {"choices":[{"delta":{"content":" there"}}]}\n',
+        'data: [DONE]\n',
+      ]),
+    });
+    const writeSpy = vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+
+    const { askPerplexityStreaming } = await import('../src/perplexity.js');
+    const { defaultConfig } = await import('../src/config.js');
+    const config = { ...defaultConfig, api: { ...defaultConfig.api, key: 'pplx-test' } };
+
+    const answer = await askPerplexityStreaming('hi', config);
+
+    expect(answer).toBe('Hello there');
+    expect(writeSpy).toHaveBeenCalledWith('Hello');
+    writeSpy.mockRestore();
+  });
+
+  it('captures citations and usage from the final chunk', async () => {
+    const axios = await import('axios');
+    const { Readable } = await import('stream');
+    vi.mocked((axios as any).default.post).mockResolvedValueOnce({
+      data: Readable.from([
+        'data: {"choices":[{"delta":{"content":"Answer [1]"}}]}\n',
+        'data: {"choices":[{"delta":{}}],"citations":["https://a.test"],"search_results":[{"title":"A","url":"https://a.test"}],"usage":{"prompt_tokens":3,"completion_tokens":4,"total_tokens":7}}\n',
+        'data: [DONE]\n',
+      ]),
+    });
+
+    const { streamAnswer } = await import('../src/perplexity.js');
+    const { defaultConfig } = await import('../src/config.js');
+    const config = { ...defaultConfig, api: { ...defaultConfig.api, key: 'pplx-test' } };
+    const onDelta = vi.fn();
+
+    const answer = await streamAnswer('hi', config, {}, onDelta);
+
+    expect(answer).toMatchObject({
+      content: 'Answer [1]',
+      citations: [{ url: 'https://a.test', title: 'A' }],
+      usage: { promptTokens: 3, completionTokens: 4, totalTokens: 7 },
+    });
+    expect(answer.timing.firstTokenMs).toBeGreaterThanOrEqual(0);
+    expect(onDelta).toHaveBeenCalledTimes(1);
+  });
+
+  it('records usage once when [DONE] is followed by the end of the stream', async () => {
+    const axios = await import('axios');
+    const { Readable } = await import('stream');
+    vi.mocked((axios as any).default.post).mockResolvedValueOnce({
+      data: Readable.from([
+        'data: {"choices":[{"delta":{"content":"Hi"}}],"usage":{"prompt_tokens":3,"completion_tokens":4,"total_tokens":7}}\n',
+        'data: [DONE]\n',
+      ]),
+    });
+
+    const { streamAnswer } = await import('../src/perplexity.js');
+    const { defaultConfig } = await import('../src/config.js');
+    const { readUsage } = await import('../src/usage.js');
+    const config = { ...defaultConfig, api: { ...defaultConfig.api, key: 'pplx-test' } };
+
+    await streamAnswer('hi', config, {}, vi.fn());
+    // Let the stream emit 'end' after [DONE] has resolved the request
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(readUsage(workDir)).toHaveLength(1);
+  });
+
+  it('still returns the answer, streamed or not, when the ledger cannot be written', async () => {
+    const axios = await import('axios');
+    const { Readable } = await import('stream');
+    // A file where the ~/.enigma directory should be makes every ledger write fail
+    fs.writeFileSync(path.join(workDir, '.enigma'), '');
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    vi.mocked((axios as any).default.post)
+      .mockResolvedValueOnce({ data: { model: 'sonar', choices: [{ message: { content: 'Paid for.' } }] } })
+      .mockResolvedValueOnce({ data: Readable.from(['data: {"choices":[{"delta":{"content":"Streamed."}}]}\n', 'data: [DONE]\n']) });
+
+    const { requestAnswer, streamAnswer } = await import('../src/perplexity.js');
+    const { defaultConfig } = await import('../src/config.js');
+    const config = { ...defaultConfig, api: { ...defaultConfig.api, key: 'pplx-test' } };
+
+    expect((await requestAnswer('hi', config, {})).content).toBe('Paid for.');
+    expect((await streamAnswer('hi', config, {}, vi.fn())).content).toBe('Streamed.');
+    expect(errorSpy).toHaveBeenCalledTimes(1);
+    expect(String(errorSpy.mock.calls[0][0])).toContain('Could not record usage');
+    errorSpy.mockRestore();
+  });
 });
 
 describe('parseSSELine', () => {
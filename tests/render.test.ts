@@ -0,0 +1,127 @@
+import { describe, expect, it, vi } from 'vitest';
+import { AnswerOutput, printAnswerOutput, renderJsonAnswer, renderPlainAnswer, startAnswerStream, stripMarkdown, toAnswerOutput } from '../src/render.js';
+
+const output = (overrides: Partial<AnswerOutput> = {}): AnswerOutput => ({
+  answer: '## Setup\n\nRun **npm install** and see [the docs](https://docs.test) [1].',
+  thinking: null,
+  model: 'sonar-pro',
+  citations: [{ url: 'https://a.test', title: 'A' }],
+  usage: { promptTokens: 10, completionTokens: 20, totalTokens: 30 },
+  timing: { totalMs: 1200 },
+  ...overrides,
+});
+
+describe('toAnswerOutput', () => {
+  it('prefers the model reported by the API and drops citations when disabled', () => {
+    const answer = { content: 'hi', citations: [{ url: 'https://a.test' }], timing: { totalMs: 5 } };
+    expect(toAnswerOutput(answer, 'sonar', true)).toEqual({
+      answer: 'hi',
+      thinking: null,
+      model: 'sonar',
+      citations: [{ url: 'https://a.test' }],
+      usage: null,
+      timing: { totalMs: 5 },
+    });
+    expect(toAnswerOutput({ ...answer, model: 'sonar-pro' }, 'sonar', false)).toMatchObject({ model: 'sonar-pro', citations: [] });
+  });
+});
+
+describe('stripMarkdown', () => {
+  it('removes headings, emphasis, inline code and link syntax', () => {
+    expect(stripMarkdown('# Title\n> quoted *text* and __bold__\n* item with `code`\n---\n[docs](https://d.test)')).toBe(
+      'Title\nquoted text and bold\n- item with code\n\ndocs (https://d.test)',
+    );
+  });
+
+  it('drops code fences but keeps their contents verbatim', () => {
+    expect(stripMarkdown('Run:\n```bash\necho **not bold**\n```\nDone')).toBe('Run:\necho **not bold**\nDone');
+  });
+
+  it('keeps citation markers and snake_case words', () => {
+    expect(stripMarkdown('Use max_tokens and 2 * 3 * 4 [1][2].')).toBe('Use max_tokens and 2 * 3 * 4 [1][2].');
+  });
+});
+
+describe('renderJsonAnswer', () => {
+  it('emits a stable machine-readable object', () => {
+    expect(JSON.parse(renderJsonAnswer(output({ thinking: 'Reasoned.' })))).toEqual({
+      answer: output().answer,
+      thinking: 'Reasoned.',
+      model: 'sonar-pro',
+      citations: [{ url: 'https://a.test', title: 'A' }],
+      usage: { promptTokens: 10, completionTokens: 20, totalTokens: 30 },
+      timing: { totalMs: 1200, firstTokenMs: null },
+    });
+  });
+});
+
+describe('renderPlainAnswer', () => {
+  it('strips markdown and appends sources', () => {
+    expect(renderPlainAnswer(output())).toBe(
+      'Setup\n\nRun npm install and see the docs (https://docs.test) [1].\n\nSources:\n[1] A - https://a.test',
+    );
+  });
+});
+
+describe('renderPlainAnswer thinking', () => {
+  it('prefixes the reasoning only when shown', () => {
+    const withThinking = output({ answer: 'Done.', citations: [], thinking: 'Plan.' });
+    expect(renderPlainAnswer(withThinking)).toBe('Done.');
+    expect(renderPlainAnswer(withThinking, { showThinking: true })).toBe('Plan.\n\nDone.');
+  });
+});
+
+describe('startAnswerStream', () => {
+  it('strips plain output line by line across chunk boundaries', () => {
+    const written: string[] = [];
+    const stream = startAnswerStream('plain', (text) => written.push(text));
+    stream.write('## Hea');
+    stream.write('ding\n```js\nconst a = 1;\n``');
+    stream.write('`\n**done**');
+    stream.end();
+    expect(written.join('')).toBe('Heading\nconst a = 1;\ndone');
+  });
+
+  it('renders markdown for the terminal as it streams', () => {
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const written: string[] = [];
+    const stream = startAnswerStream('markdown', (text) => written.push(text), { render: true });
+    stream.write('# Title\n- it');
+    stream.write('em **one**');
+    stream.end();
+    expect(written.join('')).toBe('Title\n• item one\n');
+    logSpy.mockRestore();
+  });
+
+  it('hides thinking unless asked and separates it from the answer', () => {
+    const hidden: string[] = [];
+    const hiddenStream = startAnswerStream('plain', (text) => hidden.push(text));
+    hiddenStream.writeThinking('secret plan');
+    hiddenStream.write('answer\n');
+    expect(hidden.join('')).toBe('answer\n');
+
+    const shown: string[] = [];
+    const shownStream = startAnswerStream('plain', (text) => shown.push(text), { showThinking: true });
+    shownStream.writeThinking('plan');
+    shownStream.write('answer\n');
+    expect(shown.join('')).toBe('plan\n\nanswer\n');
+  });
+
+  it('writes nothing while streaming JSON', () => {
+    const write = vi.fn();
+    const stream = startAnswerStream('json', write);
+    stream.write('partial');
+    stream.end();
+    expect(write).not.toHaveBeenCalled();
+  });
+});
+
+describe('printAnswerOutput', () => {
+  it('prints only JSON to stdout for the json format', () => {
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    printAnswerOutput(output(), 'json', { streamed: true });
+    expect(logSpy).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(String(logSpy.mock.calls[0][0])).model).toBe('sonar-pro');
+    logSpy.mockRestore();
+  });
+});
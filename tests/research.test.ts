@@ -0,0 +1,109 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('../src/perplexity.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../src/perplexity.js')>();
+  return { ...actual, streamAnswer: vi.fn() };
+});
+
+import { defaultConfig } from '../src/config.js';
+import { streamAnswer } from '../src/perplexity.js';
+import {
+  createResearchJob,
+  effectiveStatus,
+  formatElapsed,
+  listResearchJobs,
+  loadResearchJob,
+  researchDir,
+  runResearchJob,
+  saveResearchJob,
+} from '../src/research.js';
+
+const tempDir = () => fs.mkdtempSync(path.join(os.tmpdir(), 'enigma-research-'));
+const config = { ...defaultConfig, api: { ...defaultConfig.api, key: 'pplx-test' } };
+
+describe('createResearchJob', () => {
+  it('queues a job on the deep research model', () => {
+    const job = createResearchJob('WebAssembly tooling', config, {}, new Date('2026-01-07T10:00:00Z'));
+    expect(job).toEqual(
+      expect.objectContaining({
+        topic: 'WebAssembly tooling',
+        model: 'sonar-deep-research',
+        searchMode: 'medium',
+        status: 'queued',
+        createdAt: '2026-01-07T10:00:00.000Z',
+      }),
+    );
+  });
+});
+
+describe('runResearchJob', () => {
+  it('streams progress, saves the answer and uses the job timeout', async () => {
+    const baseDir = tempDir();
+    vi.mocked(streamAnswer).mockImplementationOnce(async (_topic, _config, _options, onDelta) => {
+      onDelta?.('Part one. ');
+      onDelta?.('Part two.');
+      return { content: 'Part one. Part two.', citations: [{ url: 'https://a.test', title: 'A' }] };
+    });
+    const onProgress = vi.fn();
+    const job = createResearchJob('topic', config);
+
+    await runResearchJob(job, config, { baseDir, onProgress });
+
+    expect(onProgress).toHaveBeenLastCalledWith(expect.objectContaining({ characters: 19 }));
+    const saved = loadResearchJob(job.id, baseDir);
+    expect(saved.status).toBe('completed');
+    expect(saved.answer).toBe('Part one. Part two.');
+    expect(saved.citations).toEqual([{ url: 'https://a.test', title: 'A' }]);
+    expect(saved.durationMs).toBeGreaterThanOrEqual(0);
+    const [, usedConfig, usedOptions] = vi.mocked(streamAnswer).mock.calls[0];
+    expect(usedConfig.api.timeout).toBe(config.research.job_timeout);
+    expect(usedOptions).toEqual({ model: 'sonar-deep-research', searchMode: 'medium' });
+  });
+
+  it('records failures on the job and rethrows', async () => {
+    const baseDir = tempDir();
+    vi.mocked(streamAnswer).mockRejectedValueOnce(new Error('socket hang up'));
+    const job = createResearchJob('topic', config);
+
+    await expect(runResearchJob(job, config, { baseDir })).rejects.toThrow('socket hang up');
+
+    const saved = loadResearchJob(job.id, baseDir);
+    expect(saved.status).toBe('failed');
+    expect(saved.error).toBe('socket hang up');
+  });
+});
+
+describe('research job store', () => {
+  it('lists jobs newest first and loads by prefix', () => {
+    const baseDir = tempDir();
+    const older = createResearchJob('older', config, {}, new Date('2026-01-01T00:00:00Z'));
+    const newer = createResearchJob('newer', config, {}, new Date('2026-01-02T00:00:00Z'));
+    saveResearchJob(older, baseDir);
+    saveResearchJob(newer, baseDir);
+    fs.writeFileSync(path.join(researchDir(baseDir), 'broken.json'), 'nope');
+
+    expect(listResearchJobs(baseDir).map((job) => job.topic)).toEqual(['newer', 'older']);
+    expect(loadResearchJob('20260101', baseDir).topic).toBe('older');
+    expect(() => loadResearchJob('2026', baseDir)).toThrow(/ambiguous/);
+    expect(() => loadResearchJob('missing', baseDir)).toThrow(/not found/);
+  });
+});
+
+describe('effectiveStatus', () => {
+  it('reports running jobs whose process is gone as interrupted', () => {
+    const job = { ...createResearchJob('topic', config), status: 'running' as const, pid: 12345 };
+    expect(effectiveStatus(job, () => false)).toBe('interrupted');
+    expect(effectiveStatus(job, () => true)).toBe('running');
+    expect(effectiveStatus({ ...job, status: 'completed' }, () => false)).toBe('completed');
+  });
+});
+
+describe('formatElapsed', () => {
+  it('formats seconds and minutes', () => {
+    expect(formatElapsed(4200)).toBe('4s');
+    expect(formatElapsed(95000)).toBe('1m 35s');
+  });
+});
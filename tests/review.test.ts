@@ -0,0 +1,232 @@
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { defaultConfig, EnigmaConfig } from '../src/config.js';
+import { AskOptions } from '../src/perplexity.js';
+import {
+  buildReviewPrompt,
+  chunkFileDiff,
+  collectDiff,
+  diffArguments,
+  formatReviewReport,
+  hasFindingsAtOrAbove,
+  numberHunk,
+  parseFindings,
+  REVIEW_SCHEMA,
+  ReviewReport,
+  reviewBudget,
+  reviewDiff,
+  splitDiffByFile,
+  toSarif,
+} from '../src/review.js';
+
+const diff = [
+  'diff --git a/src/config.ts b/src/config.ts',
+  'index 1111111..2222222 100644',
+  '--- a/src/config.ts',
+  '+++ b/src/config.ts',
+  '@@ -10,4 +10,5 @@ export const loadConfig = () => {',
+  '   const raw = read();',
+  '-  return parse(raw);',
+  '+  const parsed = parse(raw);',
+  '+  return parsed.api;',
+  ' };',
+  '',
+  'diff --git a/logo.png b/logo.png',
+  'index 3333333..4444444 100644',
+  'Binary files a/logo.png and b/logo.png differ',
+  'diff --git a/old.ts b/old.ts',
+  'deleted file mode 100644',
+  'index 5555555..0000000',
+  '--- a/old.ts',
+  '+++ /dev/null',
+  '@@ -1 +0,0 @@',
+  '-export {};',
+  '',
+].join('\n');
+
+const report: ReviewReport = {
+  target: 'main..HEAD',
+  files: ['src/config.ts', 'src/index.ts'],
+  findings: [
+    { file: 'src/config.ts', line: 12, severity: 'error', message: 'Returns only the api section.' },
+    { file: 'src/index.ts', line: 3, severity: 'info', message: 'Unused import.' },
+  ],
+  skipped: ['logo.png'],
+  failed: [],
+};
+
+describe('diffArguments', () => {
+  it('diffs staged changes, a range, or everything uncommitted', () => {
+    expect(diffArguments({ staged: true })).toContain('--staged');
+    expect(diffArguments({ range: 'main..HEAD' }).slice(-2)).toEqual(['main..HEAD', '--']);
+    expect(diffArguments({}).slice(-2)).toEqual(['HEAD', '--']);
+    expect(() => diffArguments({ staged: true, range: 'main..HEAD' })).toThrow('not both');
+    expect(() => diffArguments({ range: '--output=x' })).toThrow('is not a revision range');
+  });
+});
+
+describe('collectDiff', () => {
+  it('returns the staged diff of a repository', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'enigma-review-'));
+    execFileSync('git', ['init', '--quiet'], { cwd: dir });
+    fs.writeFileSync(path.join(dir, 'a.ts'), 'export const a = 1;\n');
+    execFileSync('git', ['add', 'a.ts'], { cwd: dir });
+    expect(collectDiff({ staged: true }, dir)).toContain('+export const a = 1;');
+    expect(() => collectDiff({ range: 'no-such-branch..HEAD' }, dir)).toThrow('git diff failed:');
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+});
+
+describe('splitDiffByFile', () => {
+  it('splits the diff into files with their hunks', () => {
+    const files = splitDiffByFile(diff);
+    expect(files.map(({ path: file, binary, deleted }) => ({ file, binary, deleted }))).toEqual([
+      { file: 'src/config.ts', binary: false, deleted: false },
+      { file: 'logo.png', binary: true, deleted: false },
+      { file: 'old.ts', binary: false, deleted: true },
+    ]);
+    expect(files[0].hunks).toHaveLength(1);
+    expect(files[0].hunks[0].endsWith(' };')).toBe(true);
+  });
+});
+
+describe('numberHunk', () => {
+  it('numbers kept and added lines as in the new file', () => {
+    expect(numberHunk(splitDiffByFile(diff)[0].hunks[0]).split('\n')).toEqual([
+      '@@ -10,4 +10,5 @@ export const loadConfig = () => {',
+      '10    const raw = read();',
+      '   -  return parse(raw);',
+      '11 +  const parsed = parse(raw);',
+      '12 +  return parsed.api;',
+      '13  };',
+    ]);
+  });
+});
+
+describe('chunkFileDiff', () => {
+  const hunk = (start: number) => [`@@ -${start},3 +${start},3 @@`, ...Array.from({ length: 3 }, (_, index) => `+${'x'.repeat(96)}${index}`)].join('\n');
+
+  it('keeps a small file in one chunk', () => {
+    expect(chunkFileDiff({ path: 'a.ts', hunks: [hunk(1), hunk(20)], binary: false, deleted: false }, 1000)).toHaveLength(1);
+  });
+
+  it('splits between hunks, then between lines, to stay within the budget', () => {
+    const chunks = chunkFileDiff({ path: 'a.ts', hunks: [hunk(1), hunk(20)], binary: false, deleted: false }, 100);
+    expect(chunks.map(({ part, parts }) => `${part}/${parts}`)).toEqual(['1/2', '2/2']);
+    expect(chunks[1].diff.startsWith('@@ -20,3 +20,3 @@')).toBe(true);
+
+    const lines = chunkFileDiff({ path: 'a.ts', hunks: [hunk(1)], binary: false, deleted: false }, 40);
+    expect(lines).toHaveLength(3);
+    expect(lines.every((chunk) => chunk.diff.startsWith('@@ -1,3 +1,3 @@'))).toBe(true);
+    expect(lines[2].diff).toContain('\n3 +');
+  });
+});
+
+describe('reviewBudget', () => {
+  it('leaves room for agent.max_tokens and the instructions', () => {
+    const config: EnigmaConfig = { ...defaultConfig, context: { ...defaultConfig.context, max_context_tokens: 8000 } };
+    expect(reviewBudget('sonar', config)).toBe(8000 - config.agent.max_tokens - 1000);
+  });
+});
+
+describe('buildReviewPrompt', () => {
+  it('names the file and part and asks for JSON findings', () => {
+    const prompt = buildReviewPrompt({ path: 'src/a.ts', part: 2, parts: 3, diff: '@@ -1 +1 @@\n1 +x' });
+    expect(prompt).toContain('Review the changes to src/a.ts (part 2 of 3).');
+    expect(prompt).toContain('{"findings": [');
+  });
+});
+
+describe('parseFindings', () => {
+  it('reads findings and attaches the file', () => {
+    expect(parseFindings('```json\n{"findings":[{"line":4,"severity":"warning","message":" Off by one. "}]}\n```', 'a.ts')).toEqual({
+      findings: [{ file: 'a.ts', line: 4, severity: 'warning', message: 'Off by one.' }],
+    });
+  });
+
+  it('explains answers that are not findings', () => {
+    expect(parseFindings('Looks good to me!', 'a.ts').error).toContain('not valid JSON');
+    expect(parseFindings('{"findings":[{"line":0,"severity":"fatal","message":"x"}]}', 'a.ts').error).toContain('must be one of');
+  });
+});
+
+describe('reviewDiff', () => {
+  it('asks once per file and collects the findings', async () => {
+    const calls: { question: string; options: AskOptions }[] = [];
+    const ask = async (question: string, _config: EnigmaConfig, options: AskOptions) => {
+      calls.push({ question, options });
+      return '{"findings":[{"line":12,"severity":"error","message":"Returns only the api section."}]}';
+    };
+    const result = await reviewDiff(diff, 'staged changes', defaultConfig, { model: 'sonar', systemPrompt: 'Be terse.' }, { ask });
+
+    expect(calls).toHaveLength(1);
+    expect(calls[0].question).toContain('12 +  return parsed.api;');
+    expect(calls[0].options.responseSchema).toBe(REVIEW_SCHEMA);
+    expect(calls[0].options.systemPrompt).toMatch(/^You are a careful code reviewer[\s\S]*Be terse\.$/);
+    expect(result).toEqual({
+      target: 'staged changes',
+      files: ['src/config.ts'],
+      findings: [{ file: 'src/config.ts', line: 12, severity: 'error', message: 'Returns only the api section.' }],
+      skipped: ['logo.png', 'old.ts'],
+      failed: [],
+    });
+  });
+
+  it('records files whose review failed and carries on', async () => {
+    const ask = async () => {
+      throw new Error('Request timed out');
+    };
+    const result = await reviewDiff(diff, 'staged changes', defaultConfig, { model: 'sonar' }, { ask });
+    expect(result.failed).toEqual([{ file: 'src/config.ts', error: 'Request timed out' }]);
+  });
+});
+
+describe('hasFindingsAtOrAbove', () => {
+  it('compares against the most severe finding', () => {
+    expect(hasFindingsAtOrAbove(report, 'error')).toBe(true);
+    expect(hasFindingsAtOrAbove({ ...report, findings: [report.findings[1]] }, 'warning')).toBe(false);
+    expect(hasFindingsAtOrAbove({ ...report, findings: [report.findings[1]] }, 'info')).toBe(true);
+  });
+});
+
+describe('formatReviewReport', () => {
+  it('renders plain compiler-style lines', () => {
+    expect(formatReviewReport(report, 'plain')).toBe(
+      [
+        'src/config.ts:12: error: Returns only the api section.',
+        'src/index.ts:3: info: Unused import.',
+        '2 findings (1 error, 1 info) in 2 files.',
+      ].join('\n'),
+    );
+  });
+
+  it('renders markdown grouped by file', () => {
+    const markdown = formatReviewReport(report, 'markdown');
+    expect(markdown).toContain('## Review of main..HEAD');
+    expect(markdown).toContain('### src/config.ts\n\n- **error** line 12: Returns only the api section.');
+    expect(markdown).toContain('Skipped binary or deleted files: logo.png');
+    expect(formatReviewReport({ ...report, findings: [] }, 'markdown')).toContain('No findings in 2 files.');
+  });
+
+  it('renders JSON and SARIF', () => {
+    expect(JSON.parse(formatReviewReport(report, 'json')).findings).toEqual(report.findings);
+    expect(JSON.parse(formatReviewReport(report, 'sarif', '2.0.0'))).toEqual(toSarif(report, '2.0.0'));
+  });
+});
+
+describe('toSarif', () => {
+  it('maps findings to SARIF results', () => {
+    const run = (toSarif(report, '1.0.0').runs as any[])[0];
+    expect(run.tool.driver).toMatchObject({ name: 'enigma', version: '1.0.0' });
+    expect(run.results[1]).toEqual({
+      ruleId: 'review/info',
+      level: 'note',
+      message: { text: 'Unused import.' },
+      locations: [{ physicalLocation: { artifactLocation: { uri: 'src/index.ts' }, region: { startLine: 3 } } }],
+    });
+    expect(run.invocations[0].executionSuccessful).toBe(true);
+  });
+});
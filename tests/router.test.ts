@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { defaultConfig } from '../src/config.js';
+import { classifyQuestion, describeRoute, parseRouteMode, routeQuestion, selectedShortcuts } from '../src/router.js';
+
+describe('parseRouteMode', () => {
+  it('parses valid modes', () => {
+    expect(parseRouteMode('auto')).toBe('auto');
+    expect(parseRouteMode('explain')).toBe('explain');
+    expect(parseRouteMode('off')).toBe('off');
+  });
+
+  it('returns undefined for invalid modes', () => {
+    expect(parseRouteMode('maybe')).toBe(undefined);
+    expect(parseRouteMode(undefined)).toBe(undefined);
+  });
+});
+
+describe('selectedShortcuts', () => {
+  it('returns the shortcut flags that are set', () => {
+    expect(selectedShortcuts({})).toEqual([]);
+    expect(selectedShortcuts({ reason: true })).toEqual(['reason']);
+    expect(selectedShortcuts({ search: true, fast: true, research: false })).toEqual(['fast', 'search']);
+  });
+});
+
+describe('classifyQuestion', () => {
+  it('sends recency questions to the search-heavy model', () => {
+    const result = classifyQuestion('What are the latest features in PowerShell 7.5 released this year?');
+    expect(result.role).toBe('search_heavy');
+    expect(result.reasons).toContain('mentions "latest"');
+  });
+
+  it('sends proofs and step-by-step requests to the reasoning model', () => {
+    expect(classifyQuestion('Prove that quicksort terminates, step by step').role).toBe('reasoning');
+  });
+
+  it('treats attached code as a reasoning question', () => {
+    const result = classifyQuestion('What is wrong here?\n```ts\nconst x: number = "a";\n```');
+    expect(result.role).toBe('reasoning');
+    expect(result.reasons).toContain('contains code or a stack trace');
+  });
+
+  it('sends comprehensive research requests to the deep research model', () => {
+    expect(classifyQuestion('Write a comprehensive research report on WebAssembly adoption in 2026').role).toBe(
+      'deep_research',
+    );
+  });
+
+  it('sends short questions without other signals to the fast model', () => {
+    expect(classifyQuestion('What is a PowerShell profile?').role).toBe('fast');
+  });
+
+  it('does not downgrade short follow-ups to the fast model', () => {
+    const result = classifyQuestion('now do it in bash instead', { followUp: true });
+    expect(result).toEqual({ role: 'default', reasons: ['follow-up in a conversation'] });
+  });
+
+  it('uses the default model when nothing stands out', () => {
+    const question = 'Help me organise the modules of a medium sized command line tool written in TypeScript please';
+    expect(classifyQuestion(question).role).toBe('default');
+  });
+});
+
+describe('routeQuestion', () => {
+  it('maps the role to the configured model', () => {
+    const config = { ...defaultConfig, models: { ...defaultConfig.models, reasoning: 'sonar-reasoning' } };
+    const decision = routeQuestion('Why does this deadlock? Find the root cause.', config);
+
+    expect(decision.model).toBe('sonar-reasoning');
+    expect(describeRoute(decision)).toMatch(/^Routing to sonar-reasoning \(models\.reasoning\): mentions "Why does"/);
+  });
+});
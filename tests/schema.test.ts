@@ -0,0 +1,141 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { defaultConfig } from '../src/config.js';
+import { PerplexityAnswer } from '../src/perplexity.js';
+import { askStructured, loadSchema, parseJsonAnswer, validateAgainstSchema } from '../src/schema.js';
+
+const releaseSchema = {
+  type: 'object',
+  properties: {
+    version: { type: 'string', pattern: '^v\\d+' },
+    lts: { type: 'boolean' },
+    tags: { type: 'array', items: { type: 'string' }, minItems: 1 },
+    channel: { enum: ['current', 'lts'] },
+  },
+  required: ['version', 'lts'],
+  additionalProperties: false,
+};
+
+const answer = (content: string): PerplexityAnswer => ({ content, citations: [], timing: { totalMs: 5 } });
+
+describe('validateAgainstSchema', () => {
+  it('accepts a conforming value', () => {
+    expect(validateAgainstSchema({ version: 'v22.11.0', lts: true, tags: ['jod'], channel: 'lts' }, releaseSchema)).toEqual([]);
+  });
+
+  it('reports every problem with its path', () => {
+    expect(validateAgainstSchema({ version: '22', tags: [1], channel: 'beta', extra: 1 }, releaseSchema)).toEqual([
+      '$.lts: is required',
+      '$.version: does not match /^v\\d+/',
+      '$.tags[0]: expected string, got integer',
+      '$.channel: must be one of "current", "lts"',
+      '$.extra: is not allowed',
+    ]);
+  });
+
+  it('treats integers as numbers but not the other way round', () => {
+    expect(validateAgainstSchema(3, { type: 'number' })).toEqual([]);
+    expect(validateAgainstSchema(3.5, { type: 'integer' })).toEqual(['$: expected integer, got number']);
+  });
+
+  it('follows local $ref and checks anyOf', () => {
+    const schema = {
+      $defs: { id: { anyOf: [{ type: 'string' }, { type: 'integer', minimum: 1 }] } },
+      type: 'array',
+      items: { $ref: '#/$defs/id' },
+    };
+
+    expect(validateAgainstSchema(['a', 2], schema)).toEqual([]);
+    expect(validateAgainstSchema([0], schema)).toEqual(['$[0]: does not match any of the allowed schemas']);
+  });
+
+  it('follows recursive $refs into child values', () => {
+    const tree = { type: 'object', properties: { name: { type: 'string' }, children: { type: 'array', items: { $ref: '#' } } } };
+    expect(validateAgainstSchema({ name: 'a', children: [{ name: 'b', children: [{ name: 3 }] }] }, tree)).toEqual([
+      '$.children[0].children[0].name: expected string, got integer',
+    ]);
+  });
+
+  it('reports unresolved and circular $refs instead of passing or overflowing', () => {
+    expect(validateAgainstSchema('x', { $ref: '#/$defs/missing' })).toEqual(['$: cannot resolve $ref "#/$defs/missing"']);
+    expect(validateAgainstSchema('x', { $ref: '#' })).toEqual(['$: $ref "#" refers back to itself']);
+    const loop = { $defs: { a: { $ref: '#/$defs/b' }, b: { allOf: [{ $ref: '#/$defs/a' }] } }, $ref: '#/$defs/a' };
+    expect(validateAgainstSchema('x', loop)).toEqual(['$: $ref "#/$defs/a" refers back to itself']);
+  });
+
+  it('skips keywords whose values have the wrong type instead of misusing them', () => {
+    expect(validateAgainstSchema('x', { minLength: '3', properties: 'none', items: 1, required: 'v' })).toEqual([]);
+    expect(validateAgainstSchema({}, { type: 'object', required: ['v', 7] })).toEqual(['$.v: is required']);
+  });
+});
+
+describe('parseJsonAnswer', () => {
+  it('parses bare and fenced JSON', () => {
+    expect(parseJsonAnswer('{"a":1}')).toEqual({ value: { a: 1 } });
+    expect(parseJsonAnswer('```json\n{"a":1}\n```')).toEqual({ value: { a: 1 } });
+  });
+
+  it('explains answers that are not JSON', () => {
+    expect(parseJsonAnswer('Sure! Here it is.').error).toMatch(/^response is not valid JSON/);
+  });
+});
+
+describe('loadSchema', () => {
+  let dir: string | undefined;
+
+  afterEach(() => {
+    if (dir) fs.rmSync(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
+  it('reads a schema object and rejects anything else', () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'enigma-schema-'));
+    const good = path.join(dir, 'good.json');
+    const bad = path.join(dir, 'bad.json');
+    fs.writeFileSync(good, JSON.stringify(releaseSchema));
+    fs.writeFileSync(bad, '[1, 2]');
+
+    expect(loadSchema(good)).toEqual(releaseSchema);
+    expect(() => loadSchema(bad)).toThrow('must contain a JSON Schema object');
+    expect(() => loadSchema(path.join(dir!, 'missing.json'))).toThrow('Cannot read schema file');
+  });
+});
+
+describe('askStructured', () => {
+  it('sends the schema and returns the validated value', async () => {
+    const request = vi.fn().mockResolvedValue(answer('{"version":"v22.11.0","lts":true}'));
+
+    const result = await askStructured('Latest LTS?', defaultConfig, { model: 'sonar' }, releaseSchema, request);
+
+    expect(result).toMatchObject({ value: { version: 'v22.11.0', lts: true }, attempts: 1 });
+    expect(request).toHaveBeenCalledWith('Latest LTS?', defaultConfig, { model: 'sonar', responseSchema: releaseSchema });
+  });
+
+  it('retries once with the validation errors', async () => {
+    const request = vi
+      .fn()
+      .mockResolvedValueOnce(answer('{"version":"v22.11.0"}'))
+      .mockResolvedValueOnce(answer('{"version":"v22.11.0","lts":true}'));
+
+    const result = await askStructured('Latest LTS?', defaultConfig, {}, releaseSchema, request);
+
+    expect(result.attempts).toBe(2);
+    const [retryQuestion, , retryOptions] = request.mock.calls[1];
+    expect(retryQuestion).toContain('- $.lts: is required');
+    expect(retryOptions.history).toEqual([
+      { role: 'user', content: 'Latest LTS?' },
+      { role: 'assistant', content: '{"version":"v22.11.0"}' },
+    ]);
+  });
+
+  it('fails when the retry does not conform either', async () => {
+    const request = vi.fn().mockResolvedValue(answer('not json'));
+
+    await expect(askStructured('Latest LTS?', defaultConfig, {}, releaseSchema, request)).rejects.toThrow(
+      'Answer does not match the schema after a retry',
+    );
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,170 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { defaultConfig } from '../src/config.js';
+import {
+  createSession,
+  deleteSession,
+  describeSessionModel,
+  deriveSessionTitle,
+  generateSessionId,
+  latestSession,
+  listSessions,
+  loadSession,
+  recordTurn,
+  renameSession,
+  resetSession,
+  saveSession,
+  sessionsDir,
+} from '../src/sessions.js';
+
+const tempDir = () => fs.mkdtempSync(path.join(os.tmpdir(), 'enigma-sessions-'));
+
+describe('generateSessionId', () => {
+  it('produces sortable, filename-safe ids', () => {
+    const id = generateSessionId(new Date('2026-01-07T14:23:01Z'));
+    expect(id).toMatch(/^20260107-142301-[0-9a-f]{4}$/);
+  });
+});
+
+describe('deriveSessionTitle', () => {
+  it('collapses whitespace and truncates long questions', () => {
+    expect(deriveSessionTitle('  How do I\n  deploy?  ')).toBe('How do I deploy?');
+    const title = deriveSessionTitle('a'.repeat(100));
+    expect(title.length).toBe(60);
+    expect(title.endsWith('...')).toBe(true);
+  });
+});
+
+describe('createSession', () => {
+  it('leaves the model unpinned unless one is given', () => {
+    expect(createSession(defaultConfig, { model: 'sonar' }).model).toBe('sonar');
+    const session = createSession(defaultConfig, { searchMode: 'high' });
+    expect(session.model).toBeUndefined();
+    expect(session.searchMode).toBe('high');
+    expect(session.messages).toEqual([]);
+  });
+
+  it('keeps a role shortcut as a role instead of pinning a model', () => {
+    const config = { ...defaultConfig, personas: { auditor: { system_prompt: 'Audit.', model: 'sonar-reasoning' } } };
+    const session = createSession(config, { role: 'reasoning', persona: 'auditor' });
+    expect(session.model).toBeUndefined();
+    expect(session.role).toBe('reasoning');
+    expect(describeSessionModel(session)).toBe('models.reasoning');
+  });
+
+  it("uses the persona's model when no model is given", () => {
+    const config = { ...defaultConfig, personas: { auditor: { system_prompt: 'Audit.', model: 'sonar-reasoning' } } };
+    const session = createSession(config, { persona: 'auditor' });
+    expect(session.model).toBe('sonar-reasoning');
+    expect(session.persona).toBe('auditor');
+  });
+});
+
+describe('recordTurn', () => {
+  it('appends user and assistant messages, tagging answers with their model', () => {
+    const session = createSession(defaultConfig, { model: 'sonar' });
+    const now = new Date('2026-01-07T10:00:00Z');
+    recordTurn(session, 'First question', { content: 'First answer' }, now);
+    recordTurn(session, 'Second question', { content: 'Second answer', model: 'sonar-pro' }, now);
+
+    expect(session.title).toBe('First question');
+    expect(session.updatedAt).toBe(now.toISOString());
+    expect(session.messages).toEqual([
+      { role: 'user', content: 'First question', timestamp: now.toISOString() },
+      { role: 'assistant', content: 'First answer', timestamp: now.toISOString(), model: 'sonar' },
+      { role: 'user', content: 'Second question', timestamp: now.toISOString() },
+      { role: 'assistant', content: 'Second answer', timestamp: now.toISOString(), model: 'sonar-pro' },
+    ]);
+  });
+
+  it('keeps the sources cited by an answer', () => {
+    const session = createSession(defaultConfig, {});
+    recordTurn(session, 'q', { content: 'a [1]', citations: [{ url: 'https://a.test', title: 'A' }] });
+
+    expect(session.messages[1].citations).toEqual([{ url: 'https://a.test', title: 'A' }]);
+  });
+});
+
+describe('session store', () => {
+  it('saves, lists and loads sessions by id or prefix', () => {
+    const baseDir = tempDir();
+    const older = recordTurn(createSession(defaultConfig, {}, new Date('2026-01-01T00:00:00Z')), 'old', { content: 'a' }, new Date('2026-01-01T00:00:00Z'));
+    const newer = recordTurn(createSession(defaultConfig, {}, new Date('2026-01-02T00:00:00Z')), 'new', { content: 'b' }, new Date('2026-01-02T00:00:00Z'));
+    saveSession(older, baseDir);
+    saveSession(newer, baseDir);
+
+    expect(listSessions(baseDir).map((s) => s.id)).toEqual([newer.id, older.id]);
+    expect(latestSession(baseDir)?.id).toBe(newer.id);
+    expect(loadSession(newer.id, baseDir).title).toBe('new');
+    expect(loadSession('20260101', baseDir).id).toBe(older.id);
+  });
+
+  it('writes session files with secure permissions', () => {
+    const baseDir = tempDir();
+    const filePath = saveSession(createSession(defaultConfig), baseDir);
+    if (process.platform !== 'win32') {
+      expect(fs.statSync(filePath).mode & 0o777).toBe(0o600);
+    }
+  });
+
+  it('throws for unknown or ambiguous ids', () => {
+    const baseDir = tempDir();
+    saveSession(createSession(defaultConfig, {}, new Date('2026-01-01T00:00:00Z')), baseDir);
+    saveSession(createSession(defaultConfig, {}, new Date('2026-01-01T00:00:00Z')), baseDir);
+
+    expect(() => loadSession('nope', baseDir)).toThrow(/not found/);
+    expect(() => loadSession('2026', baseDir)).toThrow(/ambiguous/);
+  });
+
+  it('never reads or deletes files outside the store', () => {
+    const baseDir = tempDir();
+    const session = createSession(defaultConfig);
+    fs.writeFileSync(path.join(baseDir, 'outside.json'), JSON.stringify({ ...session, id: '../../outside' }));
+    fs.mkdirSync(sessionsDir(baseDir), { recursive: true });
+    fs.writeFileSync(path.join(sessionsDir(baseDir), 'planted.json'), JSON.stringify({ ...session, id: '../../outside' }));
+
+    expect(() => loadSession('../../outside', baseDir)).toThrow(/not found/);
+    expect(listSessions(baseDir)).toEqual([]);
+    expect(() => saveSession({ ...session, id: '../../outside' }, baseDir)).toThrow('not a valid session id');
+    expect(fs.existsSync(path.join(baseDir, 'outside.json'))).toBe(true);
+  });
+
+  it('skips unreadable session files', () => {
+    const baseDir = tempDir();
+    fs.mkdirSync(sessionsDir(baseDir), { recursive: true });
+    fs.writeFileSync(path.join(sessionsDir(baseDir), 'broken.json'), '{not json');
+
+    expect(listSessions(baseDir)).toEqual([]);
+  });
+
+  it('returns no sessions when the store does not exist', () => {
+    expect(listSessions(tempDir())).toEqual([]);
+    expect(latestSession(tempDir())).toBeUndefined();
+  });
+
+  it('renames and deletes sessions', () => {
+    const baseDir = tempDir();
+    const session = createSession(defaultConfig);
+    saveSession(session, baseDir);
+
+    expect(renameSession(session.id, 'Profile setup', baseDir).title).toBe('Profile setup');
+    expect(loadSession(session.id, baseDir).title).toBe('Profile setup');
+
+    deleteSession(session.id, baseDir);
+    expect(listSessions(baseDir)).toEqual([]);
+  });
+});
+
+describe('resetSession', () => {
+  it('starts an empty session with the same model and search mode', () => {
+    const session = recordTurn(createSession(defaultConfig, { model: 'sonar', searchMode: 'low' }), 'q', { content: 'a' });
+    const fresh = resetSession(session);
+
+    expect(fresh.id).not.toBe(session.id);
+    expect(fresh.messages).toEqual([]);
+    expect(fresh.model).toBe('sonar');
+    expect(fresh.searchMode).toBe('low');
+  });
+});
@@ -0,0 +1,85 @@
+import { spawn } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { describe, expect, it } from 'vitest';
+import { combineWithStdin, isStdinPiped, isStdinTerminal, readStdin } from '../src/stdin.js';
+
+// Runs the question-reading steps in a child process with the given stdin, as the CLI does.
+const readQuestionWith = (stdin: 'pipe' | number): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const script =
+      "import('./src/stdin.ts').then(async (m) => { const input = m.isStdinPiped() ? await m.readStdin(1000) : undefined; " +
+      "console.log(m.combineWithStdin('question', input)); process.exit(0); })";
+    const child = spawn(process.execPath, ['--import', 'tsx', '-e', script], { cwd: process.cwd(), stdio: [stdin, 'pipe', 'inherit'] });
+    let output = '';
+    const timer = setTimeout(() => {
+      child.kill();
+      reject(new Error('timed out waiting for stdin'));
+    }, 15000);
+    child.stdout.on('data', (chunk) => (output += chunk));
+    child.on('exit', () => {
+      clearTimeout(timer);
+      resolve(output.trim());
+    });
+  });
+
+describe('isStdinPiped', () => {
+  it('is true for a file on stdin and false for a terminal', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'enigma-stdin-'));
+    const fd = fs.openSync(path.join(dir, 'input.txt'), 'w+');
+    expect(isStdinPiped(fd)).toBe(true);
+    fs.closeSync(fd);
+    expect(isStdinPiped(-1)).toBe(false);
+    expect(isStdinTerminal({ isTTY: true })).toBe(true);
+    expect(isStdinTerminal({})).toBe(false);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('does not wait on stdin that is open but never written to', async () => {
+    expect(await readQuestionWith('pipe')).toBe('question');
+  }, 20000);
+
+  it('reads stdin redirected from a file', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'enigma-stdin-'));
+    fs.writeFileSync(path.join(dir, 'input.txt'), 'log line\n');
+    const fd = fs.openSync(path.join(dir, 'input.txt'), 'r');
+    expect(await readQuestionWith(fd)).toBe('question\n\n```\nlog line\n```');
+    fs.closeSync(fd);
+    fs.rmSync(dir, { recursive: true, force: true });
+  }, 20000);
+});
+
+describe('readStdin', () => {
+  it('joins chunks and drops a byte order mark', async () => {
+    const stream = Readable.from([Buffer.from('\uFEFFline 1\n'), 'line 2\n']);
+    await expect(readStdin(1000, stream)).resolves.toBe('line 1\nline 2\n');
+  });
+
+  it('rejects input over the size limit', async () => {
+    const stream = Readable.from(['x'.repeat(600), 'x'.repeat(600)]);
+    await expect(readStdin(1024, stream)).rejects.toThrow('Input on stdin is larger than 1 KB (attachments.max_stdin_bytes)');
+  });
+});
+
+describe('combineWithStdin', () => {
+  it('appends piped input to the question as a fenced block', () => {
+    expect(combineWithStdin('review this', 'diff --git a/x b/x\n+added\n\n')).toBe('review this\n\n```\ndiff --git a/x b/x\n+added\n```');
+  });
+
+  it('uses a longer fence when the input contains one', () => {
+    expect(combineWithStdin('summarize', 'Notes\n```js\nx()\n```\n')).toBe('summarize\n\n````\nNotes\n```js\nx()\n```\n````');
+  });
+
+  it('takes the whole question from stdin for "-" or when no question is given', () => {
+    expect(combineWithStdin('-', '  What is a monad?\n')).toBe('What is a monad?');
+    expect(combineWithStdin('', 'What is a monad?\n')).toBe('What is a monad?');
+  });
+
+  it('keeps the question when nothing was piped and rejects "-" without input', () => {
+    expect(combineWithStdin('hello', '')).toBe('hello');
+    expect(combineWithStdin('hello', undefined)).toBe('hello');
+    expect(() => combineWithStdin('-', undefined)).toThrow('"-" reads the question from stdin, but nothing was piped in.');
+  });
+});
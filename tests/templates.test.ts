@@ -0,0 +1,106 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, expect, it, vi } from 'vitest';
+import { defaultConfig } from '../src/config.js';
+import {
+  extractVariables,
+  findTemplate,
+  loadTemplates,
+  parseVarAssignments,
+  renderTemplate,
+  templateAskOptions,
+  templatesDir,
+} from '../src/templates.js';
+
+const tempDir = () => fs.mkdtempSync(path.join(os.tmpdir(), 'enigma-templates-'));
+
+const configWithTemplates = {
+  ...defaultConfig,
+  templates: {
+    compare: {
+      description: 'Compare two libraries',
+      prompt: 'Compare {{x}} vs {{ y }} for {{criteria}}. Mention {{x}} first.',
+      defaults: { criteria: 'maintenance' },
+      model: 'sonar-reasoning-pro',
+      search_mode: 'high' as const,
+      format: 'json' as const,
+    },
+  },
+};
+
+describe('extractVariables', () => {
+  it('returns distinct placeholder names in order', () => {
+    expect(extractVariables('{{x}} and {{ y }} then {{x}}')).toEqual(['x', 'y']);
+    expect(extractVariables('no placeholders')).toEqual([]);
+  });
+});
+
+describe('parseVarAssignments', () => {
+  it('parses key=value pairs, keeping "=" inside values', () => {
+    expect(parseVarAssignments(['x=axios', 'query=a=b'])).toEqual({ x: 'axios', query: 'a=b' });
+    expect(parseVarAssignments()).toEqual({});
+  });
+
+  it('rejects assignments without a key', () => {
+    expect(() => parseVarAssignments(['novalue'])).toThrow(/key=value/);
+    expect(() => parseVarAssignments(['=value'])).toThrow(/key=value/);
+  });
+});
+
+describe('loadTemplates', () => {
+  it('merges .pplxrc templates with files, letting files win', () => {
+    const baseDir = tempDir();
+    fs.mkdirSync(templatesDir(baseDir), { recursive: true });
+    fs.writeFileSync(path.join(templatesDir(baseDir), 'compare.yaml'), 'prompt: "File version of {{x}}"\n');
+    fs.writeFileSync(path.join(templatesDir(baseDir), 'explain.md'), 'Explain {{topic}} simply.\n');
+    fs.writeFileSync(path.join(templatesDir(baseDir), 'notes.json'), '{}');
+
+    const templates = loadTemplates(configWithTemplates, baseDir);
+
+    expect(templates.map((t) => t.name)).toEqual(['compare', 'explain']);
+    expect(templates[0].prompt).toBe('File version of {{x}}');
+    expect(templates[1]).toEqual(expect.objectContaining({ prompt: 'Explain {{topic}} simply.' }));
+  });
+
+  it('skips template files without a prompt', () => {
+    const baseDir = tempDir();
+    fs.mkdirSync(templatesDir(baseDir), { recursive: true });
+    fs.writeFileSync(path.join(templatesDir(baseDir), 'broken.yaml'), 'model: sonar\n');
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    expect(loadTemplates(defaultConfig, baseDir)).toEqual([]);
+    expect(errorSpy).toHaveBeenCalled();
+    errorSpy.mockRestore();
+  });
+});
+
+describe('findTemplate', () => {
+  it('throws with the available names when missing', () => {
+    expect(() => findTemplate('nope', configWithTemplates, tempDir())).toThrow(/Available templates: compare/);
+  });
+});
+
+describe('renderTemplate', () => {
+  it('fills placeholders from vars and defaults', () => {
+    const template = findTemplate('compare', configWithTemplates, tempDir());
+    expect(renderTemplate(template, { x: 'axios', y: 'got' })).toBe('Compare axios vs got for maintenance. Mention axios first.');
+  });
+
+  it('lists missing variables', () => {
+    const template = findTemplate('compare', configWithTemplates, tempDir());
+    expect(() => renderTemplate(template, { x: 'axios' })).toThrow(/needs values for: y/);
+  });
+});
+
+describe('templateAskOptions', () => {
+  it('returns pinned model, search mode and format', () => {
+    const template = findTemplate('compare', configWithTemplates, tempDir());
+    expect(templateAskOptions(template)).toEqual({
+      model: 'sonar-reasoning-pro',
+      searchMode: 'high',
+      format: 'json',
+      persona: undefined,
+    });
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { createThinkingParser, splitThinking } from '../src/thinking.js';
+
+describe('splitThinking', () => {
+  it('separates <think> sections from the answer', () => {
+    expect(splitThinking('<think>\nCheck the docs first.\n</think>\n\nUse $PROFILE.')).toEqual({
+      thinking: 'Check the docs first.',
+      answer: 'Use $PROFILE.',
+    });
+  });
+
+  it('leaves answers without thinking untouched', () => {
+    expect(splitThinking('Just the answer.')).toEqual({ thinking: '', answer: 'Just the answer.' });
+  });
+
+  it('treats an unclosed section as thinking', () => {
+    expect(splitThinking('<think>still going')).toEqual({ thinking: 'still going', answer: '' });
+  });
+});
+
+describe('createThinkingParser', () => {
+  it('handles tags split across chunks', () => {
+    const parser = createThinkingParser();
+    const chunks = ['<th', 'ink>Plan', ' it.</th', 'in', 'k>\n\nAns', 'wer <b>bold</b>'];
+    const parts = chunks.map((chunk) => parser.push(chunk));
+    parts.push(parser.end());
+
+    expect(parts.map((part) => part.thinking).join('')).toBe('Plan it.');
+    expect(parts.map((part) => part.answer).join('')).toBe('Answer <b>bold</b>');
+    expect(parts[0]).toEqual({ thinking: '', answer: '' });
+  });
+
+  it('releases a held-back partial tag that never completes', () => {
+    const parser = createThinkingParser();
+    expect(parser.push('a < b and a <thi')).toEqual({ thinking: '', answer: 'a < b and a ' });
+    expect(parser.end()).toEqual({ thinking: '', answer: '<thi' });
+  });
+});
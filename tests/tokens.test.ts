@@ -0,0 +1,125 @@
+import { describe, expect, it, vi } from 'vitest';
+import { defaultConfig, EnigmaConfig } from '../src/config.js';
+import { ChatMessage } from '../src/perplexity.js';
+import {
+  compactHistory,
+  contextWindowFor,
+  estimateMessageTokens,
+  estimateTokens,
+  measureContext,
+  SUMMARY_PREFIX,
+  trimHistory,
+} from '../src/tokens.js';
+
+const smallWindow = (overrides: Partial<EnigmaConfig['context']> = {}): EnigmaConfig => ({
+  ...defaultConfig,
+  agent: { ...defaultConfig.agent, max_tokens: 100 },
+  context: { ...defaultConfig.context, max_context_tokens: 300, ...overrides },
+});
+
+const turn = (index: number, size = 200): ChatMessage[] => [
+  { role: 'user', content: `question ${index} ${'q'.repeat(size)}` },
+  { role: 'assistant', content: `answer ${index} ${'a'.repeat(size)}` },
+];
+
+describe('estimateTokens', () => {
+  it('approximates four characters per token', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('abcd')).toBe(1);
+    expect(estimateTokens('abcde')).toBe(2);
+  });
+
+  it('adds per-message overhead', () => {
+    expect(estimateMessageTokens([{ role: 'user', content: 'abcd' }])).toBe(5);
+  });
+});
+
+describe('contextWindowFor', () => {
+  it('uses the built-in window unless overridden', () => {
+    expect(contextWindowFor('sonar-pro', defaultConfig)).toBe(200000);
+    expect(contextWindowFor('unknown-model', defaultConfig)).toBeGreaterThan(0);
+    expect(contextWindowFor('sonar-pro', smallWindow())).toBe(300);
+  });
+
+  it('uses the window declared for custom models', () => {
+    expect(contextWindowFor('local-model', { ...defaultConfig, custom_models: { 'local-model': { context_window: 8000 } } })).toBe(8000);
+  });
+});
+
+describe('measureContext', () => {
+  it('reserves agent.max_tokens for the answer', () => {
+    const usage = measureContext('abcd', [], smallWindow(), 'sonar');
+    expect(usage).toEqual({
+      model: 'sonar',
+      contextWindow: 300,
+      promptTokens: 5,
+      responseTokens: 100,
+      remainingTokens: 195,
+      fits: true,
+    });
+  });
+
+  it('counts the system prompt alongside history and the question', () => {
+    expect(measureContext('abcd', [], smallWindow(), 'sonar', 'x'.repeat(800)).promptTokens).toBe(5 + 204);
+  });
+});
+
+describe('trimHistory', () => {
+  it('drops the oldest turns until the request fits', () => {
+    const history = [...turn(1), ...turn(2), ...turn(3)];
+    const trimmed = trimHistory('next', history, smallWindow(), 'sonar');
+
+    expect(trimmed[0].role).toBe('user');
+    expect(trimmed[trimmed.length - 1].content).toContain('answer 3');
+    expect(trimmed.length).toBeLessThan(history.length);
+    expect(measureContext('next', trimmed, smallWindow(), 'sonar').fits).toBe(true);
+  });
+});
+
+describe('compactHistory', () => {
+  it('leaves history alone when it fits', async () => {
+    const history = turn(1, 10);
+    const result = await compactHistory('next', history, smallWindow(), 'sonar');
+    expect(result.compacted).toBe('none');
+    expect(result.history).toBe(history);
+  });
+
+  it('compacts history that only overflows once the system prompt and attached files are counted', async () => {
+    const history = turn(1, 40);
+    const prompt = `next\n\nAttached files:\n\n<file path="a.ts">\n${'x'.repeat(320)}\n</file>`;
+    expect(measureContext(prompt, history, smallWindow(), 'sonar').fits).toBe(true);
+    const result = await compactHistory(prompt, history, smallWindow(), 'sonar', undefined, 'y'.repeat(320));
+
+    expect(result.compacted).toBe('trimmed');
+    expect(result.history).toEqual([]);
+    expect(result.usage.fits).toBe(true);
+  });
+
+  it('trims when the strategy is trim', async () => {
+    const summarize = vi.fn();
+    const result = await compactHistory('next', [...turn(1), ...turn(2), ...turn(3)], smallWindow(), 'sonar', summarize);
+
+    expect(result.compacted).toBe('trimmed');
+    expect(result.usage.fits).toBe(true);
+    expect(summarize).not.toHaveBeenCalled();
+  });
+
+  it('summarizes older turns and keeps recent ones verbatim', async () => {
+    const summarize = vi.fn().mockResolvedValue('They discussed loops.');
+    const history = [...turn(1), ...turn(2), ...turn(3, 10)];
+    const result = await compactHistory(
+      'next',
+      history,
+      smallWindow({ strategy: 'summarize', keep_recent_turns: 1 }),
+      'sonar',
+      summarize,
+    );
+
+    expect(result.compacted).toBe('summarized');
+    expect(summarize).toHaveBeenCalledWith(history.slice(0, 4));
+    expect(result.history).toEqual([
+      { role: 'system', content: `${SUMMARY_PREFIX}\nThey discussed loops.` },
+      ...turn(3, 10),
+    ]);
+  });
+});
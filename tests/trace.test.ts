@@ -0,0 +1,53 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { defaultConfig } from '../src/config.js';
+import { redactHeaders, redactSecrets, trace } from '../src/trace.js';
+
+const verboseConfig = { ...defaultConfig, output: { ...defaultConfig.output, verbose: true } };
+
+describe('redactSecrets', () => {
+  it('masks API keys', () => {
+    expect(redactSecrets('key pplx-abc123_DEF-456 used')).toBe('key pplx-[redacted] used');
+  });
+});
+
+describe('redactHeaders', () => {
+  it('replaces credential headers and keeps the rest', () => {
+    expect(redactHeaders({ Authorization: 'Bearer pplx-abc', 'Content-Type': 'application/json', 'set-cookie': ['a=b'] })).toEqual({
+      Authorization: '[redacted]',
+      'Content-Type': 'application/json',
+      'set-cookie': '[redacted]',
+    });
+  });
+
+  it('accepts header objects with toJSON and missing headers', () => {
+    expect(redactHeaders({ toJSON: () => ({ 'x-request-id': '42' }) })).toEqual({ 'x-request-id': '42' });
+    expect(redactHeaders(undefined)).toEqual({});
+  });
+});
+
+describe('trace', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('writes to stderr only when verbose', () => {
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    trace(defaultConfig, 'Hidden', { a: 1 });
+    trace(verboseConfig, 'Usage', { totalTokens: 12 });
+    trace(verboseConfig, 'Route', 'fast: short question');
+
+    expect(errorSpy.mock.calls.map(([line]) => line)).toEqual([
+      '[verbose] Usage {\n  "totalTokens": 12\n}',
+      '[verbose] Route fast: short question',
+    ]);
+  });
+
+  it('never prints API keys', () => {
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    trace(verboseConfig, 'Request failed', { body: 'invalid key pplx-0123456789' });
+
+    expect(String(errorSpy.mock.calls[0][0])).not.toContain('0123456789');
+  });
+});
@@ -0,0 +1,187 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { defaultConfig, EnigmaConfig } from '../src/config.js';
+import {
+  budgetStatus,
+  enforceBudget,
+  estimateCost,
+  formatUsageTable,
+  parseSince,
+  readUsage,
+  recordUsage,
+  setUsageCommand,
+  summarizeUsage,
+  toUsageEntry,
+  UsageEntry,
+  usagePath,
+} from '../src/usage.js';
+
+const entry = (overrides: Partial<UsageEntry>): UsageEntry => ({
+  timestamp: '2026-10-19T10:00:00.000Z',
+  model: 'sonar',
+  promptTokens: 100,
+  completionTokens: 200,
+  totalTokens: 300,
+  searches: 1,
+  latencyMs: 500,
+  costUsd: 0.0003,
+  ...overrides,
+});
+
+const withUsage = (usage: Partial<EnigmaConfig['usage']>): EnigmaConfig => ({ ...defaultConfig, usage: { ...defaultConfig.usage, ...usage } });
+
+describe('estimateCost', () => {
+  it('prices prompt and completion tokens per million', () => {
+    expect(estimateCost('sonar-pro', { promptTokens: 1_000_000, completionTokens: 100_000, totalTokens: 1_100_000 }, defaultConfig)).toBe(4.5);
+  });
+
+  it('returns null without usage or pricing', () => {
+    expect(estimateCost('sonar-pro', undefined, defaultConfig)).toBe(null);
+    expect(estimateCost('sonar-large', { promptTokens: 1, completionTokens: 1, totalTokens: 2 }, defaultConfig)).toBe(null);
+  });
+});
+
+describe('toUsageEntry', () => {
+  afterEach(() => {
+    setUsageCommand(undefined);
+  });
+
+  it('labels entries with the current command', () => {
+    setUsageCommand('template run');
+    const now = new Date('2026-10-19T12:00:00Z');
+
+    expect(toUsageEntry('sonar', { promptTokens: 1, completionTokens: 2, totalTokens: 3, searchQueries: 1 }, 42, defaultConfig, now)).toEqual({
+      timestamp: '2026-10-19T12:00:00.000Z',
+      command: 'template run',
+      model: 'sonar',
+      promptTokens: 1,
+      completionTokens: 2,
+      totalTokens: 3,
+      searches: 1,
+      latencyMs: 42,
+      costUsd: 3 / 1_000_000,
+    });
+  });
+});
+
+describe('ledger file', () => {
+  let baseDir: string;
+
+  beforeEach(() => {
+    baseDir = fs.mkdtempSync(path.join(os.tmpdir(), 'enigma-usage-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(baseDir, { recursive: true, force: true });
+  });
+
+  it('appends entries and skips unreadable lines', () => {
+    recordUsage(entry({ model: 'sonar' }), defaultConfig, baseDir);
+    fs.appendFileSync(usagePath(baseDir), 'not json\n');
+    recordUsage(entry({ model: 'sonar-pro' }), defaultConfig, baseDir);
+
+    expect(readUsage(baseDir).map((e) => e.model)).toEqual(['sonar', 'sonar-pro']);
+    if (process.platform !== 'win32') {
+      expect(fs.statSync(usagePath(baseDir)).mode & 0o777).toBe(0o600);
+    }
+  });
+
+  it('keeps one ledger per user, whatever the working directory', () => {
+    const homedir = vi.spyOn(os, 'homedir').mockReturnValue(baseDir);
+    recordUsage(entry({}), defaultConfig);
+
+    expect(usagePath()).toBe(path.join(baseDir, '.enigma', 'usage.jsonl'));
+    expect(readUsage()).toHaveLength(1);
+    homedir.mockRestore();
+  });
+
+  it('records nothing when tracking is off', () => {
+    recordUsage(entry({}), withUsage({ track: false }), baseDir);
+
+    expect(fs.existsSync(usagePath(baseDir))).toBe(false);
+  });
+
+  it('warns or blocks once a budget is spent', () => {
+    const now = new Date();
+    recordUsage(entry({ timestamp: now.toISOString(), costUsd: 2 }), defaultConfig, baseDir);
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    enforceBudget(withUsage({ daily_budget: 5 }), baseDir, now);
+    expect(errorSpy).not.toHaveBeenCalled();
+
+    enforceBudget(withUsage({ daily_budget: 1 }), baseDir, now);
+    expect(String(errorSpy.mock.calls[0][0])).toContain('The daily budget of $1.00 is used up ($2.00 estimated spend)');
+    errorSpy.mockRestore();
+
+    expect(() => enforceBudget(withUsage({ monthly_budget: 1, budget_action: 'block' }), baseDir, now)).toThrow(
+      'Raise usage.monthly_budget in .pplxrc',
+    );
+  });
+});
+
+describe('parseSince', () => {
+  const now = new Date('2026-10-19T12:00:00Z');
+
+  it('parses durations and dates', () => {
+    expect(parseSince('7d', now)?.toISOString()).toBe('2026-10-12T12:00:00.000Z');
+    expect(parseSince('12h', now)?.toISOString()).toBe('2026-10-19T00:00:00.000Z');
+    expect(parseSince('2w', now)?.toISOString()).toBe('2026-10-05T12:00:00.000Z');
+    expect(parseSince('2026-10-01')?.getDate()).toBe(1);
+  });
+
+  it('rejects anything else', () => {
+    expect(parseSince('last week', now)).toBe(undefined);
+    expect(parseSince('7m', now)).toBe(undefined);
+  });
+});
+
+describe('summarizeUsage', () => {
+  const entries = [
+    entry({ model: 'sonar', command: 'ask', costUsd: 0.01 }),
+    entry({ model: 'sonar-pro', command: 'ask', costUsd: 0.5 }),
+    entry({ model: 'sonar-pro', command: 'research', costUsd: null }),
+  ];
+
+  it('groups by model, most expensive first', () => {
+    const rows = summarizeUsage(entries, 'model');
+
+    expect(rows.map((row) => [row.key, row.requests, row.costUsd, row.unpriced])).toEqual([
+      ['sonar-pro', 2, 0.5, 1],
+      ['sonar', 1, 0.01, 0],
+    ]);
+  });
+
+  it('groups by command', () => {
+    expect(summarizeUsage(entries, 'command').map((row) => row.key)).toEqual(['ask', 'research']);
+  });
+
+  it('formats a table with a total line', () => {
+    const table = formatUsageTable(summarizeUsage(entries, 'model'), 'model');
+
+    expect(table.split('\n')).toEqual([
+      'model      requests  prompt  completion  total  searches  est. cost',
+      'sonar-pro         2     200         400    600         2   $0.5000+',
+      'sonar             1     100         200    300         1    $0.0100',
+      'total             3     300         600    900         3   $0.5100+',
+    ]);
+  });
+});
+
+describe('budgetStatus', () => {
+  it('reports spend for the configured budgets only', () => {
+    const now = new Date(2026, 9, 19, 12);
+    const entries = [
+      entry({ timestamp: new Date(2026, 9, 19, 9).toISOString(), costUsd: 1 }),
+      entry({ timestamp: new Date(2026, 9, 2, 9).toISOString(), costUsd: 3 }),
+      entry({ timestamp: new Date(2026, 8, 30, 9).toISOString(), costUsd: 10 }),
+    ];
+
+    expect(budgetStatus(defaultConfig, entries, now)).toEqual([]);
+    expect(budgetStatus(withUsage({ daily_budget: 2, monthly_budget: 20 }), entries, now)).toEqual([
+      { period: 'daily', spentUsd: 1, limitUsd: 2 },
+      { period: 'monthly', spentUsd: 4, limitUsd: 20 },
+    ]);
+  });
+});
@@ -0,0 +1,90 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { defaultConfig, EnigmaConfig } from '../src/config.js';
+import {
+  buildWorkspaceContext,
+  questionKeywords,
+  renderFileTree,
+  scoreFile,
+  withWorkspaceContext,
+} from '../src/workspace.js';
+
+const withWorkspace = (workspace: Partial<EnigmaConfig['workspace']>): EnigmaConfig => ({
+  ...defaultConfig,
+  workspace: { ...defaultConfig.workspace, ...workspace },
+});
+
+let baseDir: string;
+
+const write = (relativePath: string, content: string | Buffer) => {
+  const filePath = path.join(baseDir, relativePath);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, content);
+};
+
+beforeEach(() => {
+  baseDir = fs.mkdtempSync(path.join(os.tmpdir(), 'enigma-workspace-'));
+  write('.gitignore', 'dist/\n');
+  write('README.md', '# Demo\n');
+  write('src/config.ts', 'export const loadConfig = () => process.env.API_KEY;\n');
+  write('src/server.ts', 'import { loadConfig } from "./config";\nexport const start = () => loadConfig();\n');
+  write('src/util.ts', 'export const add = (a: number, b: number) => a + b;\n');
+  write('dist/config.js', 'compiled config');
+  write('assets/logo.png', Buffer.from([0x89, 0x50, 0x00, 0x01]));
+});
+
+afterEach(() => {
+  fs.rmSync(baseDir, { recursive: true, force: true });
+});
+
+describe('questionKeywords', () => {
+  it('drops question words and adds identifier parts, singulars and abbreviations', () => {
+    expect(questionKeywords('Where is loadConfig handled in this repo?')).toEqual(['loadconfig', 'load', 'config']);
+    expect(questionKeywords('Which environment variables are read?')).toEqual(['environment', 'env', 'variables', 'variable', 'var', 'read']);
+  });
+});
+
+describe('scoreFile', () => {
+  it('ranks path matches above mentions in the contents', () => {
+    const inPath = scoreFile('src/config.ts', 'export {}', ['config']);
+    const inContent = scoreFile('src/server.ts', 'loadConfig(config)', ['config']);
+    expect(inPath).toBeGreaterThan(inContent);
+    expect(inContent).toBeGreaterThan(0);
+    expect(scoreFile('src/util.ts', 'add', ['config'])).toBe(0);
+  });
+});
+
+describe('renderFileTree', () => {
+  it('indents files under their directories and truncates long listings', () => {
+    const paths = ['README.md', 'src/a.ts', 'src/lib/b.ts', 'src/lib/c.ts', 'tests/a.test.ts'];
+    expect(renderFileTree(paths, 10)).toBe(['README.md', 'src/', '  a.ts', '  lib/', '    b.ts', '    c.ts', 'tests/', '  a.test.ts'].join('\n'));
+    expect(renderFileTree(paths, 2)).toBe(['README.md', 'src/', '  a.ts', '... 3 more files'].join('\n'));
+  });
+});
+
+describe('buildWorkspaceContext', () => {
+  it('lists files that are not ignored and includes the most relevant ones first, then overview files', () => {
+    const context = buildWorkspaceContext('Where is loadConfig handled?', defaultConfig, baseDir);
+    expect(context.fileCount).toBe(6);
+    expect(context.tree).not.toContain('dist');
+    expect(context.files.map((file) => file.path)).toEqual(['src/config.ts', 'src/server.ts', 'README.md']);
+    expect(context.omitted).toEqual([]);
+  });
+
+  it('leaves out relevant files that do not fit in the budget', () => {
+    const context = buildWorkspaceContext('Where is loadConfig handled?', withWorkspace({ budget_tokens: 70 }), baseDir);
+    expect(context.files.map((file) => file.path)).toEqual(['src/config.ts', 'README.md']);
+    expect(context.omitted).toEqual(['src/server.ts']);
+    expect(context.tokens).toBeLessThanOrEqual(70);
+  });
+
+  it('puts the context ahead of the question', () => {
+    const context = buildWorkspaceContext('add', defaultConfig, baseDir);
+    const prompt = withWorkspaceContext('What does add do?', context);
+    expect(prompt.startsWith('Project files (6):\n```\n.gitignore\nassets/\n  logo.png\nREADME.md\n')).toBe(true);
+    expect(prompt).toContain('<file path="src/util.ts">');
+    expect(prompt.endsWith('\n\nQuestion: What does add do?')).toBe(true);
+  });
+});